@@ -0,0 +1,8 @@
+-- Challenge nonces already exchanged (single-use enforcement)
+CREATE TABLE IF NOT EXISTS consumed_nonces (
+  nonce      TEXT PRIMARY KEY,        -- challenge token nonce (UUID)
+  expires_at INTEGER NOT NULL         -- epoch seconds; row can be purged afterwards
+);
+
+CREATE INDEX IF NOT EXISTS idx_consumed_nonces_expiry
+  ON consumed_nonces(expires_at);
@@ -0,0 +1,9 @@
+-- Token buckets for per-install / per-API-key rate limiting
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket     TEXT PRIMARY KEY,        -- "<route class>:install:<installId>" or "<route class>:key:<lookupId>"
+  tokens     REAL NOT NULL,           -- tokens left as of updated_at (fractional while refilling)
+  updated_at INTEGER NOT NULL         -- epoch milliseconds
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated
+  ON rate_limit_buckets(updated_at);
@@ -0,0 +1,15 @@
+-- Agent access audit log (encrypted with the install's DEK)
+CREATE TABLE IF NOT EXISTS agent_audit_log (
+  id         TEXT PRIMARY KEY,        -- UUID
+  install_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,           -- ISO 8601; kept in clear for paging and retention
+  data_enc   TEXT NOT NULL,           -- AES-256-GCM encrypted entry: key id, route, date range, status
+  iv         TEXT NOT NULL,
+  tag        TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_audit_install
+  ON agent_audit_log(install_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_agent_audit_created
+  ON agent_audit_log(created_at);
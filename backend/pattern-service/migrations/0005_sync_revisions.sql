@@ -0,0 +1,3 @@
+-- Incremental sync: per-day content hash and client revision
+ALTER TABLE sleep_days ADD COLUMN content_hash TEXT;      -- client-supplied or server-computed hash of the day's content
+ALTER TABLE sleep_days ADD COLUMN revision     INTEGER;   -- client revision; NULL for rows synced before revisions existed
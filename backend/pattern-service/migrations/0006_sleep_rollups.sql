@@ -0,0 +1,17 @@
+-- Weekly and monthly rollups kept after raw days age out (encrypted at rest)
+CREATE TABLE IF NOT EXISTS sleep_rollups (
+  id           TEXT PRIMARY KEY,      -- <installId>:<granularity>:<periodStart>
+  install_id   TEXT NOT NULL,
+  granularity  TEXT NOT NULL,         -- "week" | "month"
+  period_start TEXT NOT NULL,         -- YYYY-MM-DD (Monday of the ISO week, or the 1st of the month)
+  data_enc     TEXT NOT NULL,         -- AES-256-GCM encrypted accumulators: metric sums, stage totals, histogram
+  iv           TEXT NOT NULL,
+  tag          TEXT NOT NULL,
+  updated_at   TEXT NOT NULL          -- ISO 8601
+);
+
+CREATE INDEX IF NOT EXISTS idx_sleep_rollups_install
+  ON sleep_rollups(install_id, granularity, period_start);
+
+-- 1 once a day is counted in its week and month rollups; rows synced earlier are folded in lazily
+ALTER TABLE sleep_days ADD COLUMN rolled_up INTEGER NOT NULL DEFAULT 0;
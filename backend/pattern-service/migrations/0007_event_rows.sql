@@ -0,0 +1,12 @@
+-- One encrypted row per behavior event, id <installId>:<date>:<index>.
+-- Rows synced earlier hold a whole day's events under <installId>:<date>:events
+-- with no name_index; they are replaced the next time that day syncs with changes.
+
+-- HMAC of the normalized event name under a key derived from the install's DEK
+ALTER TABLE behavior_events ADD COLUMN name_index TEXT;
+
+-- Position of the event within its day, to keep the synced order
+ALTER TABLE behavior_events ADD COLUMN event_index INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_events_name
+  ON behavior_events(install_id, name_index, day_date);
@@ -0,0 +1,4 @@
+-- Zone a synced day was keyed in (IANA name or UTC offset). NULL marks rows
+-- keyed by UTC date before zones were synced; a re-sync that carries the zone
+-- moves each such night to its local date.
+ALTER TABLE sleep_days ADD COLUMN tz TEXT;
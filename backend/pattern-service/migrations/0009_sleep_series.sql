@@ -0,0 +1,18 @@
+-- Per-night sample series (heart rate, HRV, respiratory rate, SpO2), encrypted at rest
+CREATE TABLE IF NOT EXISTS sleep_series (
+  id           TEXT PRIMARY KEY,      -- <installId>:<date>:<metric>:<chunkIndex>
+  install_id   TEXT NOT NULL,
+  day_date     TEXT NOT NULL,         -- YYYY-MM-DD, same key as sleep_days
+  metric       TEXT NOT NULL,         -- "hr" | "hrv" | "rr" | "spo2"
+  chunk_index  INTEGER NOT NULL,      -- order of the chunk within the night
+  start_ms     INTEGER NOT NULL,      -- first and last sample time (epoch ms)
+  end_ms       INTEGER NOT NULL,
+  sample_count INTEGER NOT NULL,
+  data_enc     TEXT NOT NULL,         -- AES-256-GCM encrypted, gzipped, delta-encoded samples (base64)
+  iv           TEXT NOT NULL,
+  tag          TEXT NOT NULL,
+  synced_at    TEXT NOT NULL          -- ISO 8601
+);
+
+CREATE INDEX IF NOT EXISTS idx_sleep_series_install
+  ON sleep_series(install_id, day_date, metric, chunk_index);
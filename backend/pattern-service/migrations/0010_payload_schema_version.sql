@@ -0,0 +1,7 @@
+-- Version of the encrypted sleep payload in data_enc (mirrors its schemaVersion
+-- field). Rows written before the envelope are version 1; the optional payload
+-- upgrade job looks them up by this column without decrypting every row.
+ALTER TABLE sleep_days ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_sleep_days_schema_version
+  ON sleep_days(schema_version, install_id);
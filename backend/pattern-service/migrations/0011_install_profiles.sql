@@ -0,0 +1,8 @@
+-- Per-install settings the server computes with (sleep score weights and targets), encrypted at rest
+CREATE TABLE IF NOT EXISTS install_profiles (
+  install_id TEXT PRIMARY KEY,
+  data_enc   TEXT NOT NULL,         -- AES-256-GCM encrypted JSON (base64)
+  iv         TEXT NOT NULL,
+  tag        TEXT NOT NULL,
+  updated_at TEXT NOT NULL          -- ISO 8601
+);
@@ -0,0 +1,13 @@
+-- Personal experiments (hypothesis, metric, baseline/intervention design, status), encrypted at rest
+CREATE TABLE IF NOT EXISTS experiments (
+  id         TEXT PRIMARY KEY,      -- UUID
+  install_id TEXT NOT NULL,
+  data_enc   TEXT NOT NULL,         -- AES-256-GCM encrypted JSON (base64)
+  iv         TEXT NOT NULL,
+  tag        TEXT NOT NULL,
+  created_at TEXT NOT NULL,         -- ISO 8601
+  updated_at TEXT NOT NULL          -- ISO 8601
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiments_install
+  ON experiments(install_id, created_at);
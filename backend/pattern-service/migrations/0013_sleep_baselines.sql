@@ -0,0 +1,14 @@
+-- Each stored night's metrics against their rolling baselines, encrypted at rest.
+-- Rows are computed on first read and dropped when a night on or before their date changes.
+CREATE TABLE IF NOT EXISTS sleep_baselines (
+  id          TEXT PRIMARY KEY,      -- <installId>:<date>
+  install_id  TEXT NOT NULL,
+  day_date    TEXT NOT NULL,         -- YYYY-MM-DD, same key as sleep_days
+  data_enc    TEXT NOT NULL,         -- AES-256-GCM encrypted JSON (base64)
+  iv          TEXT NOT NULL,
+  tag         TEXT NOT NULL,
+  computed_at TEXT NOT NULL          -- ISO 8601
+);
+
+CREATE INDEX IF NOT EXISTS idx_sleep_baselines_install
+  ON sleep_baselines(install_id, day_date);
@@ -0,0 +1,5 @@
+-- Payload version the background upgrade last failed to reach for this row
+-- (undecryptable, invalid, or its install has no DEK left). The job skips rows
+-- marked for the current version so they cannot fill every run's batch; a
+-- rewrite through sync replaces the row and clears the mark.
+ALTER TABLE sleep_days ADD COLUMN upgrade_failed_version INTEGER;
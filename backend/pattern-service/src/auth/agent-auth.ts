@@ -1,12 +1,88 @@
 import type { Env } from "../config";
+import { base64ToBuffer, bufferToBase64, constantTimeEqual, hmacSha256, type WrappedDEK } from "../crypto";
+import { agentScopeSchema, type AgentScope } from "../schema/agent";
 
 const API_KEY_PREFIX = "slk_";
 const API_KEY_HEX_LENGTH = 32;
+const API_KEY_PATTERN = /^slk_[0-9a-f]{64}$/;
 
+/** Hex characters of the key body kept in clear for lookup and display (48 bits, not enough to guess the rest). */
+const LOOKUP_ID_HEX_LENGTH = 12;
+
+/** Skip rewriting `lastUsedAt` when the previous write is this recent, to spare KV writes. */
+const LAST_USED_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Every scope an agent key can hold. Keys registered without explicit scopes get all of them. */
+export const ALL_AGENT_SCOPES: readonly AgentScope[] = agentScopeSchema.options;
+
+export const DEFAULT_AGENT_KEY_LABEL = "Agent";
+
+/** History kept for installs that never chose a retention (the original fixed window). */
+export const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Stored at `key:<lookupId>`. The API key itself is never stored; only its
+ * HMAC under AGENT_KEY_HASH_SECRET. Records written before hashing were stored
+ * under the plaintext key and are migrated the first time they are used.
+ */
 export interface AgentKeyRecord {
+    /** Absent only on keys minted before multi-key support, until they are migrated. */
+    keyId?: string;
+    /** Non-secret prefix of the key body; absent on plaintext-stored legacy records. */
+    lookupId?: string;
+    /** Base64 HMAC-SHA256 of the full API key; absent on plaintext-stored legacy records. */
+    keyHash?: string;
     installId: string;
     wrappedDek: string;
+    /** KEK version that wrapped `wrappedDek`; absent means version 1. */
+    kekVersion?: number;
     createdAt: string;
+    /** Absent on keys minted before scopes existed; those keep full read access. */
+    scopes?: AgentScope[];
+    label?: string;
+    lastUsedAt?: string | null;
+}
+
+/**
+ * Per-install index stored at `install:<installId>`.
+ * Every key of an install shares the same DEK, so data synced while one key
+ * was active stays readable through the others.
+ */
+export interface AgentInstallRecord {
+    wrappedDek: string;
+    /** KEK version that wrapped `wrappedDek`; absent means version 1. */
+    kekVersion?: number;
+    keys: Array<{ keyId: string; lookupId: string }>;
+    /** Days of synced history to keep; absent means DEFAULT_RETENTION_DAYS. */
+    retentionDays?: number;
+}
+
+/** Public view of a key, safe to return to the app. */
+export interface AgentKeySummary {
+    keyId: string;
+    label: string;
+    /** e.g. `slk_3f9a1c0b7d2e` — enough for the user to tell keys apart. */
+    keyPrefix: string;
+    scopes: AgentScope[];
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+interface RegisterApiKeyOptions {
+    label: string;
+    scopes: readonly AgentScope[];
+}
+
+/**
+ * The install index as found in KV. Entries written before hashing carry the
+ * plaintext `apiKey` instead of a `lookupId`, and installs registered before
+ * multi-key support stored a bare API key string instead of this object.
+ */
+interface StoredInstallRecord {
+    wrappedDek?: string;
+    kekVersion?: number;
+    keys: Array<{ keyId?: string; lookupId?: string; apiKey?: string }>;
+    retentionDays?: number;
 }
 
 /** Generate a new API key with the `slk_` prefix. */
@@ -19,57 +95,308 @@ export function generateApiKey(): string {
     return `${API_KEY_PREFIX}${hex}`;
 }
 
-/** Register an API key in KV, mapping it to an installId + wrapped DEK. */
+/**
+ * Register an API key in KV, mapping its hash to an installId + wrapped DEK, and
+ * add it to the install's key index alongside any keys that already exist.
+ */
 export async function registerApiKey(
     apiKey: string,
     installId: string,
-    wrappedDek: string,
+    dek: WrappedDEK,
+    options: RegisterApiKeyOptions,
+    hashSecret: string,
     env: Env
-): Promise<void> {
+): Promise<AgentKeyRecord> {
+    const keyId = crypto.randomUUID();
+    const lookupId = lookupIdFor(apiKey);
     const record: AgentKeyRecord = {
+        keyId,
+        lookupId,
+        keyHash: await hashApiKey(apiKey, hashSecret),
         installId,
-        wrappedDek,
-        createdAt: new Date().toISOString()
+        wrappedDek: dek.wrappedDek,
+        kekVersion: dek.kekVersion,
+        createdAt: new Date().toISOString(),
+        scopes: [...options.scopes],
+        label: options.label,
+        lastUsedAt: null
     };
 
-    await env.AGENT_KEYS.put(apiKey, JSON.stringify(record));
+    await env.AGENT_KEYS.put(recordKey(lookupId), JSON.stringify(record));
 
-    // Also store a reverse mapping so we can look up the key by installId
-    await env.AGENT_KEYS.put(`install:${installId}`, apiKey);
+    const existing = await readInstallRecord(installId, hashSecret, env);
+    await writeInstallRecord(installId, {
+        wrappedDek: dek.wrappedDek,
+        kekVersion: dek.kekVersion,
+        keys: [...(existing?.keys ?? []), { keyId, lookupId }],
+        retentionDays: existing?.retentionDays
+    }, env);
+
+    return record;
 }
 
-/** Validate an API key and return the associated record, or null if invalid. */
-export async function validateApiKey(apiKey: string, env: Env): Promise<AgentKeyRecord | null> {
-    if (!apiKey.startsWith(API_KEY_PREFIX)) {
+/**
+ * Validate an API key and return the associated record, or null if invalid.
+ * The record is found by the key's public prefix and accepted only if the
+ * key's HMAC matches, compared in constant time.
+ */
+export async function validateApiKey(apiKey: string, hashSecret: string, env: Env): Promise<AgentKeyRecord | null> {
+    if (!API_KEY_PATTERN.test(apiKey)) {
         return null;
     }
 
-    const raw = await env.AGENT_KEYS.get(apiKey);
+    const raw = await env.AGENT_KEYS.get(recordKey(lookupIdFor(apiKey)));
     if (!raw) {
+        return migratePlaintextKey(apiKey, hashSecret, env);
+    }
+
+    let record: AgentKeyRecord;
+    try {
+        record = JSON.parse(raw) as AgentKeyRecord;
+    } catch {
+        return null;
+    }
+
+    if (!record.keyHash) {
+        return null;
+    }
+
+    const expected = new Uint8Array(base64ToBuffer(record.keyHash));
+    const actual = await hmacSha256(hashSecret, apiKey);
+    return constantTimeEqual(expected, actual) ? record : null;
+}
+
+/** Scopes granted to a key record, treating legacy records as fully scoped. */
+export function grantedScopes(record: AgentKeyRecord): AgentScope[] {
+    return record.scopes ? [...record.scopes] : [...ALL_AGENT_SCOPES];
+}
+
+/** Whether the key record grants the given scope. */
+export function hasScope(record: AgentKeyRecord, scope: AgentScope): boolean {
+    return grantedScopes(record).includes(scope);
+}
+
+/** Stamp `lastUsedAt` on a key that just authenticated a request. */
+export async function recordApiKeyUse(record: AgentKeyRecord, env: Env): Promise<void> {
+    const now = Date.now();
+    if (!record.lookupId) {
+        return;
+    }
+    if (record.lastUsedAt && now - Date.parse(record.lastUsedAt) < LAST_USED_WRITE_INTERVAL_MS) {
+        return;
+    }
+
+    record.lastUsedAt = new Date(now).toISOString();
+    await env.AGENT_KEYS.put(recordKey(record.lookupId), JSON.stringify(record));
+}
+
+/**
+ * Read the install's key index, or null if agent access was never enabled.
+ * Plaintext entries left by older versions are migrated to hashed storage here.
+ */
+export async function readInstallRecord(installId: string, hashSecret: string, env: Env): Promise<AgentInstallRecord | null> {
+    let stored = await readStoredInstallRecord(installId, env);
+    if (!stored) {
+        return null;
+    }
+
+    const plaintextKeys = stored.keys.flatMap((entry) => (entry.apiKey ? [entry.apiKey] : []));
+    if (plaintextKeys.length > 0) {
+        for (const apiKey of plaintextKeys) {
+            await migratePlaintextKey(apiKey, hashSecret, env);
+        }
+
+        // Drop entries whose plaintext record had already disappeared
+        stored = await readStoredInstallRecord(installId, env);
+        if (stored?.wrappedDek && stored.keys.some((entry) => entry.apiKey)) {
+            stored = { ...stored, keys: stored.keys.filter((entry) => !entry.apiKey) };
+            await writeInstallRecord(installId, toInstallRecord(stored), env);
+        }
+    }
+
+    if (!stored?.wrappedDek) {
         return null;
     }
 
+    return toInstallRecord(stored);
+}
+
+/** Days of history the install keeps. */
+export function retentionDaysOf(installRecord: AgentInstallRecord | null): number {
+    return installRecord?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Store the install's retention setting. Returns the updated record, or null
+ * if agent access was never enabled (there is nothing to retain).
+ */
+export async function setRetentionDays(installId: string, retentionDays: number, hashSecret: string, env: Env): Promise<AgentInstallRecord | null> {
+    const installRecord = await readInstallRecord(installId, hashSecret, env);
+    if (!installRecord) {
+        return null;
+    }
+
+    const updated = { ...installRecord, retentionDays };
+    await writeInstallRecord(installId, updated, env);
+    return updated;
+}
+
+/** List every active key of an install, oldest first. */
+export async function listApiKeys(installId: string, hashSecret: string, env: Env): Promise<AgentKeySummary[]> {
+    const installRecord = await readInstallRecord(installId, hashSecret, env);
+    if (!installRecord) {
+        return [];
+    }
+
+    const summaries: AgentKeySummary[] = [];
+    for (const { keyId, lookupId } of installRecord.keys) {
+        const raw = await env.AGENT_KEYS.get(recordKey(lookupId));
+        if (raw) {
+            summaries.push(toSummary(keyId, lookupId, JSON.parse(raw) as AgentKeyRecord));
+        }
+    }
+
+    return summaries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke a single key by id. The install's DEK and synced data are kept so
+ * the remaining (or a future) key can still read them.
+ * Returns false when the install has no key with that id.
+ */
+export async function revokeApiKeyById(installId: string, keyId: string, hashSecret: string, env: Env): Promise<boolean> {
+    const installRecord = await readInstallRecord(installId, hashSecret, env);
+    const entry = installRecord?.keys.find((key) => key.keyId === keyId);
+    if (!installRecord || !entry) {
+        return false;
+    }
+
+    await env.AGENT_KEYS.delete(recordKey(entry.lookupId));
+    await writeInstallRecord(installId, {
+        ...installRecord,
+        keys: installRecord.keys.filter((key) => key.keyId !== keyId)
+    }, env);
+
+    return true;
+}
+
+/** Revoke every key of an install and drop its key index (and with it the DEK). */
+export async function revokeAllApiKeys(installId: string, hashSecret: string, env: Env): Promise<number> {
+    const installRecord = await readInstallRecord(installId, hashSecret, env);
+    if (!installRecord) {
+        return 0;
+    }
+
+    for (const { lookupId } of installRecord.keys) {
+        await env.AGENT_KEYS.delete(recordKey(lookupId));
+    }
+    await env.AGENT_KEYS.delete(installKey(installId));
+
+    return installRecord.keys.length;
+}
+
+// ── Helpers ────────────────────────────────────────────────────
+
+function installKey(installId: string): string {
+    return `install:${installId}`;
+}
+
+function recordKey(lookupId: string): string {
+    return `key:${lookupId}`;
+}
+
+/** Non-secret id embedded in the key itself; safe to use as a bucket or log key. */
+export function lookupIdFor(apiKey: string): string {
+    return apiKey.slice(API_KEY_PREFIX.length, API_KEY_PREFIX.length + LOOKUP_ID_HEX_LENGTH);
+}
+
+async function hashApiKey(apiKey: string, hashSecret: string): Promise<string> {
+    const digest = await hmacSha256(hashSecret, apiKey);
+    return bufferToBase64(digest.buffer as ArrayBuffer);
+}
+
+async function readStoredInstallRecord(installId: string, env: Env): Promise<StoredInstallRecord | null> {
+    const raw = await env.AGENT_KEYS.get(installKey(installId));
+    if (!raw) {
+        return null;
+    }
+
+    if (raw.startsWith(API_KEY_PREFIX)) {
+        return { keys: [{ apiKey: raw }] };
+    }
+
     try {
-        return JSON.parse(raw) as AgentKeyRecord;
+        return JSON.parse(raw) as StoredInstallRecord;
     } catch {
         return null;
     }
 }
 
-/** Revoke an API key and remove the reverse mapping. */
-export async function revokeApiKey(apiKey: string, env: Env): Promise<string | null> {
-    const record = await validateApiKey(apiKey, env);
-    if (!record) {
+async function writeInstallRecord(installId: string, record: AgentInstallRecord, env: Env): Promise<void> {
+    await env.AGENT_KEYS.put(installKey(installId), JSON.stringify(record));
+}
+
+function toInstallRecord(stored: StoredInstallRecord): AgentInstallRecord {
+    return {
+        wrappedDek: stored.wrappedDek ?? "",
+        kekVersion: stored.kekVersion,
+        keys: stored.keys.flatMap((entry) => (entry.keyId && entry.lookupId ? [{ keyId: entry.keyId, lookupId: entry.lookupId }] : [])),
+        retentionDays: stored.retentionDays
+    };
+}
+
+/**
+ * Move a record stored under its plaintext API key to hashed storage and
+ * point the install index at it. Returns the migrated record, or null if no
+ * plaintext record exists for this key.
+ */
+async function migratePlaintextKey(apiKey: string, hashSecret: string, env: Env): Promise<AgentKeyRecord | null> {
+    const raw = await env.AGENT_KEYS.get(apiKey);
+    if (!raw) {
+        return null;
+    }
+
+    let legacy: AgentKeyRecord;
+    try {
+        legacy = JSON.parse(raw) as AgentKeyRecord;
+    } catch {
         return null;
     }
 
+    const keyId = legacy.keyId ?? crypto.randomUUID();
+    const lookupId = lookupIdFor(apiKey);
+    const record: AgentKeyRecord = {
+        ...legacy,
+        keyId,
+        lookupId,
+        keyHash: await hashApiKey(apiKey, hashSecret),
+        label: legacy.label ?? DEFAULT_AGENT_KEY_LABEL,
+        lastUsedAt: legacy.lastUsedAt ?? null
+    };
+    await env.AGENT_KEYS.put(recordKey(lookupId), JSON.stringify(record));
+
+    const stored = await readStoredInstallRecord(record.installId, env);
+    const otherKeys = (stored?.keys ?? []).filter((entry) => entry.apiKey !== apiKey && entry.keyId !== keyId);
+    const migratedIndex: StoredInstallRecord = {
+        wrappedDek: stored?.wrappedDek ?? record.wrappedDek,
+        kekVersion: stored?.wrappedDek ? stored.kekVersion : record.kekVersion,
+        keys: [...otherKeys, { keyId, lookupId }],
+        retentionDays: stored?.retentionDays
+    };
+    await env.AGENT_KEYS.put(installKey(record.installId), JSON.stringify(migratedIndex));
+
     await env.AGENT_KEYS.delete(apiKey);
-    await env.AGENT_KEYS.delete(`install:${record.installId}`);
 
-    return record.installId;
+    return record;
 }
 
-/** Find the API key for a given installId (reverse lookup). */
-export async function findApiKeyByInstallId(installId: string, env: Env): Promise<string | null> {
-    return env.AGENT_KEYS.get(`install:${installId}`);
+function toSummary(keyId: string, lookupId: string, record: AgentKeyRecord): AgentKeySummary {
+    return {
+        keyId,
+        label: record.label ?? DEFAULT_AGENT_KEY_LABEL,
+        keyPrefix: `${API_KEY_PREFIX}${lookupId}`,
+        scopes: grantedScopes(record),
+        createdAt: record.createdAt,
+        lastUsedAt: record.lastUsedAt ?? null
+    };
 }
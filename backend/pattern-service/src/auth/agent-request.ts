@@ -0,0 +1,51 @@
+import type { Env, ServiceConfig } from "../config";
+import type { AgentScope } from "../schema/agent";
+import { errorResponse } from "../util/http";
+import { hasScope, recordApiKeyUse, validateApiKey, type AgentKeyRecord } from "./agent-auth";
+
+/** A request's bearer API key, checked once: the key and its record, or the 401 to answer with. */
+export type VerifiedApiKey = { apiKey: string; record: AgentKeyRecord } | { error: Response };
+
+/** Extract the API key from the Authorization header and validate it. */
+export async function verifyApiKey(request: Request, env: Env, config: ServiceConfig): Promise<VerifiedApiKey> {
+    const bearer = request.headers.get("Authorization");
+    if (!bearer?.startsWith("Bearer ")) {
+        return { error: errorResponse(401, "Missing bearer token") };
+    }
+
+    const apiKey = bearer.replace("Bearer ", "").trim();
+    const record = await validateApiKey(apiKey, config.agentKeyHashSecret, env);
+    if (!record) {
+        return { error: errorResponse(401, "Invalid API key") };
+    }
+
+    return { apiKey, record };
+}
+
+/**
+ * Validate the request's API key (or take `verified`, when the router has
+ * already checked it), then check that it grants `scope` (null: any valid
+ * key will do). Returns the key record, an error Response, or both for a
+ * scope failure, since the caller did authenticate.
+ */
+export async function authenticateAgent(
+    request: Request,
+    env: Env,
+    config: ServiceConfig,
+    scope: AgentScope | null,
+    verified?: VerifiedApiKey
+): Promise<{ record: AgentKeyRecord; error?: Response } | { record?: undefined; error: Response }> {
+    const key = verified ?? await verifyApiKey(request, env, config);
+    if ("error" in key) {
+        return { error: key.error };
+    }
+
+    const { record } = key;
+    await recordApiKeyUse(record, env);
+
+    if (scope && !hasScope(record, scope)) {
+        return { error: errorResponse(403, "API key lacks required scope", { requiredScope: scope }), record };
+    }
+
+    return { record };
+}
@@ -1,4 +1,4 @@
-import { issueSignedToken, verifySignedToken } from "./jwt";
+import { issueSignedToken, verifySignedToken, type SigningKeys } from "./jwt";
 
 const CHALLENGE_TTL_SECONDS = 5 * 60;
 
@@ -6,10 +6,11 @@ interface ChallengePayload {
   installId: string;
   publicKey: string;
   nonce: string;
+  expiresAtEpoch: number;
 }
 
-export async function createChallengeToken(secret: string, installId: string, publicKey: string): Promise<{ token: string; expiresAtEpoch: number }> {
-  return issueSignedToken(secret, {
+export async function createChallengeToken(keys: SigningKeys, installId: string, publicKey: string): Promise<{ token: string; expiresAtEpoch: number }> {
+  return issueSignedToken(keys, {
     subject: installId,
     type: "challenge",
     ttlSeconds: CHALLENGE_TTL_SECONDS,
@@ -20,8 +21,8 @@ export async function createChallengeToken(secret: string, installId: string, pu
   });
 }
 
-export async function verifyChallengeToken(secret: string, token: string): Promise<ChallengePayload> {
-  const claims = await verifySignedToken(secret, token);
+export async function verifyChallengeToken(keys: SigningKeys, token: string): Promise<ChallengePayload> {
+  const claims = await verifySignedToken(keys, token);
 
   if (claims.typ !== "challenge") {
     throw new Error("Unexpected token type");
@@ -34,6 +35,7 @@ export async function verifyChallengeToken(secret: string, token: string): Promi
   return {
     installId: claims.sub,
     publicKey: claims.publicKey,
-    nonce: claims.nonce
+    nonce: claims.nonce,
+    expiresAtEpoch: claims.exp
   };
 }
@@ -0,0 +1,28 @@
+import type { ServiceConfig } from "../config";
+import { errorResponse } from "../util/http";
+import { verifySignedToken } from "./jwt";
+
+/**
+ * Extract and verify the install's JWT access token from the Authorization header.
+ * Returns the install id (token subject) or an error Response.
+ */
+export async function authenticateInstall(
+  request: Request,
+  config: ServiceConfig
+): Promise<{ installId: string } | { error: Response }> {
+  const bearer = request.headers.get("Authorization");
+  if (!bearer?.startsWith("Bearer ")) {
+    return { error: errorResponse(401, "Missing bearer token") };
+  }
+
+  const token = bearer.replace("Bearer ", "").trim();
+  try {
+    const claims = await verifySignedToken(config.jwtKeys, token);
+    if (claims.typ !== "access") {
+      return { error: errorResponse(401, "Invalid token type") };
+    }
+    return { installId: claims.sub };
+  } catch (error) {
+    return { error: errorResponse(401, "Invalid token", String(error)) };
+  }
+}
@@ -0,0 +1,83 @@
+import type { Env } from "../config";
+import type { KeyRotationRequest } from "../schema/auth";
+import { verifyEd25519Signature } from "./signature";
+
+const MAX_KEY_HISTORY = 20;
+
+/** A public key the install used before rotating to a newer one. */
+export interface InstallKeyHistoryEntry {
+  publicKey: string;
+  retiredAt: string;
+}
+
+/**
+ * Bind a public key to an install. The first key wins: an install that already
+ * has a different key is never overwritten here — that needs `rotateInstallKey`.
+ * Returns false if the install is bound to another key.
+ */
+export async function bindInstallKey(installId: string, publicKey: string, env: Env): Promise<boolean> {
+  const existing = await env.INSTALL_KEYS.get(installId);
+  if (existing) {
+    return existing === publicKey;
+  }
+
+  await env.INSTALL_KEYS.put(installId, publicKey);
+  return true;
+}
+
+/** The message both keys sign to authorize a rotation. */
+export function keyRotationMessage(challengeToken: string, newPublicKey: string): string {
+  return ["sleeplab-key-rotation", challengeToken, newPublicKey].join("\n");
+}
+
+/**
+ * Replace the install's public key. The rotation must be signed by the current
+ * key (proving ownership) and by the new key (proving possession), both over
+ * `keyRotationMessage`. The retired key is appended to the install's key history.
+ */
+export async function rotateInstallKey(rotation: KeyRotationRequest, env: Env): Promise<void> {
+  const { installId, currentPublicKey, newPublicKey, challengeToken } = rotation;
+
+  const storedKey = await env.INSTALL_KEYS.get(installId);
+  if (!storedKey || storedKey !== currentPublicKey) {
+    throw new Error("Unrecognized install key");
+  }
+
+  if (newPublicKey === currentPublicKey) {
+    throw new Error("New key must differ from the current key");
+  }
+
+  const message = keyRotationMessage(challengeToken, newPublicKey);
+
+  if (!(await verifyEd25519Signature(currentPublicKey, message, rotation.signature))) {
+    throw new Error("Invalid signature from current key");
+  }
+
+  if (!(await verifyEd25519Signature(newPublicKey, message, rotation.newKeySignature))) {
+    throw new Error("Invalid signature from new key");
+  }
+
+  const history = await readInstallKeyHistory(installId, env);
+  history.push({ publicKey: currentPublicKey, retiredAt: new Date().toISOString() });
+
+  await env.INSTALL_KEYS.put(historyKey(installId), JSON.stringify(history.slice(-MAX_KEY_HISTORY)));
+  await env.INSTALL_KEYS.put(installId, newPublicKey);
+}
+
+/** Keys the install rotated away from, oldest first. */
+export async function readInstallKeyHistory(installId: string, env: Env): Promise<InstallKeyHistoryEntry[]> {
+  const raw = await env.INSTALL_KEYS.get(historyKey(installId));
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(raw) as InstallKeyHistoryEntry[];
+  } catch {
+    return [];
+  }
+}
+
+function historyKey(installId: string): string {
+  return `keyhistory:${installId}`;
+}
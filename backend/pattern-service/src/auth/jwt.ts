@@ -1,11 +1,32 @@
+import { constantTimeEqual, hmacSha256 } from "../crypto";
+
 export interface TokenClaims {
   sub: string;
-  typ: "challenge" | "access";
+  typ: "challenge" | "access" | "refresh";
   iat: number;
   exp: number;
   [key: string]: unknown;
 }
 
+/** Kid given to a bare secret, and to tokens issued before headers carried a kid. */
+export const DEFAULT_KEY_ID = "default";
+
+export interface SigningKey {
+  kid: string;
+  secret: string;
+  /** Retired keys no longer sign or verify; keep them listed only until removal. */
+  retired?: boolean;
+}
+
+/** Versioned HMAC secrets. New tokens are signed with `currentKid`; any non-retired key verifies. */
+export interface SigningKeyring {
+  currentKid: string;
+  keys: SigningKey[];
+}
+
+/** A keyring, or a bare secret treated as a one-key keyring. */
+export type SigningKeys = SigningKeyring | string;
+
 interface IssueTokenOptions {
   subject: string;
   type: TokenClaims["typ"];
@@ -13,13 +34,15 @@ interface IssueTokenOptions {
   additionalClaims?: Record<string, unknown>;
 }
 
-export async function issueSignedToken(secret: string, options: IssueTokenOptions): Promise<{ token: string; expiresAtEpoch: number }> {
+export async function issueSignedToken(keys: SigningKeys, options: IssueTokenOptions): Promise<{ token: string; expiresAtEpoch: number }> {
   const now = Math.floor(Date.now() / 1000);
   const exp = now + options.ttlSeconds;
+  const signingKey = currentSigningKey(toKeyring(keys));
 
   const header = {
     alg: "HS256",
-    typ: "JWT"
+    typ: "JWT",
+    kid: signingKey.kid
   };
 
   const payload: TokenClaims = {
@@ -33,7 +56,7 @@ export async function issueSignedToken(secret: string, options: IssueTokenOption
   const encodedHeader = base64urlEncode(JSON.stringify(header));
   const encodedPayload = base64urlEncode(JSON.stringify(payload));
   const signingInput = `${encodedHeader}.${encodedPayload}`;
-  const signature = await signHMAC(secret, signingInput);
+  const signature = await hmacSha256(signingKey.secret, signingInput);
 
   return {
     token: `${signingInput}.${base64urlEncodeBytes(signature)}`,
@@ -41,7 +64,12 @@ export async function issueSignedToken(secret: string, options: IssueTokenOption
   };
 }
 
-export async function verifySignedToken(secret: string, token: string): Promise<TokenClaims> {
+/**
+ * Verify a token against the keyring. Tokens with a `kid` header are checked
+ * against that key only; tokens without one (issued before key ids existed)
+ * against every non-retired key.
+ */
+export async function verifySignedToken(keys: SigningKeys, token: string): Promise<TokenClaims> {
   const parts = token.split(".");
   if (parts.length !== 3) {
     throw new Error("Malformed token");
@@ -50,10 +78,36 @@ export async function verifySignedToken(secret: string, token: string): Promise<
   const [encodedHeader, encodedPayload, encodedSignature] = parts;
   const signingInput = `${encodedHeader}.${encodedPayload}`;
 
-  const expectedSignature = await signHMAC(secret, signingInput);
+  let header: { alg?: unknown; kid?: unknown };
+  try {
+    header = JSON.parse(base64urlDecodeToString(encodedHeader));
+  } catch {
+    throw new Error("Malformed token");
+  }
+
+  if (header.alg !== "HS256") {
+    throw new Error("Unsupported token algorithm");
+  }
+
+  const activeKeys = toKeyring(keys).keys.filter((key) => !key.retired);
+  const candidates = typeof header.kid === "string"
+    ? activeKeys.filter((key) => key.kid === header.kid)
+    : activeKeys;
+
+  if (candidates.length === 0) {
+    throw new Error("Unknown or retired signing key");
+  }
+
   const incomingSignature = base64urlDecodeToBytes(encodedSignature);
+  let signatureValid = false;
+  for (const key of candidates) {
+    const expectedSignature = await hmacSha256(key.secret, signingInput);
+    if (constantTimeEqual(expectedSignature, incomingSignature)) {
+      signatureValid = true;
+    }
+  }
 
-  if (!constantTimeEqual(expectedSignature, incomingSignature)) {
+  if (!signatureValid) {
     throw new Error("Invalid token signature");
   }
 
@@ -64,7 +118,7 @@ export async function verifySignedToken(secret: string, token: string): Promise<
     throw new Error("Token expired");
   }
 
-  if (payload.typ !== "challenge" && payload.typ !== "access") {
+  if (payload.typ !== "challenge" && payload.typ !== "access" && payload.typ !== "refresh") {
     throw new Error("Invalid token type");
   }
 
@@ -75,30 +129,19 @@ export function epochToIso(epochSeconds: number): string {
   return new Date(epochSeconds * 1000).toISOString();
 }
 
-async function signHMAC(secret: string, message: string): Promise<Uint8Array> {
-  const key = await crypto.subtle.importKey(
-    "raw",
-    new TextEncoder().encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-
-  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
-  return new Uint8Array(signature);
-}
-
-function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
-  if (a.length !== b.length) {
-    return false;
+function toKeyring(keys: SigningKeys): SigningKeyring {
+  if (typeof keys === "string") {
+    return { currentKid: DEFAULT_KEY_ID, keys: [{ kid: DEFAULT_KEY_ID, secret: keys }] };
   }
+  return keys;
+}
 
-  let result = 0;
-  for (let index = 0; index < a.length; index += 1) {
-    result |= a[index] ^ b[index];
+function currentSigningKey(keyring: SigningKeyring): SigningKey {
+  const key = keyring.keys.find((candidate) => candidate.kid === keyring.currentKid);
+  if (!key || key.retired) {
+    throw new Error(`Current signing key "${keyring.currentKid}" is missing or retired`);
   }
-
-  return result === 0;
+  return key;
 }
 
 function base64urlEncode(value: string): string {
@@ -0,0 +1,32 @@
+/**
+ * Records challenge nonces that have been spent, so a captured challenge token
+ * and signature cannot be exchanged twice.
+ */
+export interface NonceStore {
+  /**
+   * Mark the nonce as used until `expiresAtEpoch`.
+   * Resolves true for the first caller only; every later (or concurrent) call
+   * with the same nonce resolves false.
+   */
+  consume(nonce: string, expiresAtEpoch: number): Promise<boolean>;
+}
+
+/**
+ * D1-backed store. The primary key on `consumed_nonces.nonce` makes the insert
+ * the atomic step: of two concurrent exchanges only one insert changes a row.
+ */
+export function createD1NonceStore(db: D1Database): NonceStore {
+  return {
+    async consume(nonce: string, expiresAtEpoch: number): Promise<boolean> {
+      const now = Math.floor(Date.now() / 1000);
+
+      const [, insert] = await db.batch([
+        db.prepare("DELETE FROM consumed_nonces WHERE expires_at < ?").bind(now),
+        db.prepare("INSERT INTO consumed_nonces (nonce, expires_at) VALUES (?, ?) ON CONFLICT(nonce) DO NOTHING")
+          .bind(nonce, expiresAtEpoch)
+      ]);
+
+      return (insert.meta.changes ?? 0) === 1;
+    }
+  };
+}
@@ -0,0 +1,150 @@
+import type { Env } from "../config";
+import { issueSignedToken, verifySignedToken, type SigningKeys } from "./jwt";
+
+export const REFRESH_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * One login session. Every refresh rotates `currentJti`; presenting any other
+ * token of the family means an old token was replayed, so the family dies.
+ * Stored in INSTALL_KEYS at `refresh:<familyId>`, expiring with its newest token.
+ */
+interface RefreshFamily {
+  installId: string;
+  currentJti: string;
+  createdAt: string;
+  rotatedAt: string;
+}
+
+interface RefreshClaims {
+  installId: string;
+  familyId: string;
+  jti: string;
+}
+
+/** Start a new token family for the install and return its first refresh token. */
+export async function issueRefreshToken(
+  keys: SigningKeys,
+  installId: string,
+  env: Env
+): Promise<{ token: string; expiresAtEpoch: number }> {
+  const now = new Date().toISOString();
+  return writeFamilyToken(keys, crypto.randomUUID(), { installId, createdAt: now }, env);
+}
+
+/**
+ * Exchange a refresh token for its successor in the same family.
+ * Throws if the token is invalid, its family was revoked, or it was already rotated
+ * (in which case the whole family is revoked).
+ */
+export async function rotateRefreshToken(
+  keys: SigningKeys,
+  token: string,
+  env: Env
+): Promise<{ installId: string; token: string; expiresAtEpoch: number }> {
+  const claims = await verifyRefreshToken(keys, token);
+  const family = await readFamily(claims.familyId, env);
+
+  if (!family || family.installId !== claims.installId) {
+    throw new Error("Refresh token revoked");
+  }
+
+  if (family.currentJti !== claims.jti) {
+    await env.INSTALL_KEYS.delete(familyKey(claims.familyId));
+    throw new Error("Refresh token reuse detected; session revoked");
+  }
+
+  const revokedAt = await env.INSTALL_KEYS.get(revokedBeforeKey(family.installId));
+  if (revokedAt && family.createdAt <= revokedAt) {
+    await env.INSTALL_KEYS.delete(familyKey(claims.familyId));
+    throw new Error("Refresh token revoked");
+  }
+
+  const next = await writeFamilyToken(keys, claims.familyId, family, env);
+  return { installId: family.installId, ...next };
+}
+
+/** Revoke the family the refresh token belongs to. Returns the install id. */
+export async function revokeRefreshToken(keys: SigningKeys, token: string, env: Env): Promise<string> {
+  const claims = await verifyRefreshToken(keys, token);
+  await env.INSTALL_KEYS.delete(familyKey(claims.familyId));
+  return claims.installId;
+}
+
+/**
+ * Revoke every family the install has started so far, e.g. once its key was
+ * rotated. Families are not indexed by install, so this stores a cutoff that
+ * rotateRefreshToken checks; it expires with the last family it can cover.
+ */
+export async function revokeInstallRefreshTokens(installId: string, env: Env): Promise<void> {
+  await env.INSTALL_KEYS.put(revokedBeforeKey(installId), new Date().toISOString(), {
+    expirationTtl: REFRESH_TTL_SECONDS
+  });
+}
+
+async function verifyRefreshToken(keys: SigningKeys, token: string): Promise<RefreshClaims> {
+  const claims = await verifySignedToken(keys, token);
+
+  if (claims.typ !== "refresh") {
+    throw new Error("Unexpected token type");
+  }
+
+  if (typeof claims.fam !== "string" || typeof claims.jti !== "string") {
+    throw new Error("Malformed refresh token claims");
+  }
+
+  return {
+    installId: claims.sub,
+    familyId: claims.fam,
+    jti: claims.jti
+  };
+}
+
+async function writeFamilyToken(
+  keys: SigningKeys,
+  familyId: string,
+  family: Pick<RefreshFamily, "installId" | "createdAt">,
+  env: Env
+): Promise<{ token: string; expiresAtEpoch: number }> {
+  const jti = crypto.randomUUID();
+  const record: RefreshFamily = {
+    installId: family.installId,
+    currentJti: jti,
+    createdAt: family.createdAt,
+    rotatedAt: new Date().toISOString()
+  };
+
+  await env.INSTALL_KEYS.put(familyKey(familyId), JSON.stringify(record), {
+    expirationTtl: REFRESH_TTL_SECONDS
+  });
+
+  return issueSignedToken(keys, {
+    subject: family.installId,
+    type: "refresh",
+    ttlSeconds: REFRESH_TTL_SECONDS,
+    additionalClaims: {
+      fam: familyId,
+      jti
+    }
+  });
+}
+
+async function readFamily(familyId: string, env: Env): Promise<RefreshFamily | null> {
+  const raw = await env.INSTALL_KEYS.get(familyKey(familyId));
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as RefreshFamily;
+  } catch {
+    return null;
+  }
+}
+
+function familyKey(familyId: string): string {
+  return `refresh:${familyId}`;
+}
+
+function revokedBeforeKey(installId: string): string {
+  return `refreshrevoked:${installId}`;
+}
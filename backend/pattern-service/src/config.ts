@@ -1,31 +1,92 @@
+import { z } from "zod";
+import { DEFAULT_KEY_ID, type SigningKeyring } from "./auth/jwt";
+import { LEGACY_KEK_VERSION, type KekRing } from "./crypto";
+import { DEFAULT_RATE_LIMITS, ROUTE_CLASSES, type RateLimitPolicies } from "./services/rate-limit";
+
 export interface Env {
   INSTALL_KEYS: KVNamespace;
   AGENT_KEYS: KVNamespace;
   SLEEP_DATA: D1Database;
   GEMINI_API_KEY: string;
-  JWT_SIGNING_SECRET: string;
-  CHALLENGE_SIGNING_SECRET: string;
-  ENCRYPTION_KEK: string;
+  /** Single signing secret; ignored when JWT_SIGNING_KEYS is set. */
+  JWT_SIGNING_SECRET?: string;
+  /** Keyring JSON, see `readKeyring`. */
+  JWT_SIGNING_KEYS?: string;
+  /** Single signing secret; ignored when CHALLENGE_SIGNING_KEYS is set. */
+  CHALLENGE_SIGNING_SECRET?: string;
+  /** Keyring JSON, see `readKeyring`. */
+  CHALLENGE_SIGNING_KEYS?: string;
+  /** Single KEK (version 1); ignored when ENCRYPTION_KEKS is set. */
+  ENCRYPTION_KEK?: string;
+  /** Versioned KEKs JSON, see `readKekRing`. */
+  ENCRYPTION_KEKS?: string;
+  AGENT_KEY_HASH_SECRET: string;
   GEMINI_MODEL?: string;
+  /** Per-route-class overrides of DEFAULT_RATE_LIMITS, see `readRateLimits`. */
+  RATE_LIMITS?: string;
+  /** Upper bound on the retention an install may choose; defaults to DEFAULT_MAX_RETENTION_DAYS. */
+  MAX_RETENTION_DAYS?: string;
+  /** Stale sleep payloads re-encrypted per cron run; unset leaves old rows to be upgraded on read. */
+  PAYLOAD_UPGRADES_PER_RUN?: string;
+  /** Standard deviations from a night's rolling baseline at which a metric is flagged; defaults to DEFAULT_ANOMALY_Z_THRESHOLD. */
+  ANOMALY_Z_THRESHOLD?: string;
 }
 
 export interface ServiceConfig {
   geminiApiKey: string;
   geminiModel: string;
-  jwtSigningSecret: string;
-  challengeSigningSecret: string;
-  encryptionKek: string;
+  jwtKeys: SigningKeyring;
+  challengeKeys: SigningKeyring;
+  encryptionKeks: KekRing;
+  agentKeyHashSecret: string;
+  rateLimits: RateLimitPolicies;
+  maxRetentionDays: number;
+  /** Null when the background payload upgrade is off. */
+  payloadUpgradesPerRun: number | null;
+  anomalyZThreshold: number;
 }
 
 const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+const DEFAULT_MAX_RETENTION_DAYS = 365;
+const DEFAULT_ANOMALY_Z_THRESHOLD = 2;
+
+const keyringSchema = z.object({
+  current: z.string().min(1),
+  keys: z.array(z.object({
+    kid: z.string().min(1),
+    secret: z.string().min(1),
+    retired: z.boolean().optional()
+  })).min(1)
+});
+
+const kekRingSchema = z.object({
+  current: z.number().int().positive(),
+  keys: z.record(z.string().regex(/^\d+$/), z.string().regex(/^[0-9a-fA-F]{64}$/))
+});
+
+const rateLimitPolicySchema = z.object({
+  capacity: z.number().int().positive(),
+  refillPerMinute: z.number().positive()
+});
+
+const rateLimitsSchema = z.object(
+  Object.fromEntries(ROUTE_CLASSES.map((routeClass) => [routeClass, rateLimitPolicySchema.optional()]))
+).strict();
 
 export function readConfig(env: Env): ServiceConfig {
   return {
     geminiApiKey: required(env.GEMINI_API_KEY, "GEMINI_API_KEY"),
     geminiModel: env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
-    jwtSigningSecret: required(env.JWT_SIGNING_SECRET, "JWT_SIGNING_SECRET"),
-    challengeSigningSecret: required(env.CHALLENGE_SIGNING_SECRET, "CHALLENGE_SIGNING_SECRET"),
-    encryptionKek: required(env.ENCRYPTION_KEK, "ENCRYPTION_KEK")
+    jwtKeys: readKeyring(env.JWT_SIGNING_KEYS, env.JWT_SIGNING_SECRET, "JWT_SIGNING"),
+    challengeKeys: readKeyring(env.CHALLENGE_SIGNING_KEYS, env.CHALLENGE_SIGNING_SECRET, "CHALLENGE_SIGNING"),
+    encryptionKeks: readKekRing(env.ENCRYPTION_KEKS, env.ENCRYPTION_KEK),
+    agentKeyHashSecret: required(env.AGENT_KEY_HASH_SECRET, "AGENT_KEY_HASH_SECRET"),
+    rateLimits: readRateLimits(env.RATE_LIMITS),
+    maxRetentionDays: readPositiveInt(env.MAX_RETENTION_DAYS, DEFAULT_MAX_RETENTION_DAYS, "MAX_RETENTION_DAYS"),
+    payloadUpgradesPerRun: env.PAYLOAD_UPGRADES_PER_RUN?.trim()
+      ? readPositiveInt(env.PAYLOAD_UPGRADES_PER_RUN, 0, "PAYLOAD_UPGRADES_PER_RUN")
+      : null,
+    anomalyZThreshold: readPositiveNumber(env.ANOMALY_Z_THRESHOLD, DEFAULT_ANOMALY_Z_THRESHOLD, "ANOMALY_Z_THRESHOLD")
   };
 }
 
@@ -35,3 +96,130 @@ function required(value: string | undefined, name: string): string {
   }
   return value;
 }
+
+function readPositiveInt(value: string | undefined, fallback: number, name: string): number {
+  if (!value || !value.trim()) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number, name: string): number {
+  if (!value || !value.trim()) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+/**
+ * Build a signing keyring from `<prefix>_KEYS`, e.g.
+ * `{"current":"2026-10","keys":[{"kid":"2026-10","secret":"…"},{"kid":"default","secret":"…"}]}`,
+ * falling back to `<prefix>_SECRET` as the single key with kid "default".
+ */
+function readKeyring(rawKeys: string | undefined, fallbackSecret: string | undefined, prefix: string): SigningKeyring {
+  if (!rawKeys || !rawKeys.trim()) {
+    const secret = required(fallbackSecret, `${prefix}_SECRET`);
+    return { currentKid: DEFAULT_KEY_ID, keys: [{ kid: DEFAULT_KEY_ID, secret }] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(rawKeys);
+  } catch {
+    throw new Error(`${prefix}_KEYS is not valid JSON`);
+  }
+
+  const parsed = keyringSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`${prefix}_KEYS is malformed: ${parsed.error.message}`);
+  }
+
+  const { current, keys } = parsed.data;
+  const kids = new Set(keys.map((key) => key.kid));
+  if (kids.size !== keys.length) {
+    throw new Error(`${prefix}_KEYS has duplicate kids`);
+  }
+
+  const currentKey = keys.find((key) => key.kid === current);
+  if (!currentKey || currentKey.retired) {
+    throw new Error(`${prefix}_KEYS current kid "${current}" is missing or retired`);
+  }
+
+  return { currentKid: current, keys };
+}
+
+/**
+ * Build the KEK ring from `ENCRYPTION_KEKS`, e.g. `{"current":2,"keys":{"1":"<hex>","2":"<hex>"}}`,
+ * falling back to `ENCRYPTION_KEK` as version 1. Keep old versions listed until
+ * the re-wrap job reports nothing left to migrate.
+ */
+function readKekRing(rawKeks: string | undefined, fallbackKek: string | undefined): KekRing {
+  if (!rawKeks || !rawKeks.trim()) {
+    const kek = required(fallbackKek, "ENCRYPTION_KEK");
+    return { currentVersion: LEGACY_KEK_VERSION, keks: { [LEGACY_KEK_VERSION]: kek } };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(rawKeks);
+  } catch {
+    throw new Error("ENCRYPTION_KEKS is not valid JSON");
+  }
+
+  const parsed = kekRingSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`ENCRYPTION_KEKS is malformed: ${parsed.error.message}`);
+  }
+
+  const keks: Record<number, string> = {};
+  for (const [version, kek] of Object.entries(parsed.data.keys)) {
+    keks[Number(version)] = kek;
+  }
+
+  if (!keks[parsed.data.current]) {
+    throw new Error(`ENCRYPTION_KEKS current version ${parsed.data.current} is missing`);
+  }
+
+  return { currentVersion: parsed.data.current, keks };
+}
+
+/**
+ * Merge `RATE_LIMITS` over the defaults, e.g.
+ * `{"analyze":{"capacity":3,"refillPerMinute":0.1}}`. Unlisted classes keep their default.
+ */
+function readRateLimits(raw: string | undefined): RateLimitPolicies {
+  if (!raw || !raw.trim()) {
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("RATE_LIMITS is not valid JSON");
+  }
+
+  const parsed = rateLimitsSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`RATE_LIMITS is malformed: ${parsed.error.message}`);
+  }
+
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  for (const routeClass of ROUTE_CLASSES) {
+    const override = parsed.data[routeClass];
+    if (override) {
+      limits[routeClass] = override;
+    }
+  }
+  return limits;
+}
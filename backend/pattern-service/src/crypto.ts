@@ -5,12 +5,31 @@
  *   KEK (Worker secret) → wraps per-user DEKs
  *   DEK (per install)   → encrypts/decrypts sleep data in D1
  *
+ * KEKs are versioned so they can be rotated: every wrapped DEK records the
+ * version that wrapped it, and re-wrapping moves it to the current version
+ * without touching the data it encrypts.
+ *
  * All functions use the Web Crypto API (native in Cloudflare Workers).
  */
 
 const AES_GCM_IV_BYTES = 12;
 const AES_KEY_BITS = 256;
 
+/** Version assumed for DEKs wrapped before KEKs were versioned (the original ENCRYPTION_KEK). */
+export const LEGACY_KEK_VERSION = 1;
+
+/** Versioned KEKs as hex strings. The current version wraps new DEKs; every listed version can unwrap. */
+export interface KekRing {
+    currentVersion: number;
+    keks: Record<number, string>;
+}
+
+/** A DEK wrapped under a KEK. `kekVersion` is absent on records wrapped before versioning. */
+export interface WrappedDEK {
+    wrappedDek: string;
+    kekVersion?: number;
+}
+
 // ── DEK lifecycle ──────────────────────────────────────────────
 
 /** Generate a random 256-bit Data Encryption Key and return raw bytes. */
@@ -46,6 +65,44 @@ export async function unwrapDEK(wrappedBase64: string, kekHex: string): Promise<
     );
 }
 
+/** Wrap a DEK with the ring's current KEK, recording the version used. */
+export async function wrapDEKWithRing(dekRaw: ArrayBuffer, ring: KekRing): Promise<Required<WrappedDEK>> {
+    return {
+        wrappedDek: await wrapDEK(dekRaw, kekForVersion(ring, ring.currentVersion)),
+        kekVersion: ring.currentVersion
+    };
+}
+
+/** Unwrap a DEK with whichever KEK version wrapped it. */
+export async function unwrapVersionedDEK(wrapped: WrappedDEK, ring: KekRing): Promise<CryptoKey> {
+    const version = wrapped.kekVersion ?? LEGACY_KEK_VERSION;
+    return unwrapDEK(wrapped.wrappedDek, kekForVersion(ring, version));
+}
+
+/** Whether the DEK is wrapped under an older KEK than the ring's current one. */
+export function needsRewrap(wrapped: WrappedDEK, ring: KekRing): boolean {
+    return (wrapped.kekVersion ?? LEGACY_KEK_VERSION) !== ring.currentVersion;
+}
+
+/**
+ * Re-wrap a DEK under the ring's current KEK. The DEK itself is unchanged,
+ * so data it encrypted stays readable.
+ */
+export async function rewrapDEK(wrapped: WrappedDEK, ring: KekRing): Promise<Required<WrappedDEK>> {
+    const fromKek = await importKEK(kekForVersion(ring, wrapped.kekVersion ?? LEGACY_KEK_VERSION));
+    const dekKey = await crypto.subtle.unwrapKey(
+        "raw",
+        base64ToBuffer(wrapped.wrappedDek),
+        fromKek,
+        "AES-KW",
+        "AES-GCM",
+        true,
+        ["encrypt", "decrypt"]
+    );
+    const dekRaw = await crypto.subtle.exportKey("raw", dekKey) as ArrayBuffer;
+    return wrapDEKWithRing(dekRaw, ring);
+}
+
 // ── Data encryption ────────────────────────────────────────────
 
 export interface EncryptedBlob {
@@ -56,13 +113,22 @@ export interface EncryptedBlob {
 
 /** Encrypt a plaintext string with AES-256-GCM. Returns base64-encoded pieces. */
 export async function encrypt(plaintext: string, dek: CryptoKey): Promise<EncryptedBlob> {
+    return encryptBytes(new TextEncoder().encode(plaintext), dek);
+}
+
+/** Decrypt an AES-256-GCM encrypted blob back to plaintext. */
+export async function decrypt(blob: EncryptedBlob, dek: CryptoKey): Promise<string> {
+    return new TextDecoder().decode(await decryptBytes(blob, dek));
+}
+
+/** Encrypt raw bytes (e.g. compressed data) with AES-256-GCM. */
+export async function encryptBytes(plaintext: Uint8Array<ArrayBuffer>, dek: CryptoKey): Promise<EncryptedBlob> {
     const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_BYTES));
-    const encoded = new TextEncoder().encode(plaintext);
 
     const ciphertextWithTag = await crypto.subtle.encrypt(
         { name: "AES-GCM", iv, tagLength: 128 },
         dek,
-        encoded
+        plaintext
     );
 
     // AES-GCM appends the 16-byte auth tag to the ciphertext
@@ -77,8 +143,8 @@ export async function encrypt(plaintext: string, dek: CryptoKey): Promise<Encryp
     };
 }
 
-/** Decrypt an AES-256-GCM encrypted blob back to plaintext. */
-export async function decrypt(blob: EncryptedBlob, dek: CryptoKey): Promise<string> {
+/** Decrypt an AES-256-GCM encrypted blob back to raw bytes. */
+export async function decryptBytes(blob: EncryptedBlob, dek: CryptoKey): Promise<Uint8Array<ArrayBuffer>> {
     const iv = base64ToBuffer(blob.iv);
     const ciphertextBytes = base64ToBuffer(blob.ciphertext);
     const tagBytes = base64ToBuffer(blob.tag);
@@ -94,11 +160,82 @@ export async function decrypt(blob: EncryptedBlob, dek: CryptoKey): Promise<stri
         combined
     );
 
-    return new TextDecoder().decode(decrypted);
+    return new Uint8Array(decrypted);
+}
+
+// ── Keyed hashing ──────────────────────────────────────────────
+
+/** Lowercase hex SHA-256 of `message`. */
+export async function sha256Hex(message: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message));
+    return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** HMAC-SHA256 of `message` keyed with `secret`. */
+export async function hmacSha256(secret: string, message: string): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    );
+
+    const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+    return new Uint8Array(signature);
+}
+
+/** Compare two byte arrays in time independent of where they differ. */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+
+    let result = 0;
+    for (let index = 0; index < a.length; index += 1) {
+        result |= a[index] ^ b[index];
+    }
+
+    return result === 0;
+}
+
+// ── Blind indexes ──────────────────────────────────────────────
+
+const BLIND_INDEX_LABEL = "sleeplab:blind-index:v1";
+
+/**
+ * HMAC key for blind indexes, derived from the DEK so only the install's
+ * key holders can compute index values. AES-GCM under a fixed all-zero IV is
+ * deterministic; it is only ever applied to this one label, so the IV is
+ * never reused for data.
+ */
+export async function deriveBlindIndexKey(dek: CryptoKey): Promise<CryptoKey> {
+    const material = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv: new Uint8Array(AES_GCM_IV_BYTES) },
+        dek,
+        new TextEncoder().encode(BLIND_INDEX_LABEL)
+    );
+    const keyBytes = await crypto.subtle.digest("SHA-256", material);
+
+    return crypto.subtle.importKey("raw", keyBytes, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+}
+
+/** Hex HMAC of `value` under a key from `deriveBlindIndexKey`. Equal values give equal indexes. */
+export async function blindIndex(indexKey: CryptoKey, value: string): Promise<string> {
+    const signature = await crypto.subtle.sign("HMAC", indexKey, new TextEncoder().encode(value));
+    return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
 }
 
 // ── Helpers ────────────────────────────────────────────────────
 
+function kekForVersion(ring: KekRing, version: number): string {
+    const kek = ring.keks[version];
+    if (!kek) {
+        throw new Error(`No KEK configured for version ${version}`);
+    }
+    return kek;
+}
+
 async function importKEK(hexSecret: string): Promise<CryptoKey> {
     const raw = hexToBuffer(hexSecret);
     return crypto.subtle.importKey("raw", raw, "AES-KW", false, ["wrapKey", "unwrapKey"]);
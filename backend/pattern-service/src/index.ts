@@ -1,28 +1,49 @@
-import { z } from "zod";
-import { createChallengeToken, verifyChallengeToken } from "./auth/challenge";
-import { epochToIso, issueSignedToken, verifySignedToken } from "./auth/jwt";
-import { verifyEd25519Signature } from "./auth/signature";
-import { readConfig, type Env } from "./config";
+import { lookupIdFor } from "./auth/agent-auth";
+import { verifyApiKey, type VerifiedApiKey } from "./auth/agent-request";
+import { authenticateInstall } from "./auth/install-auth";
+import { createD1NonceStore } from "./auth/nonce-store";
+import { readConfig, type Env, type ServiceConfig } from "./config";
 import { handleAnalyze } from "./routes/analyze";
-import { handleSync } from "./routes/sync";
-import { handleGetSleep, handleGetSleepByDate, handleGetSleepRange, handleGetSleepStats, handleGetEvents } from "./routes/agent-data";
-import { handleAgentRegister, handleAgentRevoke } from "./routes/agent-keys";
+import { handleChallenge, handleExchange, handleLogout, handleRefresh, handleRotateKey } from "./routes/auth";
+import { handleSync, handleSyncManifest } from "./routes/sync";
+import { handleGetRetention, handlePutRetention } from "./routes/retention";
+import { handleExport } from "./routes/export";
+import { handleImport } from "./routes/import";
+import { handleDeleteEvent, handleDeleteSleepDay, handleDeleteSleepRange } from "./routes/deletion";
+import { handleGetScoreWeights, handlePutScoreWeights } from "./routes/profile";
+import {
+  handleCreateExperiment,
+  handleDeleteExperiment,
+  handleGetExperiment,
+  handleGetExperimentResults,
+  handleListExperiments,
+  handleUpdateExperiment
+} from "./routes/experiments";
+import {
+  handleGetAnomalies,
+  handleGetCorrelations,
+  handleGetEvents,
+  handleGetSleep,
+  handleGetSleepByDate,
+  handleGetSleepHistory,
+  handleGetSleepRange,
+  handleGetSleepScore,
+  handleGetSleepSeries,
+  handleGetSleepStats
+} from "./routes/agent-data";
+import { handleAgentRegister, handleAgentRevoke, handleGetAgentAudit, handleListAgentKeys, handleRevokeAgentKey } from "./routes/agent-keys";
 import { handleGetInstructions } from "./routes/agent-instructions";
-import { errorResponse, jsonResponse, optionsResponse, parseJSON } from "./util/http";
-
-const challengeRequestSchema = z.object({
-  installId: z.string().uuid().optional(),
-  publicKey: z.string().min(1)
-});
-
-const exchangeRequestSchema = z.object({
-  installId: z.string().uuid(),
-  publicKey: z.string().min(1),
-  challengeToken: z.string().min(1),
-  signature: z.string().min(1)
-});
-
-const ACCESS_TTL_SECONDS = 15 * 60;
+import { purgeExpiredAuditEntries } from "./services/audit-log";
+import { rewrapStaleDEKs } from "./services/dek-rewrap";
+import { upgradeStaleSleepPayloads } from "./services/payload-upgrade";
+import {
+  createD1RateLimitStore,
+  purgeIdleRateLimitBuckets,
+  withRateLimit,
+  type RateLimitStore,
+  type RouteClass
+} from "./services/rate-limit";
+import { errorResponse, optionsResponse } from "./util/http";
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
@@ -39,164 +60,268 @@ export default {
       return errorResponse(500, "Server misconfiguration", String(error));
     }
 
+    const limiter = createD1RateLimitStore(env.SLEEP_DATA);
+
     // ── Auth routes ────────────────────────────────────────────
 
     if (request.method === "POST" && url.pathname === "/v1/auth/challenge") {
-      return handleChallenge(request, env, config.challengeSigningSecret);
+      return handleChallenge(request, env, config.challengeKeys);
     }
 
     if (request.method === "POST" && url.pathname === "/v1/auth/exchange") {
-      return handleExchange(request, env, config.challengeSigningSecret, config.jwtSigningSecret);
+      return handleExchange(request, env, config.challengeKeys, config.jwtKeys, createD1NonceStore(env.SLEEP_DATA));
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/auth/refresh") {
+      return handleRefresh(request, env, config.jwtKeys);
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/auth/logout") {
+      return handleLogout(request, env, config.jwtKeys);
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/auth/rotate-key") {
+      return handleRotateKey(request, env, config.challengeKeys, createD1NonceStore(env.SLEEP_DATA));
     }
 
     // ── Pattern analysis (existing) ────────────────────────────
 
     if (request.method === "POST" && url.pathname === "/v1/patterns/analyze") {
-      const bearer = request.headers.get("Authorization");
-      if (!bearer?.startsWith("Bearer ")) {
-        return errorResponse(401, "Missing bearer token");
+      const auth = await authenticateInstall(request, config);
+      if ("error" in auth) {
+        return auth.error;
       }
 
-      const token = bearer.replace("Bearer ", "").trim();
-      try {
-        const claims = await verifySignedToken(config.jwtSigningSecret, token);
-        if (claims.typ !== "access") {
-          return errorResponse(401, "Invalid token type");
-        }
-      } catch (error) {
-        return errorResponse(401, "Invalid token", String(error));
-      }
-
-      return handleAnalyze(request, env, config);
+      return limited(limiter, config, "analyze", `install:${auth.installId}`, () => handleAnalyze(request, env, config, auth.installId));
     }
 
     // ── Agent key management (JWT auth) ────────────────────────
 
     if (request.method === "POST" && url.pathname === "/v1/agent/register") {
-      return handleAgentRegister(request, env, config);
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleAgentRegister(request, env, config));
     }
 
     if (request.method === "DELETE" && url.pathname === "/v1/agent/revoke") {
-      return handleAgentRevoke(request, env, config);
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleAgentRevoke(request, env, config));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/agent/keys") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleListAgentKeys(request, env, config));
+    }
+
+    // Match /v1/agent/keys/:keyId
+    const keyMatch = url.pathname.match(/^\/v1\/agent\/keys\/([A-Za-z0-9-]+)$/);
+    if (request.method === "DELETE" && keyMatch) {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () =>
+        handleRevokeAgentKey(request, env, config, keyMatch[1])
+      );
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/agent/audit") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleGetAgentAudit(request, env, config));
     }
 
     if (request.method === "GET" && url.pathname === "/v1/agent/instructions") {
-      return handleGetInstructions(request, env, config);
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () => handleGetInstructions(request, env, config, verified));
     }
 
     // ── Data sync (JWT auth) ───────────────────────────────────
 
     if (request.method === "POST" && url.pathname === "/v1/data/sync") {
-      return handleSync(request, env, config);
+      return limited(limiter, config, "sync", await installSubject(request, config), () => handleSync(request, env, config));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/sync/manifest") {
+      return limited(limiter, config, "sync", await installSubject(request, config), () => handleSyncManifest(request, env, config));
+    }
+
+    if (request.method === "POST" && url.pathname === "/v1/data/import") {
+      return limited(limiter, config, "import", await installSubject(request, config), () => handleImport(request, env, config));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/export") {
+      return limited(limiter, config, "export", await installSubject(request, config), () => handleExport(request, env, config));
+    }
+
+    if (request.method === "DELETE" && url.pathname === "/v1/data/sleep/range") {
+      return limited(limiter, config, "sync", await installSubject(request, config), () => handleDeleteSleepRange(request, env, config));
+    }
+
+    // Match /v1/data/sleep/YYYY-MM-DD
+    const deleteDayMatch = url.pathname.match(/^\/v1\/data\/sleep\/(\d{4}-\d{2}-\d{2})$/);
+    if (request.method === "DELETE" && deleteDayMatch) {
+      return limited(limiter, config, "sync", await installSubject(request, config), () =>
+        handleDeleteSleepDay(request, env, config, deleteDayMatch[1])
+      );
+    }
+
+    // Match /v1/data/events/YYYY-MM-DD/:index
+    const deleteEventMatch = url.pathname.match(/^\/v1\/data\/events\/(\d{4}-\d{2}-\d{2})\/(\d{1,4})$/);
+    if (request.method === "DELETE" && deleteEventMatch) {
+      return limited(limiter, config, "sync", await installSubject(request, config), () =>
+        handleDeleteEvent(request, env, config, deleteEventMatch[1], Number(deleteEventMatch[2]))
+      );
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/retention") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleGetRetention(request, env, config));
+    }
+
+    if (request.method === "PUT" && url.pathname === "/v1/data/retention") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handlePutRetention(request, env, config));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/profile/score-weights") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleGetScoreWeights(request, env, config));
+    }
+
+    if (request.method === "PUT" && url.pathname === "/v1/profile/score-weights") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handlePutScoreWeights(request, env, config));
+    }
+
+    // ── Experiments (JWT auth) ─────────────────────────────────
+
+    if (request.method === "POST" && url.pathname === "/v1/experiments") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleCreateExperiment(request, env, config));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/experiments") {
+      return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleListExperiments(request, env, config));
+    }
+
+    // Match /v1/experiments/:id and /v1/experiments/:id/results
+    const experimentMatch = url.pathname.match(/^\/v1\/experiments\/([A-Za-z0-9-]+)(\/results)?$/);
+    if (experimentMatch) {
+      const [, experimentId, results] = experimentMatch;
+      if (request.method === "GET" && results) {
+        return limited(limiter, config, "agent-admin", await installSubject(request, config), () =>
+          handleGetExperimentResults(request, env, config, experimentId)
+        );
+      }
+      if (request.method === "GET" && !results) {
+        return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleGetExperiment(request, env, config, experimentId));
+      }
+      if (request.method === "PATCH" && !results) {
+        return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleUpdateExperiment(request, env, config, experimentId));
+      }
+      if (request.method === "DELETE" && !results) {
+        return limited(limiter, config, "agent-admin", await installSubject(request, config), () => handleDeleteExperiment(request, env, config, experimentId));
+      }
     }
 
     // ── Agent data queries (API key auth) ──────────────────────
 
     if (request.method === "GET" && url.pathname === "/v1/data/sleep/stats") {
-      return handleGetSleepStats(request, env, config);
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () => handleGetSleepStats(request, env, config, verified));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/sleep/history") {
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () => handleGetSleepHistory(request, env, config, verified));
     }
 
     if (request.method === "GET" && url.pathname === "/v1/data/sleep/range") {
-      return handleGetSleepRange(request, env, config);
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-range", apiKeySubjects(verified), () => handleGetSleepRange(request, env, config, verified));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/sleep/score") {
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-range", apiKeySubjects(verified), () => handleGetSleepScore(request, env, config, verified));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/anomalies") {
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-range", apiKeySubjects(verified), () => handleGetAnomalies(request, env, config, verified));
+    }
+
+    if (request.method === "GET" && url.pathname === "/v1/data/correlations") {
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-range", apiKeySubjects(verified), () => handleGetCorrelations(request, env, config, verified));
     }
 
     if (request.method === "GET" && url.pathname === "/v1/data/events") {
-      return handleGetEvents(request, env, config);
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () => handleGetEvents(request, env, config, verified));
     }
 
     if (request.method === "GET" && url.pathname === "/v1/data/sleep") {
-      return handleGetSleep(request, env, config);
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () => handleGetSleep(request, env, config, verified));
     }
 
     // Match /v1/data/sleep/YYYY-MM-DD
     const dateMatch = url.pathname.match(/^\/v1\/data\/sleep\/(\d{4}-\d{2}-\d{2})$/);
     if (request.method === "GET" && dateMatch) {
-      return handleGetSleepByDate(request, env, config, dateMatch[1]);
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () =>
+        handleGetSleepByDate(request, env, config, dateMatch[1], verified)
+      );
     }
 
-    return errorResponse(404, "Not found");
-  }
-};
-
-async function handleChallenge(request: Request, env: Env, challengeSigningSecret: string): Promise<Response> {
-  let body: unknown;
-  try {
-    body = await parseJSON(request);
-  } catch (error) {
-    return errorResponse(400, "Invalid request body", String(error));
-  }
-
-  const parsed = challengeRequestSchema.safeParse(body);
-  if (!parsed.success) {
-    return errorResponse(400, "Invalid challenge payload", parsed.error.flatten());
-  }
-
-  const installId = parsed.data.installId ?? crypto.randomUUID();
-  const { publicKey } = parsed.data;
-
-  await env.INSTALL_KEYS.put(installId, publicKey);
+    // Match /v1/data/sleep/YYYY-MM-DD/series
+    const seriesMatch = url.pathname.match(/^\/v1\/data\/sleep\/(\d{4}-\d{2}-\d{2})\/series$/);
+    if (request.method === "GET" && seriesMatch) {
+      const verified = await verifyApiKey(request, env, config);
+      return limited(limiter, config, "agent-read", apiKeySubjects(verified), () =>
+        handleGetSleepSeries(request, env, config, seriesMatch[1], verified)
+      );
+    }
 
-  const challenge = await createChallengeToken(challengeSigningSecret, installId, publicKey);
+    return errorResponse(404, "Not found");
+  },
 
-  return jsonResponse(200, {
-    installId,
-    challengeToken: challenge.token,
-    expiresAt: epochToIso(challenge.expiresAtEpoch)
-  });
-}
+  // ── Scheduled maintenance ──────────────────────────────────
 
-async function handleExchange(
-  request: Request,
-  env: Env,
-  challengeSigningSecret: string,
-  jwtSigningSecret: string
-): Promise<Response> {
-  let body: unknown;
-  try {
-    body = await parseJSON(request);
-  } catch (error) {
-    return errorResponse(400, "Invalid request body", String(error));
-  }
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const config = readConfig(env);
 
-  const parsed = exchangeRequestSchema.safeParse(body);
-  if (!parsed.success) {
-    return errorResponse(400, "Invalid exchange payload", parsed.error.flatten());
-  }
+    ctx.waitUntil(rewrapStaleDEKs(env, config.encryptionKeks));
 
-  const payload = parsed.data;
+    if (config.payloadUpgradesPerRun !== null) {
+      ctx.waitUntil(upgradeStaleSleepPayloads(env, config, config.payloadUpgradesPerRun));
+    }
 
-  let challengeClaims;
-  try {
-    challengeClaims = await verifyChallengeToken(challengeSigningSecret, payload.challengeToken);
-  } catch (error) {
-    return errorResponse(401, "Invalid challenge token", String(error));
+    ctx.waitUntil(purgeIdleRateLimitBuckets(env.SLEEP_DATA, Date.now() - IDLE_BUCKET_RETENTION_MS));
+    ctx.waitUntil(purgeExpiredAuditEntries(env.SLEEP_DATA));
   }
+};
 
-  if (challengeClaims.installId !== payload.installId || challengeClaims.publicKey !== payload.publicKey) {
-    return errorResponse(401, "Challenge payload mismatch");
+/** Buckets refill fully well within a day under any sane policy. */
+const IDLE_BUCKET_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run `handler` under the route class's token buckets for `subjects`; every one must have a token.
+ * Requests without an identifiable caller skip the limiter; the handler rejects them with 401.
+ */
+function limited(
+  limiter: RateLimitStore,
+  config: ServiceConfig,
+  routeClass: RouteClass,
+  subjects: string | readonly string[] | null,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  if (!subjects) {
+    return handler();
   }
+  const buckets = (typeof subjects === "string" ? [subjects] : subjects).map((subject) => `${routeClass}:${subject}`);
+  return withRateLimit(limiter, buckets, config.rateLimits[routeClass], handler);
+}
 
-  const storedKey = await env.INSTALL_KEYS.get(payload.installId);
-  if (!storedKey || storedKey !== payload.publicKey) {
-    return errorResponse(401, "Unrecognized install key");
-  }
+async function installSubject(request: Request, config: ServiceConfig): Promise<string | null> {
+  const auth = await authenticateInstall(request, config);
+  return "error" in auth ? null : `install:${auth.installId}`;
+}
 
-  const validSignature = await verifyEd25519Signature(payload.publicKey, payload.challengeToken, payload.signature);
-  if (!validSignature) {
-    return errorResponse(401, "Invalid signature");
+/**
+ * The verified key and its install, so a forged token cannot spend a real key's tokens
+ * and an install's keys share one quota. Invalid keys get null and never write a bucket.
+ */
+function apiKeySubjects(verified: VerifiedApiKey): string[] | null {
+  if ("error" in verified) {
+    return null;
   }
-
-  const access = await issueSignedToken(jwtSigningSecret, {
-    subject: payload.installId,
-    type: "access",
-    ttlSeconds: ACCESS_TTL_SECONDS,
-    additionalClaims: {
-      scope: "patterns:analyze"
-    }
-  });
-
-  return jsonResponse(200, {
-    accessToken: access.token,
-    expiresAt: epochToIso(access.expiresAtEpoch)
-  });
+  return [`key:${verified.record.keyId ?? lookupIdFor(verified.apiKey)}`, `install:${verified.record.installId}`];
 }
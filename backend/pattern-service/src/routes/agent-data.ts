@@ -1,7 +1,39 @@
 import type { Env, ServiceConfig } from "../config";
-import { decrypt, unwrapDEK } from "../crypto";
-import { validateApiKey, type AgentKeyRecord } from "../auth/agent-auth";
+import { hasScope, readInstallRecord, retentionDaysOf, type AgentKeyRecord } from "../auth/agent-auth";
+import type { VerifiedApiKey } from "../auth/agent-request";
+import {
+    anomalyQuerySchema,
+    nightMetricSchema,
+    seriesQuerySchema,
+    sleepHistoryQuerySchema,
+    sleepRangeQuerySchema,
+    sleepQuerySchema,
+    sleepStatsQuerySchema,
+    type StoredSleepPayload
+} from "../schema/agent";
+import { auditedAgentRequest } from "../services/audit-log";
+import {
+    BASELINE_METRICS,
+    BASELINE_WINDOW_DAYS,
+    deviationBaselines,
+    flagAnomalies,
+    readNightAnomalies,
+    readNightDeviations,
+    roundBaseline,
+    type AnomalyFlag
+} from "../services/baselines";
+import { CORRELATION_METRICS, correlateEvent, readCorrelationNights } from "../services/correlations";
+import type { StoredNight } from "../services/day-store";
+import { normalizeEventName, readEvents, type SyncEvent } from "../services/event-store";
+import { retentionCutoff } from "../services/retention";
+import { downsample, readSeries, resolutionSeconds, SERIES_UNITS } from "../services/series";
+import { periodStartOf, readRollups, shiftDays, summarizeRollup, type RollupGranularity } from "../services/rollups";
+import { readInstallProfile } from "../services/profile";
+import { openSleepPayload } from "../services/sleep-payload";
+import { DEFAULT_SCORE_PROFILE, scoreNight } from "../services/sleep-score";
+import { sleepStats } from "../services/sleep-stats";
 import { errorResponse, jsonResponse } from "../util/http";
+import { isValidTimeZone, localDateKey } from "../util/time-zone";
 
 interface SleepDayRow {
     id: string;
@@ -13,77 +45,129 @@ interface SleepDayRow {
     synced_at: string;
 }
 
-interface EventRow {
-    id: string;
-    install_id: string;
-    day_date: string;
-    data_enc: string;
-    iv: string;
-    tag: string;
-    synced_at: string;
+/**
+ * Drop the parts of a decrypted sleep day that the key may not see.
+ * Segments need `segments:read`; embedded events need `events:read`.
+ */
+function redactSleepDay(day: Record<string, unknown>, record: AgentKeyRecord): Record<string, unknown> {
+    const redacted = { ...day };
+    if (!hasScope(record, "segments:read")) {
+        delete redacted.segments;
+    }
+    if (!hasScope(record, "events:read")) {
+        delete redacted.events;
+    }
+    return redacted;
 }
 
 /**
- * Extract and validate the API key from the Authorization header.
- * Returns the key record or an error Response.
+ * `?days=N` (default `fallback`), parsed with sleepQuerySchema so N runs
+ * from 1 to the install's retention: older days are no longer stored.
  */
-async function authenticateAgent(
-    request: Request,
-    env: Env
-): Promise<{ record: AgentKeyRecord } | { error: Response }> {
-    const bearer = request.headers.get("Authorization");
-    if (!bearer?.startsWith("Bearer ")) {
-        return { error: errorResponse(401, "Missing bearer token") };
+async function requestedDays(
+    url: URL,
+    fallback: number,
+    env: Env,
+    config: ServiceConfig,
+    installId: string
+): Promise<{ days: number } | { error: Response }> {
+    const retentionDays = retentionDaysOf(await readInstallRecord(installId, config.agentKeyHashSecret, env));
+    const parsed = sleepQuerySchema(retentionDays).safeParse({ days: url.searchParams.get("days") ?? undefined });
+    if (!parsed.success) {
+        return { error: errorResponse(400, "Invalid 'days'", { min: 1, max: retentionDays }) };
     }
+    return { days: parsed.data.days ?? Math.min(fallback, retentionDays) };
+}
 
-    const apiKey = bearer.replace("Bearer ", "").trim();
-    const record = await validateApiKey(apiKey, env);
-    if (!record) {
-        return { error: errorResponse(401, "Invalid API key") };
-    }
+/** Today's day key in `timeZone` (UTC when absent), the upper end of the "last N days" queries. */
+function today(timeZone?: string): string {
+    return localDateKey(Date.now(), timeZone);
+}
+
+const INVALID_TIME_ZONE = "Invalid 'tz'. Use an IANA time zone (e.g. Europe/Berlin) or a UTC offset (e.g. +05:30).";
 
-    return { record };
+/**
+ * `?tz=`: the zone "today" is taken in for last-N-days queries, since days
+ * are keyed by the local date they were recorded on. Null when invalid.
+ */
+function requestedTimeZone(url: URL): string | undefined | null {
+    const timeZone = url.searchParams.get("tz");
+    if (timeZone === null) {
+        return undefined;
+    }
+    return isValidTimeZone(timeZone) ? timeZone : null;
 }
 
 /**
- * Decrypt a D1 row's encrypted data using the user's DEK.
+ * Decrypt a D1 row's encrypted data using the user's DEK, upgraded to the
+ * current payload version.
  */
-async function decryptRow(row: SleepDayRow | EventRow, dek: CryptoKey): Promise<unknown> {
-    const plaintext = await decrypt(
-        { ciphertext: row.data_enc, iv: row.iv, tag: row.tag },
-        dek
-    );
-    return JSON.parse(plaintext);
+async function decryptRow(row: SleepDayRow, dek: CryptoKey): Promise<StoredSleepPayload> {
+    return openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
 }
 
-// ── GET /v1/data/sleep?days=N ─────────────────────────────────
+/** The anomaly summary embedded in day responses. */
+interface DayAnomalies {
+    zThreshold: number;
+    flags: AnomalyFlag[];
+    patterns: string[];
+}
 
-export async function handleGetSleep(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    const auth = await authenticateAgent(request, env);
-    if ("error" in auth) return auth.error;
+/** Anomalies of the nights on `dates` at the configured threshold, keyed by date. */
+async function anomaliesByDate(
+    env: Env,
+    config: ServiceConfig,
+    dek: CryptoKey,
+    installId: string,
+    dates: string[]
+): Promise<Map<string, DayAnomalies>> {
+    if (dates.length === 0) {
+        return new Map();
+    }
+    const sorted = [...dates].sort();
+    const nights = await readNightAnomalies(env, dek, installId, sorted[0], sorted[sorted.length - 1], config.anomalyZThreshold);
+    return new Map(nights.map((night) => [night.date, { zThreshold: config.anomalyZThreshold, flags: night.flags, patterns: night.patterns }]));
+}
 
-    const url = new URL(request.url);
-    const days = Math.min(Math.max(parseInt(url.searchParams.get("days") || "7", 10), 1), 30);
+// ── GET /v1/data/sleep?days=N ─────────────────────────────────
 
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
-    const dek = await unwrapDEK(auth.record.wrappedDek, config.encryptionKek);
+export async function handleGetSleep(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep", "sleep:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const timeZone = requestedTimeZone(url);
+        if (timeZone === null) {
+            return errorResponse(400, INVALID_TIME_ZONE);
+        }
 
-    const result = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? ORDER BY day_date DESC"
-    ).bind(auth.record.installId, cutoff).all<SleepDayRow>();
+        const requested = await requestedDays(url, 7, env, config, record.installId);
+        if ("error" in requested) {
+            return requested.error;
+        }
+        const { days } = requested;
+        const cutoff = retentionCutoff(days, Date.now(), timeZone);
 
-    const decryptedDays = await Promise.all(
-        (result.results || []).map(async (row) => ({
-            date: row.day_date,
-            syncedAt: row.synced_at,
-            ...(await decryptRow(row, dek) as Record<string, unknown>)
-        }))
-    );
+        const result = await env.SLEEP_DATA.prepare(
+            "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? ORDER BY day_date DESC"
+        ).bind(record.installId, cutoff).all<SleepDayRow>();
 
-    return jsonResponse(200, {
-        days: decryptedDays,
-        count: decryptedDays.length
-    });
+        const rows = result.results || [];
+        const anomalies = await anomaliesByDate(env, config, dek, record.installId, rows.map((row) => row.day_date));
+        const decryptedDays = await Promise.all(
+            rows.map(async (row) => redactSleepDay({
+                date: row.day_date,
+                syncedAt: row.synced_at,
+                ...await decryptRow(row, dek),
+                anomalies: anomalies.get(row.day_date) ?? null
+            }, record))
+        );
+
+        Object.assign(access, { from: cutoff, to: today(timeZone), days: decryptedDays.length });
+
+        return jsonResponse(200, {
+            days: decryptedDays,
+            count: decryptedDays.length
+        });
+    }, verified);
 }
 
 // ── GET /v1/data/sleep/:date ──────────────────────────────────
@@ -92,182 +176,439 @@ export async function handleGetSleepByDate(
     request: Request,
     env: Env,
     config: ServiceConfig,
-    date: string
+    date: string,
+    verified?: VerifiedApiKey
 ): Promise<Response> {
-    const auth = await authenticateAgent(request, env);
-    if ("error" in auth) return auth.error;
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep/:date", "sleep:read", async ({ record, dek, access }) => {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return errorResponse(400, "Invalid date format. Use YYYY-MM-DD.");
+        }
 
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-        return errorResponse(400, "Invalid date format. Use YYYY-MM-DD.");
-    }
+        Object.assign(access, { from: date, to: date, days: 0 });
 
-    const dek = await unwrapDEK(auth.record.wrappedDek, config.encryptionKek);
+        const sleepRow = await env.SLEEP_DATA.prepare(
+            "SELECT * FROM sleep_days WHERE install_id = ? AND day_date = ?"
+        ).bind(record.installId, date).first<SleepDayRow>();
 
-    const sleepRow = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM sleep_days WHERE install_id = ? AND day_date = ?"
-    ).bind(auth.record.installId, date).first<SleepDayRow>();
+        if (!sleepRow) {
+            return errorResponse(404, "No sleep data found for this date");
+        }
 
-    if (!sleepRow) {
-        return errorResponse(404, "No sleep data found for this date");
-    }
+        const [dayEvents] = hasScope(record, "events:read")
+            ? await readEvents(env, dek, record.installId, { from: date, to: date })
+            : [];
+
+        const sleepData = await decryptRow(sleepRow, dek);
+        const events = dayEvents?.events ?? [];
+        const anomalies = await anomaliesByDate(env, config, dek, record.installId, [date]);
+        access.days = 1;
+
+        return jsonResponse(200, redactSleepDay({
+            date,
+            syncedAt: sleepRow.synced_at,
+            ...sleepData,
+            events,
+            anomalies: anomalies.get(date) ?? null
+        }, record));
+    }, verified);
+}
 
-    const eventRow = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM behavior_events WHERE install_id = ? AND day_date = ?"
-    ).bind(auth.record.installId, date).first<EventRow>();
+// ── GET /v1/data/sleep/:date/series?metric=&resolution= ──────
 
-    const sleepData = await decryptRow(sleepRow, dek) as Record<string, unknown>;
-    const events = eventRow ? await decryptRow(eventRow, dek) : [];
+export async function handleGetSleepSeries(
+    request: Request,
+    env: Env,
+    config: ServiceConfig,
+    date: string,
+    verified?: VerifiedApiKey
+): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep/:date/series", "sleep:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const parsed = seriesQuerySchema.safeParse({
+            metric: url.searchParams.get("metric") ?? undefined,
+            resolution: url.searchParams.get("resolution") ?? undefined
+        });
+        if (!parsed.success) {
+            return errorResponse(400, "Invalid series query", parsed.error.flatten());
+        }
+
+        let bucketSeconds: number | null;
+        try {
+            bucketSeconds = resolutionSeconds(parsed.data.resolution);
+        } catch {
+            return errorResponse(400, "Resolution must be raw or between 1s and 60m");
+        }
+
+        const { metric, resolution } = parsed.data;
+        Object.assign(access, { from: date, to: date, days: 0 });
 
-    return jsonResponse(200, {
-        date,
-        syncedAt: sleepRow.synced_at,
-        ...sleepData,
-        events
-    });
+        const samples = await readSeries(env, dek, record.installId, date, metric);
+        if (samples.length === 0) {
+            return errorResponse(404, "No series data found for this date and metric");
+        }
+        access.days = 1;
+
+        const points = bucketSeconds === null
+            ? samples.map((sample) => ({ timestampISO: new Date(sample.t).toISOString(), value: sample.v }))
+            : downsample(samples, bucketSeconds);
+
+        return jsonResponse(200, {
+            date,
+            metric,
+            unit: SERIES_UNITS[metric],
+            resolution,
+            sampleCount: samples.length,
+            points,
+            count: points.length
+        });
+    }, verified);
 }
 
 // ── GET /v1/data/sleep/range?from=&to= ───────────────────────
 
-export async function handleGetSleepRange(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    const auth = await authenticateAgent(request, env);
-    if ("error" in auth) return auth.error;
+export async function handleGetSleepRange(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep/range", "sleep:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const from = url.searchParams.get("from");
+        const to = url.searchParams.get("to");
 
-    const url = new URL(request.url);
-    const from = url.searchParams.get("from");
-    const to = url.searchParams.get("to");
+        if (!from || !to || !/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+            return errorResponse(400, "Both 'from' and 'to' query params required in YYYY-MM-DD format");
+        }
 
-    if (!from || !to || !/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
-        return errorResponse(400, "Both 'from' and 'to' query params required in YYYY-MM-DD format");
-    }
+        if (from > to) {
+            return errorResponse(400, "'from' date must be before or equal to 'to' date");
+        }
 
-    if (from > to) {
-        return errorResponse(400, "'from' date must be before or equal to 'to' date");
-    }
+        const sleepResult = await env.SLEEP_DATA.prepare(
+            "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
+        ).bind(record.installId, from, to).all<SleepDayRow>();
 
-    const dek = await unwrapDEK(auth.record.wrappedDek, config.encryptionKek);
+        // Index events by date for efficient lookup
+        const eventsByDate = new Map<string, SyncEvent[]>();
+        if (hasScope(record, "events:read")) {
+            for (const day of await readEvents(env, dek, record.installId, { from, to })) {
+                eventsByDate.set(day.date, day.events);
+            }
+        }
 
-    const sleepResult = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
-    ).bind(auth.record.installId, from, to).all<SleepDayRow>();
+        const rows = sleepResult.results || [];
+        const anomalies = await anomaliesByDate(env, config, dek, record.installId, rows.map((row) => row.day_date));
+        const decryptedDays = await Promise.all(
+            rows.map(async (row) => {
+                const sleepData = await decryptRow(row, dek);
+                const events = eventsByDate.get(row.day_date) ?? [];
+
+                return redactSleepDay({
+                    date: row.day_date,
+                    syncedAt: row.synced_at,
+                    ...sleepData,
+                    events,
+                    anomalies: anomalies.get(row.day_date) ?? null
+                }, record);
+            })
+        );
+
+        Object.assign(access, { from, to, days: decryptedDays.length });
+
+        return jsonResponse(200, {
+            from,
+            to,
+            days: decryptedDays,
+            count: decryptedDays.length
+        });
+    }, verified);
+}
 
-    const eventResult = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM behavior_events WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
-    ).bind(auth.record.installId, from, to).all<EventRow>();
+// ── GET /v1/data/sleep/stats?days=N&metrics= ────────────────
 
-    // Index events by date for efficient lookup
-    const eventsByDate = new Map<string, EventRow>();
-    for (const row of eventResult.results || []) {
-        eventsByDate.set(row.day_date, row);
-    }
+/**
+ * Averages over the last N days, plus for each selected metric its
+ * distribution, a per-weekday and weekday-vs-weekend breakdown and a trend.
+ */
+export async function handleGetSleepStats(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep/stats", "stats:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const parsed = sleepStatsQuerySchema.safeParse({ metrics: url.searchParams.get("metrics") ?? undefined });
+        if (!parsed.success) {
+            return errorResponse(400, "Invalid 'metrics'", { allowed: nightMetricSchema.options });
+        }
+        const timeZone = requestedTimeZone(url);
+        if (timeZone === null) {
+            return errorResponse(400, INVALID_TIME_ZONE);
+        }
 
-    const decryptedDays = await Promise.all(
-        (sleepResult.results || []).map(async (row) => {
-            const sleepData = await decryptRow(row, dek) as Record<string, unknown>;
-            const eventRow = eventsByDate.get(row.day_date);
-            const events = eventRow ? await decryptRow(eventRow, dek) : [];
+        const requested = await requestedDays(url, 14, env, config, record.installId);
+        if ("error" in requested) {
+            return requested.error;
+        }
+        const { days } = requested;
+        const cutoff = retentionCutoff(days, Date.now(), timeZone);
 
-            return {
-                date: row.day_date,
-                syncedAt: row.synced_at,
-                ...sleepData,
-                events
-            };
-        })
-    );
-
-    return jsonResponse(200, {
-        from,
-        to,
-        days: decryptedDays,
-        count: decryptedDays.length
-    });
+        const result = await env.SLEEP_DATA.prepare(
+            "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? ORDER BY day_date DESC"
+        ).bind(record.installId, cutoff).all<SleepDayRow>();
+
+        Object.assign(access, { from: cutoff, to: today(timeZone), days: result.results?.length ?? 0 });
+
+        if (!result.results || result.results.length === 0) {
+            return jsonResponse(200, { days: 0, message: "No data available for the requested period" });
+        }
+
+        // Decrypt all and compute aggregates
+        const nights: StoredNight[] = [];
+
+        for (const row of result.results) {
+            nights.push({ date: row.day_date, payload: await decryptRow(row, dek) });
+        }
+
+        const metrics = parsed.data.metrics ?? nightMetricSchema.options;
+        const scoreProfile = metrics.includes("sleepScore")
+            ? (await readInstallProfile(env, dek, record.installId)).score ?? DEFAULT_SCORE_PROFILE
+            : DEFAULT_SCORE_PROFILE;
+
+        const count = nights.length;
+
+        // Every stage by default; with `metrics`, only those with a selected `<stage>Hours` metric
+        const stageAverages: Record<string, number> = {};
+        for (const night of nights) {
+            for (const sd of night.payload.stageDurations) {
+                if (parsed.data.metrics === undefined || metrics.some((metric) => metric === `${sd.stage}Hours`)) {
+                    stageAverages[sd.stage] = (stageAverages[sd.stage] || 0) + sd.hours;
+                }
+            }
+        }
+        for (const stage of Object.keys(stageAverages)) {
+            stageAverages[stage] = Math.round((stageAverages[stage] / count) * 100) / 100;
+        }
+
+        return jsonResponse(200, {
+            period: { days, dataPoints: count },
+            averageStageDurations: stageAverages,
+            metrics,
+            ...sleepStats([...nights].reverse(), metrics, scoreProfile)
+        });
+    }, verified);
 }
 
-// ── GET /v1/data/sleep/stats?days=N ──────────────────────────
+// ── GET /v1/data/sleep/score?from=&to= ───────────────────────
 
-export async function handleGetSleepStats(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    const auth = await authenticateAgent(request, env);
-    if ("error" in auth) return auth.error;
+/**
+ * Each night's 0–100 score with its per-component breakdown, computed with
+ * the weights and targets the user set in the app (or the defaults).
+ */
+export async function handleGetSleepScore(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep/score", "sleep:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const parsed = sleepRangeQuerySchema.safeParse({ from: url.searchParams.get("from"), to: url.searchParams.get("to") });
+        if (!parsed.success) {
+            return errorResponse(400, "Both 'from' and 'to' query params required in YYYY-MM-DD format");
+        }
 
-    const url = new URL(request.url);
-    const days = Math.min(Math.max(parseInt(url.searchParams.get("days") || "14", 10), 1), 30);
+        const { from, to } = parsed.data;
+        if (from > to) {
+            return errorResponse(400, "'from' date must be before or equal to 'to' date");
+        }
 
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
-    const dek = await unwrapDEK(auth.record.wrappedDek, config.encryptionKek);
+        const result = await env.SLEEP_DATA.prepare(
+            "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
+        ).bind(record.installId, from, to).all<SleepDayRow>();
+
+        const profile = (await readInstallProfile(env, dek, record.installId)).score ?? DEFAULT_SCORE_PROFILE;
+        const nights = await Promise.all(
+            (result.results || []).map(async (row) => ({ date: row.day_date, ...scoreNight(await decryptRow(row, dek), profile) }))
+        );
+
+        Object.assign(access, { from, to, days: nights.length });
+
+        const scores = nights.flatMap((night) => (night.score === null ? [] : [night.score]));
+        return jsonResponse(200, {
+            from,
+            to,
+            profile,
+            averageScore: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+            days: nights,
+            count: nights.length
+        });
+    }, verified);
+}
 
-    const result = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM sleep_days WHERE install_id = ? AND day_date >= ? ORDER BY day_date DESC"
-    ).bind(auth.record.installId, cutoff).all<SleepDayRow>();
+// ── GET /v1/data/anomalies?days=N&z= ────────────────────────
 
-    if (!result.results || result.results.length === 0) {
-        return jsonResponse(200, { days: 0, message: "No data available for the requested period" });
-    }
+/**
+ * Nights of the last N days with at least one metric `z` (default
+ * ANOMALY_Z_THRESHOLD) standard deviations from its rolling baseline, newest
+ * first, plus the current baseline of every metric.
+ */
+export async function handleGetAnomalies(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/anomalies", "sleep:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const parsed = anomalyQuerySchema.safeParse({ z: url.searchParams.get("z") ?? undefined });
+        if (!parsed.success) {
+            return errorResponse(400, "Invalid anomaly query", parsed.error.flatten());
+        }
+        const timeZone = requestedTimeZone(url);
+        if (timeZone === null) {
+            return errorResponse(400, INVALID_TIME_ZONE);
+        }
+
+        const zThreshold = parsed.data.z ?? config.anomalyZThreshold;
+        const requested = await requestedDays(url, 14, env, config, record.installId);
+        if ("error" in requested) {
+            return requested.error;
+        }
+        const { days } = requested;
+        const from = retentionCutoff(days, Date.now(), timeZone);
+        const to = today(timeZone);
+
+        // The current baseline needs the nights of the window before tomorrow, even when `days` is shorter
+        const windowStart = shiftDays(to, 1 - BASELINE_WINDOW_DAYS);
+        const nights = await readNightDeviations(env, dek, record.installId, from < windowStart ? from : windowStart, to);
+        const checked = nights.filter((night) => night.date >= from).map((night) => flagAnomalies(night, zThreshold));
+        const flagged = checked.filter((night) => night.flags.length > 0).reverse();
+        const current = deviationBaselines(nights, shiftDays(to, 1));
+
+        Object.assign(access, { from, to, days: checked.length });
+
+        return jsonResponse(200, {
+            from,
+            to,
+            zThreshold,
+            baselines: Object.fromEntries(BASELINE_METRICS.map((metric) => [metric, current[metric] && roundBaseline(current[metric])])),
+            nightsChecked: checked.length,
+            days: flagged,
+            count: flagged.length
+        });
+    }, verified);
+}
 
-    // Decrypt all and compute aggregates
-    const allData: Array<{ sleep: { totalSleepHours: number; awakeningCount: number; averageHeartRate: number | null; averageHRV: number | null; averageRespiratoryRate: number | null; workoutMinutes: number | null }; stageDurations: Array<{ stage: string; hours: number }> }> = [];
+// ── GET /v1/data/correlations?event=&metric=&days=N ──────────
 
-    for (const row of result.results) {
-        const data = await decryptRow(row, dek) as typeof allData[number];
-        allData.push(data);
-    }
+/**
+ * Nights with the event against nights without it over the last N days,
+ * also split by how long before sleep the event happened, with sample sizes
+ * and a confidence flag per metric. Needs `events:read` on top of `stats:read`.
+ */
+export async function handleGetCorrelations(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/correlations", "stats:read", async ({ record, dek, access }) => {
+        if (!hasScope(record, "events:read")) {
+            return errorResponse(403, "API key lacks required scope", { requiredScope: "events:read" });
+        }
+
+        const url = new URL(request.url);
+        const event = url.searchParams.get("event");
+        if (event === null || normalizeEventName(event) === "") {
+            return errorResponse(400, "'event' query param required");
+        }
+        const metric = url.searchParams.get("metric");
+        const parsedMetric = nightMetricSchema.safeParse(metric);
+        if (metric !== null && !parsedMetric.success) {
+            return errorResponse(400, "Invalid 'metric'", { allowed: nightMetricSchema.options });
+        }
+        const timeZone = requestedTimeZone(url);
+        if (timeZone === null) {
+            return errorResponse(400, INVALID_TIME_ZONE);
+        }
 
-    const count = allData.length;
+        const requested = await requestedDays(url, 30, env, config, record.installId);
+        if ("error" in requested) {
+            return requested.error;
+        }
+        const { days } = requested;
+        const from = retentionCutoff(days, Date.now(), timeZone);
+        const to = today(timeZone);
 
-    const avg = (values: (number | null)[]): number | null => {
-        const valid = values.filter((v): v is number => v !== null && v !== undefined);
-        if (valid.length === 0) return null;
-        return Math.round((valid.reduce((a, b) => a + b, 0) / valid.length) * 100) / 100;
-    };
+        const nights = await readCorrelationNights(env, dek, record.installId, from, to, event);
+        const metrics = parsedMetric.success ? [parsedMetric.data] : CORRELATION_METRICS;
+        const scoreProfile = metrics.includes("sleepScore")
+            ? (await readInstallProfile(env, dek, record.installId)).score ?? DEFAULT_SCORE_PROFILE
+            : DEFAULT_SCORE_PROFILE;
+
+        Object.assign(access, { from, to, days: nights.length });
+
+        const correlation = correlateEvent(nights, event, metrics, scoreProfile);
+        return jsonResponse(200, { from, to, days: nights.length, ...correlation });
+    }, verified);
+}
 
-    const stageAverages: Record<string, number> = {};
-    for (const day of allData) {
-        for (const sd of day.stageDurations || []) {
-            stageAverages[sd.stage] = (stageAverages[sd.stage] || 0) + sd.hours;
+// ── GET /v1/data/events?days=N&name= ──────────────────────────
+
+export async function handleGetEvents(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/events", "events:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const name = url.searchParams.get("name") ?? undefined;
+        if (name !== undefined && normalizeEventName(name) === "") {
+            return errorResponse(400, "'name' must not be empty");
         }
-    }
-    for (const stage of Object.keys(stageAverages)) {
-        stageAverages[stage] = Math.round((stageAverages[stage] / count) * 100) / 100;
-    }
+        const timeZone = requestedTimeZone(url);
+        if (timeZone === null) {
+            return errorResponse(400, INVALID_TIME_ZONE);
+        }
+
+        const requested = await requestedDays(url, 7, env, config, record.installId);
+        if ("error" in requested) {
+            return requested.error;
+        }
+        const { days } = requested;
+        const cutoff = retentionCutoff(days, Date.now(), timeZone);
+
+        const decryptedEvents = await readEvents(env, dek, record.installId, { from: cutoff, to: today(timeZone), name });
 
-    return jsonResponse(200, {
-        period: { days, dataPoints: count },
-        averages: {
-            totalSleepHours: avg(allData.map((d) => d.sleep.totalSleepHours)),
-            awakeningCount: avg(allData.map((d) => d.sleep.awakeningCount)),
-            heartRate: avg(allData.map((d) => d.sleep.averageHeartRate)),
-            hrv: avg(allData.map((d) => d.sleep.averageHRV)),
-            respiratoryRate: avg(allData.map((d) => d.sleep.averageRespiratoryRate)),
-            workoutMinutes: avg(allData.map((d) => d.sleep.workoutMinutes))
-        },
-        averageStageDurations: stageAverages
-    });
+        Object.assign(access, { from: cutoff, to: today(timeZone), days: decryptedEvents.length });
+
+        return jsonResponse(200, {
+            ...(name !== undefined ? { name } : {}),
+            days: decryptedEvents,
+            count: decryptedEvents.length
+        });
+    }, verified);
 }
 
-// ── GET /v1/data/events?days=N ────────────────────────────────
+// ── GET /v1/data/sleep/history?granularity=week|month&periods=N ──
+
+/** Default look-back per granularity: a year of months, half a year of weeks. */
+const DEFAULT_HISTORY_PERIODS: Record<RollupGranularity, number> = { month: 12, week: 26 };
+
+export async function handleGetSleepHistory(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/data/sleep/history", "stats:read", async ({ record, dek, access }) => {
+        const url = new URL(request.url);
+        const parsed = sleepHistoryQuerySchema.safeParse({
+            granularity: url.searchParams.get("granularity") ?? undefined,
+            periods: url.searchParams.get("periods") ?? undefined
+        });
+        if (!parsed.success) {
+            return errorResponse(400, "Invalid history query", parsed.error.flatten());
+        }
+        const timeZone = requestedTimeZone(url);
+        if (timeZone === null) {
+            return errorResponse(400, INVALID_TIME_ZONE);
+        }
 
-export async function handleGetEvents(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    const auth = await authenticateAgent(request, env);
-    if ("error" in auth) return auth.error;
+        const { granularity } = parsed.data;
+        const periods = parsed.data.periods ?? DEFAULT_HISTORY_PERIODS[granularity];
 
-    const url = new URL(request.url);
-    const days = Math.min(Math.max(parseInt(url.searchParams.get("days") || "7", 10), 1), 30);
+        const to = periodStartOf(today(timeZone), granularity);
+        const from = granularity === "week"
+            ? shiftDays(to, -7 * (periods - 1))
+            : shiftMonths(to, -(periods - 1));
 
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
-    const dek = await unwrapDEK(auth.record.wrappedDek, config.encryptionKek);
+        const rollups = await readRollups(env, dek, record.installId, granularity, from, to);
+        const summaries = rollups.map(summarizeRollup);
 
-    const result = await env.SLEEP_DATA.prepare(
-        "SELECT * FROM behavior_events WHERE install_id = ? AND day_date >= ? ORDER BY day_date DESC"
-    ).bind(auth.record.installId, cutoff).all<EventRow>();
+        Object.assign(access, { from, to: summaries.at(-1)?.periodEnd ?? to, days: summaries.reduce((total, period) => total + period.days, 0) });
 
-    const decryptedEvents = await Promise.all(
-        (result.results || []).map(async (row) => ({
-            date: row.day_date,
-            events: await decryptRow(row, dek)
-        }))
-    );
+        return jsonResponse(200, {
+            granularity,
+            from,
+            to,
+            periods: summaries,
+            count: summaries.length
+        });
+    }, verified);
+}
 
-    return jsonResponse(200, {
-        days: decryptedEvents,
-        count: decryptedEvents.length
-    });
+/** Shift a first-of-month day key by whole months. */
+function shiftMonths(monthStart: string, months: number): string {
+    const start = new Date(`${monthStart}T00:00:00.000Z`);
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1)).toISOString().substring(0, 10);
 }
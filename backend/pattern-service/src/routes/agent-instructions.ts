@@ -1,29 +1,30 @@
 import type { Env, ServiceConfig } from "../config";
-import { validateApiKey } from "../auth/agent-auth";
-import { errorResponse, jsonResponse } from "../util/http";
+import { grantedScopes, readInstallRecord, retentionDaysOf, type AgentKeyRecord } from "../auth/agent-auth";
+import type { VerifiedApiKey } from "../auth/agent-request";
+import { auditedAgentRequest } from "../services/audit-log";
+import { jsonResponse } from "../util/http";
 
 /**
  * GET /v1/agent/instructions
  *
  * Returns the agent skill instructions as structured JSON.
- * Auth: API key (same as agent data queries).
+ * Auth: API key (same as agent data queries). Any valid key may read this,
+ * regardless of scope, so the agent can discover what it is allowed to call.
  */
-export async function handleGetInstructions(request: Request, env: Env, _config: ServiceConfig): Promise<Response> {
-    const bearer = request.headers.get("Authorization");
-    if (!bearer?.startsWith("Bearer ")) {
-        return errorResponse(401, "Missing bearer token");
-    }
-
-    const apiKey = bearer.replace("Bearer ", "").trim();
-    const record = await validateApiKey(apiKey, env);
-    if (!record) {
-        return errorResponse(401, "Invalid API key");
-    }
+export async function handleGetInstructions(request: Request, env: Env, config: ServiceConfig, verified?: VerifiedApiKey): Promise<Response> {
+    return auditedAgentRequest(request, env, config, "GET /v1/agent/instructions", null, async ({ record }) => {
+        const installRecord = await readInstallRecord(record.installId, config.agentKeyHashSecret, env);
+        return instructionsResponse(record, retentionDaysOf(installRecord));
+    }, verified);
+}
 
+function instructionsResponse(record: AgentKeyRecord, retentionDays: number): Response {
     return jsonResponse(200, {
         name: "SleepLab Agent",
         version: "1.0",
         description: "Query your SleepLab sleep tracking data securely.",
+        grantedScopes: grantedScopes(record),
+        dataRetentionDays: retentionDays,
         setup: {
             connectionCodeFormat: "sleeplab://connect/<API_KEY>@<BASE_URL>",
             instructions: [
@@ -37,36 +38,77 @@ export async function handleGetInstructions(request: Request, env: Env, _config:
                 name: "Get Recent Sleep Data",
                 method: "GET",
                 path: "/v1/data/sleep?days=N",
-                description: "Returns the last N days (1-30) of sleep summaries including total sleep hours, sleep stages, heart rate, HRV, respiratory rate, and workout minutes."
+                requiredScope: "sleep:read",
+                description: `Returns the last N days (1-${retentionDays}) of sleep summaries including total sleep hours, sleep stages, heart rate, HRV, respiratory rate, and workout minutes.`
             },
             {
                 name: "Get Sleep Data for a Specific Date",
                 method: "GET",
                 path: "/v1/data/sleep/:date",
-                description: "Returns full details for a specific day (YYYY-MM-DD) including all sleep segments with timestamps, plus behavior events."
+                requiredScope: "sleep:read",
+                description: "Returns full details for a specific day (YYYY-MM-DD) including all sleep segments with timestamps, plus behavior events. Segments are only included with the segments:read scope and events only with events:read."
+            },
+            {
+                name: "Get Sample Series for a Night",
+                method: "GET",
+                path: "/v1/data/sleep/:date/series?metric=hr|hrv|rr|spo2&resolution=1m",
+                requiredScope: "sleep:read",
+                description: "Returns the night's heart rate (hr), HRV (hrv), respiratory rate (rr) or SpO2 (spo2) samples, averaged into buckets (mean, min, max, count) of the given resolution (1s to 60m, default 1m) or unaggregated with resolution=raw. Use it to line vitals up against the sleep segments. 404 when the app did not sync that series."
             },
             {
                 name: "Get Sleep Data for a Date Range",
                 method: "GET",
                 path: "/v1/data/sleep/range?from=YYYY-MM-DD&to=YYYY-MM-DD",
-                description: "Returns full details for all days between the start and end date (inclusive)."
+                requiredScope: "sleep:read",
+                description: "Returns full details for all days between the start and end date (inclusive). Segments and events follow the same scope rules as the single-date endpoint."
+            },
+            {
+                name: "Get Sleep Scores",
+                method: "GET",
+                path: "/v1/data/sleep/score?from=YYYY-MM-DD&to=YYYY-MM-DD",
+                requiredScope: "sleep:read",
+                description: "Returns each night's 0-100 sleep score with a breakdown per component (duration, deepSleep, remSleep, efficiency, awakenings): the night's value, its 0-100 component score and its weight. The weights and target ranges are the user's own, set in the app, and are returned as profile. A component with a null value had no data that night and did not count."
             },
             {
                 name: "Get Aggregated Stats",
                 method: "GET",
-                path: "/v1/data/sleep/stats?days=N",
-                description: "Returns computed averages over the last N days: average sleep duration, HRV, heart rate, respiratory rate, stage durations, etc."
+                path: "/v1/data/sleep/stats?days=N&metrics=METRIC,METRIC",
+                requiredScope: "stats:read",
+                description: "Returns computed statistics over the last N days. For each metric (all by default, or those in metrics: totalSleepHours, deepHours, remHours, awakeningCount, averageHeartRate, restingHeartRate, averageHRV, averageRespiratoryRate, averageSpO2, workoutMinutes, sleepScore) its mean in averages, distributions (median, standardDeviation, min, max, p10, p90), byWeekday, weekdayVsWeekend and trends (slopePerDay)."
+            },
+            {
+                name: "Get Long-Term History",
+                method: "GET",
+                path: "/v1/data/sleep/history?granularity=week|month&periods=N",
+                requiredScope: "stats:read",
+                description: "Returns weekly or monthly rollups (default: 12 months or 26 weeks, up to 520 periods) with averages, standard deviations, stage totals and a total-sleep distribution per period. Covers days older than the retention window, so use it for trends over months or years."
+            },
+            {
+                name: "Get Anomalies",
+                method: "GET",
+                path: "/v1/data/anomalies?days=N&z=2",
+                requiredScope: "sleep:read",
+                description: "Returns nights of the last N days (default 14) where HRV, resting heart rate, respiratory rate, SpO2 or sleep duration was at least z standard deviations (default 2) from the user's baseline over the 28 days before, with value, baseline and z-score per metric, plus the current baselines. flags give the metric and direction; patterns like hrvDropWithRespiratoryRateRise mark combinations often seen with strain or illness. Present them as worth watching, not as a diagnosis."
+            },
+            {
+                name: "Get Event Correlations",
+                method: "GET",
+                path: "/v1/data/correlations?event=EVENT&metric=METRIC&days=N",
+                requiredScope: "stats:read",
+                description: "Also needs events:read. Compares nights with the event against nights without it over the last N days (default 30), and splits the nights with it by how long before sleep it happened (under2h, between2and4h, over4h). Per group and metric (totalSleepHours, deepHours, remHours, averageHRV, restingHeartRate, awakeningCount, or only metric): nights, mean, standard deviation, difference from nights without the event, Cohen's d, p-value and a confidence of insufficient, low, medium or high. Quote these instead of estimating, and do not present insufficient or low results as findings."
             },
             {
                 name: "Get Behavior Events",
                 method: "GET",
-                path: "/v1/data/events?days=N",
-                description: "Returns behavior logs (caffeine intake, workouts, dinner timing, etc.) for the last N days."
+                path: "/v1/data/events?days=N&name=EVENT",
+                requiredScope: "events:read",
+                description: "Returns behavior logs (caffeine intake, workouts, dinner timing, etc.) for the last N days. Pass name (case-insensitive, e.g. name=caffeine) to return only that event."
             },
             {
                 name: "Get Agent Instructions",
                 method: "GET",
                 path: "/v1/agent/instructions",
+                requiredScope: null,
                 description: "Returns these instructions (this endpoint)."
             }
         ],
@@ -83,19 +125,22 @@ export async function handleGetInstructions(request: Request, env: Env, _config:
                 workoutMinutes: "Total exercise duration that day",
                 stageDurations: "Time spent in each sleep stage (deep, core, REM, awake) in hours",
                 segments: "Individual sleep stage segments with start/end timestamps",
-                events: "Behavior logs like caffeine, dinner, workouts with timestamps and minutesBeforeMainSleepStart"
+                events: "Behavior logs like caffeine, dinner, workouts with timestamps and minutesBeforeMainSleepStart",
+                anomalies: "Metrics flagged against the user's 28-day rolling baseline (zThreshold, flags, patterns)"
             }
         },
         timezoneHandling: {
             important: true,
-            description: "All timestamps (dayStartISO, timestampISO, mainSleepStartISO, etc.) are in UTC. The 'date' key on each day is derived from the UTC representation of the user's local midnight, which may be one calendar day behind the user's actual local date. When presenting dates to the user, always convert UTC timestamps to local time. For example, date '2026-02-28' with dayStartISO '2026-02-28T18:30:00.000Z' means the actual local date is 2026-03-01 (UTC+5:30)."
+            description: "All timestamps (dayStartISO, timestampISO, mainSleepStartISO, etc.) are in UTC. Days that include a 'timeZone' are keyed by their local calendar date in that zone. Days without one were synced by an older app and keyed by the UTC representation of the user's local midnight, which may be one calendar day behind the actual local date: for example, date '2026-02-28' with dayStartISO '2026-02-28T18:30:00.000Z' means the local date is 2026-03-01 (UTC+5:30). Pass tz (IANA zone or UTC offset, e.g. tz=Asia/Kolkata) to the last-N-days endpoints so 'today' matches the user's calendar.",
+            queryParameter: "tz"
         },
         responseGuidelines: [
             "Use plain language, not technical jargon",
             "Highlight notable patterns (e.g., 'You got more deep sleep on days you worked out')",
             "Compare to general healthy ranges when relevant (e.g., 7-9 hours total, 1-2 hours deep sleep)",
             "If HRV data is available, note that higher HRV generally indicates better recovery",
-            "Always mention if data seems incomplete or missing for requested dates"
+            "Always mention if data seems incomplete or missing for requested dates",
+            "If a request returns 403, the key was not granted that scope — tell the user rather than retrying"
         ]
     });
 }
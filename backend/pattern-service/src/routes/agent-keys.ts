@@ -1,88 +1,139 @@
 import type { Env, ServiceConfig } from "../config";
-import { generateDEK, wrapDEK } from "../crypto";
-import { generateApiKey, registerApiKey, revokeApiKey, findApiKeyByInstallId } from "../auth/agent-auth";
-import { verifySignedToken } from "../auth/jwt";
-import { errorResponse, jsonResponse } from "../util/http";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../crypto";
+import {
+    ALL_AGENT_SCOPES,
+    DEFAULT_AGENT_KEY_LABEL,
+    generateApiKey,
+    listApiKeys,
+    readInstallRecord,
+    registerApiKey,
+    revokeAllApiKeys,
+    revokeApiKeyById
+} from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { agentRegisterRequestSchema } from "../schema/agent";
+import {
+    DEFAULT_AUDIT_PAGE_SIZE,
+    MAX_AUDIT_PAGE_SIZE,
+    deleteAuditEntries,
+    readAuditEntries
+} from "../services/audit-log";
+import { deleteBaselines } from "../services/baselines";
+import { deleteExperiments } from "../services/experiments";
+import { deleteInstallProfile } from "../services/profile";
+import { deleteRollups } from "../services/rollups";
+import { deleteSeries } from "../services/series";
+import { errorResponse, jsonResponse, parseOptionalJSON } from "../util/http";
 
 /**
  * POST /v1/agent/register
  *
- * Called by the iOS app to create or regenerate an API key.
+ * Called by the iOS app to create an additional API key for this install.
+ * Existing keys stay valid; revoke them individually via DELETE /v1/agent/keys/:keyId.
  * Auth: existing JWT (same as pattern analysis).
- * Returns the API key and a connection code for easy agent pairing.
+ * Body (optional): `{ "label": "Coach bot", "scopes": ["stats:read", ...] }` —
+ * omitted scopes mean every scope.
+ * Returns the API key, its id, label and scopes, and a connection code for easy agent pairing.
  */
 export async function handleAgentRegister(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    const bearer = request.headers.get("Authorization");
-    if (!bearer?.startsWith("Bearer ")) {
-        return errorResponse(401, "Missing bearer token");
-    }
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+    const { installId } = auth;
 
-    const token = bearer.replace("Bearer ", "").trim();
-    let installId: string;
+    let body: unknown;
     try {
-        const claims = await verifySignedToken(config.jwtSigningSecret, token);
-        if (claims.typ !== "access") {
-            return errorResponse(401, "Invalid token type");
-        }
-        installId = claims.sub;
+        body = await parseOptionalJSON(request);
     } catch (error) {
-        return errorResponse(401, "Invalid token", String(error));
+        return errorResponse(400, "Invalid request body", String(error));
     }
 
-    // Check if there's already an API key for this install — if so, revoke it first
-    const existingKey = await findApiKeyByInstallId(installId, env);
-    if (existingKey) {
-        await revokeApiKey(existingKey, env);
+    const parsed = agentRegisterRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+        return errorResponse(400, "Invalid register payload", parsed.error.flatten());
     }
 
-    // Generate DEK and API key
-    const dekRaw = await generateDEK();
-    const wrappedDek = await wrapDEK(dekRaw, config.encryptionKek);
+    const scopes = [...new Set(parsed.data.scopes ?? ALL_AGENT_SCOPES)];
+    const label = parsed.data.label ?? DEFAULT_AGENT_KEY_LABEL;
+
+    // Reuse the install's DEK if agent access was already enabled, so every key reads the same data
+    const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+    const dek = installRecord ?? await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
     const apiKey = generateApiKey();
 
     // Store in KV
-    await registerApiKey(apiKey, installId, wrappedDek, env);
+    const record = await registerApiKey(apiKey, installId, dek, { label, scopes }, config.agentKeyHashSecret, env);
 
     // Build the connection code for easy paste into agent
     const baseUrl = new URL(request.url).origin;
     const connectionCode = `sleeplab://connect/${apiKey}@${baseUrl}`;
 
     return jsonResponse(200, {
+        keyId: record.keyId,
+        label,
         apiKey,
-        connectionCode
+        connectionCode,
+        scopes
     });
 }
 
 /**
- * DELETE /v1/agent/revoke
+ * GET /v1/agent/keys
  *
- * Revokes the API key and deletes ALL synced data for this install.
+ * Lists the install's active API keys (never the secrets themselves).
  * Auth: existing JWT.
  */
-export async function handleAgentRevoke(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    const bearer = request.headers.get("Authorization");
-    if (!bearer?.startsWith("Bearer ")) {
-        return errorResponse(401, "Missing bearer token");
-    }
+export async function handleListAgentKeys(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
 
-    const token = bearer.replace("Bearer ", "").trim();
-    let installId: string;
-    try {
-        const claims = await verifySignedToken(config.jwtSigningSecret, token);
-        if (claims.typ !== "access") {
-            return errorResponse(401, "Invalid token type");
-        }
-        installId = claims.sub;
-    } catch (error) {
-        return errorResponse(401, "Invalid token", String(error));
-    }
+    const keys = await listApiKeys(auth.installId, config.agentKeyHashSecret, env);
+
+    return jsonResponse(200, {
+        keys,
+        count: keys.length
+    });
+}
 
-    // Find and revoke the API key
-    const existingKey = await findApiKeyByInstallId(installId, env);
-    if (existingKey) {
-        await revokeApiKey(existingKey, env);
+/**
+ * DELETE /v1/agent/keys/:keyId
+ *
+ * Revokes a single API key. Synced data and the other keys are untouched.
+ * Auth: existing JWT.
+ */
+export async function handleRevokeAgentKey(
+    request: Request,
+    env: Env,
+    config: ServiceConfig,
+    keyId: string
+): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    const revoked = await revokeApiKeyById(auth.installId, keyId, config.agentKeyHashSecret, env);
+    if (!revoked) {
+        return errorResponse(404, "No API key with this id for this install");
     }
 
+    return jsonResponse(200, {
+        revoked: true,
+        keyId
+    });
+}
+
+/**
+ * DELETE /v1/agent/revoke
+ *
+ * Revokes every API key and deletes ALL synced data for this install.
+ * Auth: existing JWT.
+ */
+export async function handleAgentRevoke(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+    const { installId } = auth;
+
+    // Revoke all API keys along with the install's DEK
+    const revokedKeys = await revokeAllApiKeys(installId, config.agentKeyHashSecret, env);
+
     // Delete all synced data for this install from D1
     await env.SLEEP_DATA.prepare("DELETE FROM sleep_days WHERE install_id = ?")
         .bind(installId)
@@ -90,9 +141,52 @@ export async function handleAgentRevoke(request: Request, env: Env, config: Serv
     await env.SLEEP_DATA.prepare("DELETE FROM behavior_events WHERE install_id = ?")
         .bind(installId)
         .run();
+    await deleteAuditEntries(env, installId);
+    await deleteRollups(env, installId);
+    await deleteSeries(env, installId);
+    await deleteBaselines(env, installId);
+    await deleteInstallProfile(env, installId);
+    await deleteExperiments(env, installId);
 
     return jsonResponse(200, {
         revoked: true,
-        installId
+        installId,
+        revokedKeys
+    });
+}
+
+/**
+ * GET /v1/agent/audit?limit=N&before=CURSOR
+ *
+ * Lists what the install's agent keys have read, newest first, so the app can
+ * show e.g. "your agent read 14 days of sleep data at 03:12".
+ * Page further back by passing the response's `nextBefore` as `before`.
+ * Auth: existing JWT.
+ */
+export async function handleGetAgentAudit(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    const url = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || String(DEFAULT_AUDIT_PAGE_SIZE), 10) || DEFAULT_AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE);
+    const before = url.searchParams.get("before") ?? undefined;
+
+    if (before !== undefined && Number.isNaN(Date.parse(before.split(",")[0]))) {
+        return errorResponse(400, "'before' must be a previous page's nextBefore or an ISO 8601 timestamp");
+    }
+
+    // Entries are encrypted with the install's DEK; without one nothing was ever logged
+    const installRecord = await readInstallRecord(auth.installId, config.agentKeyHashSecret, env);
+    if (!installRecord) {
+        return jsonResponse(200, { entries: [], count: 0, nextBefore: null });
+    }
+
+    const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+    const { entries, nextBefore } = await readAuditEntries(env, dek, auth.installId, { limit, before });
+
+    return jsonResponse(200, {
+        entries,
+        count: entries.length,
+        nextBefore
     });
 }
@@ -1,9 +1,18 @@
 import type { Env, ServiceConfig } from "../config";
-import { patternAnalysisRequestSchema } from "../schema/request";
+import { readInstallRecord } from "../auth/agent-auth";
+import { unwrapVersionedDEK } from "../crypto";
+import { patternAnalysisRequestSchema, type PatternAnalysisRequest } from "../schema/request";
 import { errorResponse, jsonResponse, parseJSON } from "../util/http";
+import { localDateKey } from "../util/time-zone";
+import { readCorrelationNights, type EventCorrelation } from "../services/correlations";
 import { generatePatternInsights } from "../services/gemini";
+import { eventEvidence } from "../services/prompt";
+import { retentionCutoff } from "../services/retention";
 
-export async function handleAnalyze(request: Request, _env: Env, config: ServiceConfig): Promise<Response> {
+/** Stored nights the event evidence is computed over, as `/v1/data/correlations` does by default. */
+const EVIDENCE_WINDOW_DAYS = 30;
+
+export async function handleAnalyze(request: Request, env: Env, config: ServiceConfig, installId: string): Promise<Response> {
   let payload: unknown;
 
   try {
@@ -17,7 +26,30 @@ export async function handleAnalyze(request: Request, _env: Env, config: Service
     return errorResponse(400, "Invalid analysis payload", parsed.error.flatten());
   }
 
-  const aiResponse = await generatePatternInsights(parsed.data, config);
+  const evidence = await storedEventEvidence(env, config, installId, parsed.data);
+  const aiResponse = await generatePatternInsights(parsed.data, config, evidence);
 
   return jsonResponse(200, aiResponse);
 }
+
+/**
+ * Event correlations over the install's synced nights of the last
+ * EVIDENCE_WINDOW_DAYS days. Null without agent access (no DEK to read them
+ * with) or without synced nights, so the prompt leaves the evidence out.
+ */
+async function storedEventEvidence(
+  env: Env,
+  config: ServiceConfig,
+  installId: string,
+  payload: PatternAnalysisRequest
+): Promise<EventCorrelation[] | null> {
+  const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+  if (!installRecord) {
+    return null;
+  }
+
+  const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+  const now = Date.now();
+  const nights = await readCorrelationNights(env, dek, installId, retentionCutoff(EVIDENCE_WINDOW_DAYS, now), localDateKey(now));
+  return nights.length === 0 ? null : eventEvidence(payload, nights);
+}
@@ -0,0 +1,248 @@
+import type { Env } from "../config";
+import { createChallengeToken, verifyChallengeToken } from "../auth/challenge";
+import { epochToIso, issueSignedToken, type SigningKeys } from "../auth/jwt";
+import { bindInstallKey, rotateInstallKey } from "../auth/install-keys";
+import type { NonceStore } from "../auth/nonce-store";
+import { issueRefreshToken, revokeInstallRefreshTokens, revokeRefreshToken, rotateRefreshToken } from "../auth/refresh";
+import { verifyEd25519Signature } from "../auth/signature";
+import { challengeRequestSchema, exchangeRequestSchema, keyRotationRequestSchema, refreshRequestSchema } from "../schema/auth";
+import { errorResponse, jsonResponse, parseJSON } from "../util/http";
+
+const ACCESS_TTL_SECONDS = 15 * 60;
+
+/**
+ * POST /v1/auth/challenge
+ *
+ * Registers the install's public key and returns a short-lived challenge to sign.
+ * An install id that is already bound to a different key is refused; changing
+ * keys goes through POST /v1/auth/rotate-key instead.
+ */
+export async function handleChallenge(request: Request, env: Env, challengeKeys: SigningKeys): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await parseJSON(request);
+  } catch (error) {
+    return errorResponse(400, "Invalid request body", String(error));
+  }
+
+  const parsed = challengeRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid challenge payload", parsed.error.flatten());
+  }
+
+  const installId = parsed.data.installId ?? crypto.randomUUID();
+  const { publicKey } = parsed.data;
+
+  const bound = await bindInstallKey(installId, publicKey, env);
+  if (!bound) {
+    return errorResponse(409, "Install is registered with a different key", "Use /v1/auth/rotate-key to change keys");
+  }
+
+  const challenge = await createChallengeToken(challengeKeys, installId, publicKey);
+
+  return jsonResponse(200, {
+    installId,
+    challengeToken: challenge.token,
+    expiresAt: epochToIso(challenge.expiresAtEpoch)
+  });
+}
+
+/**
+ * POST /v1/auth/exchange
+ *
+ * Trades a signed challenge for an access token and a refresh token.
+ * Each challenge can be exchanged once; its nonce is spent in `nonces`.
+ */
+export async function handleExchange(
+  request: Request,
+  env: Env,
+  challengeKeys: SigningKeys,
+  jwtKeys: SigningKeys,
+  nonces: NonceStore
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await parseJSON(request);
+  } catch (error) {
+    return errorResponse(400, "Invalid request body", String(error));
+  }
+
+  const parsed = exchangeRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid exchange payload", parsed.error.flatten());
+  }
+
+  const payload = parsed.data;
+
+  let challengeClaims;
+  try {
+    challengeClaims = await verifyChallengeToken(challengeKeys, payload.challengeToken);
+  } catch (error) {
+    return errorResponse(401, "Invalid challenge token", String(error));
+  }
+
+  if (challengeClaims.installId !== payload.installId || challengeClaims.publicKey !== payload.publicKey) {
+    return errorResponse(401, "Challenge payload mismatch");
+  }
+
+  const storedKey = await env.INSTALL_KEYS.get(payload.installId);
+  if (!storedKey || storedKey !== payload.publicKey) {
+    return errorResponse(401, "Unrecognized install key");
+  }
+
+  const validSignature = await verifyEd25519Signature(payload.publicKey, payload.challengeToken, payload.signature);
+  if (!validSignature) {
+    return errorResponse(401, "Invalid signature");
+  }
+
+  if (!(await nonces.consume(challengeClaims.nonce, challengeClaims.expiresAtEpoch))) {
+    return errorResponse(401, "Challenge already used");
+  }
+
+  const access = await issueAccessToken(jwtKeys, payload.installId);
+  const refresh = await issueRefreshToken(jwtKeys, payload.installId, env);
+
+  return jsonResponse(200, {
+    accessToken: access.token,
+    expiresAt: epochToIso(access.expiresAtEpoch),
+    refreshToken: refresh.token,
+    refreshExpiresAt: epochToIso(refresh.expiresAtEpoch)
+  });
+}
+
+/**
+ * POST /v1/auth/refresh
+ *
+ * Trades a refresh token for a new access token and a rotated refresh token.
+ * Presenting an already-rotated refresh token revokes the whole session.
+ */
+export async function handleRefresh(request: Request, env: Env, jwtKeys: SigningKeys): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await parseJSON(request);
+  } catch (error) {
+    return errorResponse(400, "Invalid request body", String(error));
+  }
+
+  const parsed = refreshRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid refresh payload", parsed.error.flatten());
+  }
+
+  let refresh;
+  try {
+    refresh = await rotateRefreshToken(jwtKeys, parsed.data.refreshToken, env);
+  } catch (error) {
+    return errorResponse(401, "Invalid refresh token", String(error));
+  }
+
+  const access = await issueAccessToken(jwtKeys, refresh.installId);
+
+  return jsonResponse(200, {
+    accessToken: access.token,
+    expiresAt: epochToIso(access.expiresAtEpoch),
+    refreshToken: refresh.token,
+    refreshExpiresAt: epochToIso(refresh.expiresAtEpoch)
+  });
+}
+
+/**
+ * POST /v1/auth/logout
+ *
+ * Revokes the session the refresh token belongs to. Outstanding access tokens
+ * stay valid until they expire (at most 15 minutes).
+ */
+export async function handleLogout(request: Request, env: Env, jwtKeys: SigningKeys): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await parseJSON(request);
+  } catch (error) {
+    return errorResponse(400, "Invalid request body", String(error));
+  }
+
+  const parsed = refreshRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid logout payload", parsed.error.flatten());
+  }
+
+  try {
+    await revokeRefreshToken(jwtKeys, parsed.data.refreshToken, env);
+  } catch (error) {
+    return errorResponse(401, "Invalid refresh token", String(error));
+  }
+
+  return jsonResponse(200, {
+    revoked: true
+  });
+}
+
+/**
+ * POST /v1/auth/rotate-key
+ *
+ * Replaces the install's public key. The caller first requests a challenge for
+ * its current key, then signs `keyRotationMessage(challengeToken, newPublicKey)`
+ * with both the current and the new key. The challenge is spent like an exchange.
+ * A successful rotation revokes the install's refresh tokens; the app exchanges
+ * again with the new key.
+ */
+export async function handleRotateKey(
+  request: Request,
+  env: Env,
+  challengeKeys: SigningKeys,
+  nonces: NonceStore
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await parseJSON(request);
+  } catch (error) {
+    return errorResponse(400, "Invalid request body", String(error));
+  }
+
+  const parsed = keyRotationRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid key rotation payload", parsed.error.flatten());
+  }
+
+  const payload = parsed.data;
+
+  let challengeClaims;
+  try {
+    challengeClaims = await verifyChallengeToken(challengeKeys, payload.challengeToken);
+  } catch (error) {
+    return errorResponse(401, "Invalid challenge token", String(error));
+  }
+
+  if (challengeClaims.installId !== payload.installId || challengeClaims.publicKey !== payload.currentPublicKey) {
+    return errorResponse(401, "Challenge payload mismatch");
+  }
+
+  // Spent up front: a rejected rotation must not leave the challenge reusable either
+  if (!(await nonces.consume(challengeClaims.nonce, challengeClaims.expiresAtEpoch))) {
+    return errorResponse(401, "Challenge already used");
+  }
+
+  try {
+    await rotateInstallKey(payload, env);
+  } catch (error) {
+    return errorResponse(401, "Key rotation rejected", String(error));
+  }
+
+  // Sessions opened with the old key must not outlive it
+  await revokeInstallRefreshTokens(payload.installId, env);
+
+  return jsonResponse(200, {
+    installId: payload.installId,
+    rotated: true
+  });
+}
+
+async function issueAccessToken(jwtKeys: SigningKeys, installId: string): Promise<{ token: string; expiresAtEpoch: number }> {
+  return issueSignedToken(jwtKeys, {
+    subject: installId,
+    type: "access",
+    ttlSeconds: ACCESS_TTL_SECONDS,
+    additionalClaims: {
+      scope: "patterns:analyze"
+    }
+  });
+}
@@ -0,0 +1,121 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { sleepRangeQuerySchema } from "../schema/agent";
+import { appendAuditEntry, type AuditEntry } from "../services/audit-log";
+import { deleteDays } from "../services/day-store";
+import { deleteEvent } from "../services/event-store";
+import { errorResponse, jsonResponse } from "../util/http";
+
+type DeletionAccess = Pick<AuditEntry, "from" | "to" | "days" | "removed">;
+
+/**
+ * DELETE /v1/data/sleep/:date
+ *
+ * Deletes one stored night with its events and sample series, and takes it
+ * back out of the weekly and monthly rollups.
+ * Auth: existing JWT.
+ */
+export async function handleDeleteSleepDay(request: Request, env: Env, config: ServiceConfig, date: string): Promise<Response> {
+    return auditedDeletion(request, env, config, "DELETE /v1/data/sleep/:date", async ({ installId, dek, access }) => {
+        const removed = await deleteDays(env, dek, installId, date, date);
+        Object.assign(access, { from: date, to: date, days: removed.days, removed: counts(removed) });
+
+        if (removed.days === 0 && removed.events === 0 && removed.seriesChunks === 0) {
+            return errorResponse(404, "No data for this date");
+        }
+
+        return jsonResponse(200, { deleted: true, from: date, to: date, dates: removed.dates, removed: counts(removed) });
+    });
+}
+
+/**
+ * DELETE /v1/data/sleep/range?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Deletes every stored night in the range (inclusive), as the single-date
+ * delete does. An empty range is not an error.
+ * Auth: existing JWT.
+ */
+export async function handleDeleteSleepRange(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    return auditedDeletion(request, env, config, "DELETE /v1/data/sleep/range", async ({ installId, dek, access }) => {
+        const url = new URL(request.url);
+        const parsed = sleepRangeQuerySchema.safeParse({ from: url.searchParams.get("from"), to: url.searchParams.get("to") });
+        if (!parsed.success) {
+            return errorResponse(400, "Both 'from' and 'to' query params required in YYYY-MM-DD format");
+        }
+
+        const { from, to } = parsed.data;
+        if (from > to) {
+            return errorResponse(400, "'from' date must be before or equal to 'to' date");
+        }
+
+        const removed = await deleteDays(env, dek, installId, from, to);
+        Object.assign(access, { from, to, days: removed.days, removed: counts(removed) });
+
+        return jsonResponse(200, { deleted: removed.days > 0, from, to, dates: removed.dates, removed: counts(removed) });
+    });
+}
+
+/**
+ * DELETE /v1/data/events/:date/:index
+ *
+ * Deletes one behavior event, identified by its date and its position among
+ * that day's events as GET /v1/data/events lists them (from 0). The night
+ * itself is kept. Returns the removed event.
+ * Auth: existing JWT.
+ */
+export async function handleDeleteEvent(request: Request, env: Env, config: ServiceConfig, date: string, index: number): Promise<Response> {
+    return auditedDeletion(request, env, config, "DELETE /v1/data/events/:date/:index", async ({ installId, dek, access }) => {
+        const event = await deleteEvent(env, dek, installId, date, index);
+        const removed = { days: 0, events: event ? 1 : 0, seriesChunks: 0 };
+        Object.assign(access, { from: date, to: date, days: 0, removed });
+
+        if (!event) {
+            return errorResponse(404, "No event at this index for this date");
+        }
+
+        return jsonResponse(200, { deleted: true, date, index, event, removed });
+    });
+}
+
+/**
+ * Authenticate an app deletion, run `handler`, and log what it removed to the
+ * install's audit log next to the agent reads, with a null key.
+ */
+async function auditedDeletion(
+    request: Request,
+    env: Env,
+    config: ServiceConfig,
+    route: string,
+    handler: (context: { installId: string; dek: CryptoKey; access: DeletionAccess }) => Promise<Response>
+): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+    const { installId } = auth;
+
+    // Without an install record nothing was ever synced, and there is no DEK to log with
+    const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+    if (!installRecord) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+    const access: DeletionAccess = {};
+    const response = await handler({ installId, dek, access });
+
+    await appendAuditEntry(env, dek, installId, {
+        keyId: null,
+        keyLabel: null,
+        route,
+        status: response.status,
+        at: new Date().toISOString(),
+        ...access
+    });
+
+    return response;
+}
+
+function counts(removed: { days: number; events: number; seriesChunks: number }): NonNullable<AuditEntry["removed"]> {
+    return { days: removed.days, events: removed.events, seriesChunks: removed.seriesChunks };
+}
@@ -0,0 +1,146 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { experimentCreateSchema, experimentUpdateSchema } from "../schema/agent";
+import {
+    compareExperiment,
+    createExperiment,
+    deleteExperiment,
+    listExperiments,
+    MAX_EXPERIMENTS,
+    readExperiment,
+    updateExperiment
+} from "../services/experiments";
+import { errorResponse, jsonResponse, parseJSON } from "../util/http";
+
+/**
+ * POST /v1/experiments
+ *
+ * Body: `{ "hypothesis": "…", "metric": "deepHours", "design": {…}, "status": "running" }`, where
+ * `design` is `{ "type": "ranges", "baseline": { "from", "to" }, "intervention": { "from", "to" } }`
+ * or `{ "type": "event", "event": "Coffee", "from", "to" }`.
+ * Auth: existing JWT.
+ */
+export async function handleCreateExperiment(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    return withInstallDEK(request, env, config, async (installId, dek) => {
+        let body: unknown;
+        try {
+            body = await parseJSON(request);
+        } catch (error) {
+            return errorResponse(400, "Invalid request body", String(error));
+        }
+
+        const parsed = experimentCreateSchema.safeParse(body);
+        if (!parsed.success) {
+            return errorResponse(400, "Invalid experiment", parsed.error.flatten());
+        }
+
+        const experiment = await createExperiment(env, dek, installId, parsed.data);
+        if (!experiment) {
+            return errorResponse(409, "Too many experiments; delete finished ones first", { maxExperiments: MAX_EXPERIMENTS });
+        }
+        return jsonResponse(201, experiment);
+    });
+}
+
+/**
+ * GET /v1/experiments
+ *
+ * Lists the install's experiments, newest first.
+ * Auth: existing JWT.
+ */
+export async function handleListExperiments(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    return withInstallDEK(request, env, config, async (installId, dek) => {
+        const experiments = await listExperiments(env, dek, installId);
+        return jsonResponse(200, { experiments, count: experiments.length });
+    });
+}
+
+/**
+ * GET /v1/experiments/:id
+ * Auth: existing JWT.
+ */
+export async function handleGetExperiment(request: Request, env: Env, config: ServiceConfig, id: string): Promise<Response> {
+    return withInstallDEK(request, env, config, async (installId, dek) => {
+        const experiment = await readExperiment(env, dek, installId, id);
+        return experiment ? jsonResponse(200, experiment) : errorResponse(404, "Experiment not found");
+    });
+}
+
+/**
+ * PATCH /v1/experiments/:id
+ *
+ * Body: any of `hypothesis`, `metric`, `design` and `status`.
+ * Auth: existing JWT.
+ */
+export async function handleUpdateExperiment(request: Request, env: Env, config: ServiceConfig, id: string): Promise<Response> {
+    return withInstallDEK(request, env, config, async (installId, dek) => {
+        let body: unknown;
+        try {
+            body = await parseJSON(request);
+        } catch (error) {
+            return errorResponse(400, "Invalid request body", String(error));
+        }
+
+        const parsed = experimentUpdateSchema.safeParse(body);
+        if (!parsed.success) {
+            return errorResponse(400, "Invalid experiment update", parsed.error.flatten());
+        }
+
+        const experiment = await updateExperiment(env, dek, installId, id, parsed.data);
+        return experiment ? jsonResponse(200, experiment) : errorResponse(404, "Experiment not found");
+    });
+}
+
+/**
+ * DELETE /v1/experiments/:id
+ *
+ * Deletes the experiment only; the nights it compared are kept.
+ * Auth: existing JWT.
+ */
+export async function handleDeleteExperiment(request: Request, env: Env, config: ServiceConfig, id: string): Promise<Response> {
+    return withInstallDEK(request, env, config, async (installId) => {
+        const deleted = await deleteExperiment(env, installId, id);
+        return deleted ? jsonResponse(200, { deleted: true, id }) : errorResponse(404, "Experiment not found");
+    });
+}
+
+/**
+ * GET /v1/experiments/:id/results
+ *
+ * Compares intervention nights with baseline nights on the experiment's
+ * metric: group means, mean difference, Cohen's d, a 95% bootstrap interval
+ * for the difference and a permutation-test p-value. Deterministic for the
+ * same stored nights.
+ * Auth: existing JWT.
+ */
+export async function handleGetExperimentResults(request: Request, env: Env, config: ServiceConfig, id: string): Promise<Response> {
+    return withInstallDEK(request, env, config, async (installId, dek) => {
+        const experiment = await readExperiment(env, dek, installId, id);
+        if (!experiment) {
+            return errorResponse(404, "Experiment not found");
+        }
+
+        const comparison = await compareExperiment(env, dek, installId, experiment);
+        return jsonResponse(200, { experiment, ...comparison });
+    });
+}
+
+/** Experiments are encrypted with the install's DEK, which only exists once agent access is enabled. */
+async function withInstallDEK(
+    request: Request,
+    env: Env,
+    config: ServiceConfig,
+    handler: (installId: string, dek: CryptoKey) => Promise<Response>
+): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    const installRecord = await readInstallRecord(auth.installId, config.agentKeyHashSecret, env);
+    if (!installRecord) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    return handler(auth.installId, await unwrapVersionedDEK(installRecord, config.encryptionKeks));
+}
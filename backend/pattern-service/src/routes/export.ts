@@ -0,0 +1,46 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { exportQuerySchema } from "../schema/agent";
+import { exportContentType, exportDays, exportFileName, exportStream } from "../services/export";
+import { errorResponse, streamResponse } from "../util/http";
+
+/**
+ * GET /v1/data/export?format=json|ndjson|csv&file=nights|segments|events&from=&to=
+ *
+ * Streams every stored night in the range, decrypted, with its segments and
+ * events. CSV comes as one file per `file`: nights (one row each, with the
+ * nightly metrics and stage hours), segments, or events.
+ * Auth: existing JWT.
+ */
+export async function handleExport(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    const url = new URL(request.url);
+    const parsed = exportQuerySchema.safeParse({
+        format: url.searchParams.get("format") ?? undefined,
+        file: url.searchParams.get("file") ?? undefined,
+        from: url.searchParams.get("from") ?? undefined,
+        to: url.searchParams.get("to") ?? undefined
+    });
+    if (!parsed.success) {
+        return errorResponse(400, "Invalid export query", parsed.error.flatten());
+    }
+
+    const installRecord = await readInstallRecord(auth.installId, config.agentKeyHashSecret, env);
+    if (!installRecord) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+    const range = { from: parsed.data.from ?? "0000-01-01", to: parsed.data.to ?? "9999-12-31" };
+    const days = exportDays(env, dek, auth.installId, range.from, range.to);
+
+    return streamResponse(200, exportStream(days, parsed.data, range), {
+        "Content-Type": exportContentType(parsed.data),
+        "Content-Disposition": `attachment; filename="${exportFileName(parsed.data, range)}"`,
+        "Cache-Control": "no-store"
+    });
+}
@@ -0,0 +1,125 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord, retentionDaysOf } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { importQuerySchema, syncDaySchema, type SyncDay } from "../schema/agent";
+import { dayKeyFor, readSyncManifest, storeSyncDays, type DaySyncResult, type DaySyncStatus } from "../services/day-store";
+import { buildImportedDays, parseImport, reportInvalid, reportSkipped } from "../services/import";
+import { purgeExpiredDays, retentionCutoff } from "../services/retention";
+import { foldPendingDays } from "../services/rollups";
+import { errorResponse, jsonResponse } from "../util/http";
+import { localDateKey } from "../util/time-zone";
+
+/** Largest import body accepted; export the sleep-analysis records only for longer histories. */
+const MAX_IMPORT_BYTES = 8 * 1024 * 1024;
+
+/** Most nights stored by one import. */
+const MAX_IMPORT_NIGHTS = 400;
+
+/** Nights per storeSyncDays batch, the same cap as a sync request. */
+const IMPORT_BATCH_DAYS = 30;
+
+/**
+ * POST /v1/data/import?format=apple-health|csv
+ *
+ * Imports historical nights from an Apple Health `export.xml` (its
+ * sleep-analysis records) or a CSV of stage, startISO and endISO rows.
+ * Records are grouped into days the way the app groups HealthKit samples,
+ * validated and stored through the same path as sync. Nights already stored
+ * or older than the retention window are skipped rather than overwritten;
+ * skipped and invalid records are reported with their line.
+ * Auth: existing JWT.
+ */
+export async function handleImport(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+    const { installId } = auth;
+
+    const url = new URL(request.url);
+    const query = importQuerySchema.safeParse({ format: url.searchParams.get("format") ?? undefined });
+    if (!query.success) {
+        return errorResponse(400, "Invalid import query", query.error.flatten());
+    }
+
+    const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+    if (!installRecord || installRecord.keys.length === 0) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    if (Number(request.headers.get("Content-Length") ?? 0) > MAX_IMPORT_BYTES) {
+        return errorResponse(413, `Import body exceeds ${MAX_IMPORT_BYTES} bytes`);
+    }
+    const text = await request.text();
+    if (new TextEncoder().encode(text).byteLength > MAX_IMPORT_BYTES) {
+        return errorResponse(413, `Import body exceeds ${MAX_IMPORT_BYTES} bytes`);
+    }
+
+    const parsed = parseImport(query.data.format, text);
+    const nights = buildImportedDays(parsed.segments);
+    if (nights.length > MAX_IMPORT_NIGHTS) {
+        return errorResponse(400, "Too many nights in one import", { nights: nights.length, max: MAX_IMPORT_NIGHTS });
+    }
+
+    // Leave nights the app (or an earlier import) already stored alone, including ones still under their UTC date
+    const stored = new Map<string, string | null>();
+    if (nights.length > 0) {
+        const keys = nights.flatMap((night) => [dayKeyFor(night), localDateKey(night.dayStartISO)]).sort();
+        for (const version of await readSyncManifest(env, installId, keys[0], keys[keys.length - 1])) {
+            stored.set(version.date, version.timeZone);
+        }
+    }
+
+    // A night purged after import would be counted in the rollups again on the next one
+    const cutoff = retentionCutoff(retentionDaysOf(installRecord));
+    const days: SyncDay[] = [];
+    for (const night of nights) {
+        const date = dayKeyFor(night);
+        const legacyDate = localDateKey(night.dayStartISO);
+        if (date < cutoff) {
+            reportSkipped(parsed, { date, reason: "Older than the retention window" });
+            continue;
+        }
+        if (stored.has(date) || (legacyDate !== date && stored.get(legacyDate) === null)) {
+            reportSkipped(parsed, { date, reason: "Night already stored" });
+            continue;
+        }
+
+        const day = syncDaySchema.safeParse(night);
+        if (!day.success) {
+            reportInvalid(parsed, { date, reason: day.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") });
+            continue;
+        }
+        days.push(day.data);
+    }
+
+    const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+    const now = new Date().toISOString();
+    const results: DaySyncResult[] = [];
+    for (let index = 0; index < days.length; index += IMPORT_BATCH_DAYS) {
+        results.push(...await storeSyncDays(env, dek, installId, days.slice(index, index + IMPORT_BATCH_DAYS), now));
+    }
+
+    if (days.length > 0) {
+        await foldPendingDays(env, dek, installId);
+        await purgeExpiredDays(env, dek, installId, retentionDaysOf(installRecord));
+    }
+
+    const summary: Record<DaySyncStatus, number> = { inserted: 0, updated: 0, unchanged: 0, conflict: 0 };
+    for (const result of results) {
+        summary[result.status] += 1;
+    }
+
+    return jsonResponse(200, {
+        format: query.data.format,
+        records: parsed.segments.length,
+        nights: nights.length,
+        imported: days.length,
+        syncedAt: now,
+        summary,
+        results,
+        skippedCount: parsed.skippedCount,
+        skipped: parsed.skipped,
+        invalidCount: parsed.invalidCount,
+        invalid: parsed.invalid
+    });
+}
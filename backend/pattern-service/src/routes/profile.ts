@@ -0,0 +1,79 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { scoreProfileUpdateSchema } from "../schema/agent";
+import { readInstallProfile, writeInstallProfile } from "../services/profile";
+import { DEFAULT_SCORE_PROFILE, mergeScoreProfile, type ScoreProfile } from "../services/sleep-score";
+import { errorResponse, jsonResponse, parseJSON } from "../util/http";
+
+/**
+ * GET /v1/profile/score-weights
+ *
+ * Returns the weights and target ranges the install's sleep score uses,
+ * the defaults until the app changes them.
+ * Auth: existing JWT.
+ */
+export async function handleGetScoreWeights(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    const dek = await installDEK(auth.installId, env, config);
+    if (!dek) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    const profile = await readInstallProfile(env, dek, auth.installId);
+    return jsonResponse(200, scoreProfileResponse(profile.score));
+}
+
+/**
+ * PUT /v1/profile/score-weights
+ *
+ * Body: `{ "weights": { "deepSleep": 30 }, "targets": { "duration": { "min": 7.5, "max": 9, "tolerance": 2 } } }`.
+ * Components left out keep their current weight and target; at least one
+ * weight must stay above 0. Returns the resulting profile.
+ * Auth: existing JWT.
+ */
+export async function handlePutScoreWeights(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    let body: unknown;
+    try {
+        body = await parseJSON(request);
+    } catch (error) {
+        return errorResponse(400, "Invalid request body", String(error));
+    }
+
+    const parsed = scoreProfileUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+        return errorResponse(400, "Invalid score profile", parsed.error.flatten());
+    }
+
+    const dek = await installDEK(auth.installId, env, config);
+    if (!dek) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    const profile = await readInstallProfile(env, dek, auth.installId);
+    let score: ScoreProfile;
+    try {
+        score = mergeScoreProfile(profile.score ?? DEFAULT_SCORE_PROFILE, parsed.data);
+    } catch (error) {
+        return errorResponse(400, "Invalid score profile", String(error));
+    }
+
+    await writeInstallProfile(env, dek, auth.installId, { ...profile, score });
+    return jsonResponse(200, scoreProfileResponse(score));
+}
+
+/** The profile is encrypted with the install's DEK, which only exists once agent access is enabled. */
+async function installDEK(installId: string, env: Env, config: ServiceConfig): Promise<CryptoKey | null> {
+    const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+    return installRecord ? unwrapVersionedDEK(installRecord, config.encryptionKeks) : null;
+}
+
+function scoreProfileResponse(score: ScoreProfile | undefined) {
+    return { ...(score ?? DEFAULT_SCORE_PROFILE), isDefault: score === undefined };
+}
@@ -0,0 +1,69 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord, retentionDaysOf, setRetentionDays } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { retentionUpdateRequestSchema } from "../schema/agent";
+import { purgeExpiredDays } from "../services/retention";
+import { errorResponse, jsonResponse, parseJSON } from "../util/http";
+
+/**
+ * GET /v1/data/retention
+ *
+ * Returns how many days of synced history the server keeps for this install.
+ * Auth: existing JWT.
+ */
+export async function handleGetRetention(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    const installRecord = await readInstallRecord(auth.installId, config.agentKeyHashSecret, env);
+
+    return jsonResponse(200, {
+        retentionDays: retentionDaysOf(installRecord),
+        maxRetentionDays: config.maxRetentionDays
+    });
+}
+
+/**
+ * PUT /v1/data/retention
+ *
+ * Body: `{ "retentionDays": 180 }`, at most the server's maximum.
+ * Shrinking the window deletes the days that fall outside it right away;
+ * they stay counted in the weekly and monthly rollups.
+ * Auth: existing JWT.
+ */
+export async function handlePutRetention(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+
+    let body: unknown;
+    try {
+        body = await parseJSON(request);
+    } catch (error) {
+        return errorResponse(400, "Invalid request body", String(error));
+    }
+
+    const parsed = retentionUpdateRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        return errorResponse(400, "Invalid retention payload", parsed.error.flatten());
+    }
+
+    const { retentionDays } = parsed.data;
+    if (retentionDays > config.maxRetentionDays) {
+        return errorResponse(400, "Retention exceeds the server maximum", { maxRetentionDays: config.maxRetentionDays });
+    }
+
+    const installRecord = await setRetentionDays(auth.installId, retentionDays, config.agentKeyHashSecret, env);
+    if (!installRecord) {
+        return errorResponse(403, "Agent access not enabled for this install");
+    }
+
+    const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+    const purgedDays = await purgeExpiredDays(env, dek, auth.installId, retentionDays);
+
+    return jsonResponse(200, {
+        retentionDays,
+        maxRetentionDays: config.maxRetentionDays,
+        purgedDays
+    });
+}
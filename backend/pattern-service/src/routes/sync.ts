@@ -1,9 +1,12 @@
 import type { Env, ServiceConfig } from "../config";
-import { encrypt, unwrapDEK } from "../crypto";
-import { validateApiKey } from "../auth/agent-auth";
-import { dataSyncRequestSchema, type SyncDay } from "../schema/agent";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord, retentionDaysOf } from "../auth/agent-auth";
+import { authenticateInstall } from "../auth/install-auth";
+import { dataSyncRequestSchema } from "../schema/agent";
+import { readSyncManifest, storeSyncDays, type DaySyncStatus } from "../services/day-store";
+import { purgeExpiredDays } from "../services/retention";
+import { foldPendingDays } from "../services/rollups";
 import { errorResponse, jsonResponse, parseJSON } from "../util/http";
-import { verifySignedToken } from "../auth/jwt";
 
 /**
  * POST /v1/data/sync
@@ -11,39 +14,20 @@ import { verifySignedToken } from "../auth/jwt";
  * Called by the iOS app after HealthKit data load.
  * Auth: existing JWT (same as pattern analysis).
  * Encrypts each day's data with the user's DEK and upserts into D1.
+ * Days whose content hash matches the stored copy are skipped; days whose
+ * revision is not newer than the stored one are reported as conflicts and not written.
  */
 export async function handleSync(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
-    // Authenticate via JWT
-    const bearer = request.headers.get("Authorization");
-    if (!bearer?.startsWith("Bearer ")) {
-        return errorResponse(401, "Missing bearer token");
-    }
-
-    const token = bearer.replace("Bearer ", "").trim();
-    let installId: string;
-    try {
-        const claims = await verifySignedToken(config.jwtSigningSecret, token);
-        if (claims.typ !== "access") {
-            return errorResponse(401, "Invalid token type");
-        }
-        installId = claims.sub;
-    } catch (error) {
-        return errorResponse(401, "Invalid token", String(error));
-    }
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
+    const { installId } = auth;
 
-    // Check if agent access is enabled for this install (API key exists)
-    const apiKey = await env.AGENT_KEYS.get(`install:${installId}`);
-    if (!apiKey) {
+    // Check if agent access is enabled for this install (at least one API key exists)
+    const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+    if (!installRecord || installRecord.keys.length === 0) {
         return errorResponse(403, "Agent access not enabled for this install");
     }
 
-    const keyRecord = await env.AGENT_KEYS.get(apiKey);
-    if (!keyRecord) {
-        return errorResponse(403, "Agent key record not found");
-    }
-
-    const { wrappedDek } = JSON.parse(keyRecord) as { wrappedDek: string };
-
     // Parse request body
     let body: unknown;
     try {
@@ -75,64 +59,52 @@ export async function handleSync(request: Request, env: Env, config: ServiceConf
     }
 
     // Unwrap DEK
-    const dek = await unwrapDEK(wrappedDek, config.encryptionKek);
+    const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
 
-    // Encrypt and upsert each day
+    // Encrypt and upsert each day that changed
     const now = new Date().toISOString();
-    const statements: D1PreparedStatement[] = [];
+    const results = await storeSyncDays(env, dek, installId, parsed.data.days, now);
 
-    for (const day of parsed.data.days) {
-        const dateStr = day.dayStartISO.substring(0, 10); // YYYY-MM-DD
-        const dayId = `${installId}:${dateStr}`;
+    // Fold days synced before rollups existed, then drop days that fell out of the retention window
+    await foldPendingDays(env, dek, installId);
+    await purgeExpiredDays(env, dek, installId, retentionDaysOf(installRecord));
 
-        // Separate events from sleep data
-        const sleepPayload = {
-            dayLabel: day.dayLabel,
-            dayStartISO: day.dayStartISO,
-            sleep: day.sleep,
-            stageDurations: day.stageDurations,
-            segments: day.segments
-        };
-
-        const encrypted = await encrypt(JSON.stringify(sleepPayload), dek);
+    const summary: Record<DaySyncStatus, number> = { inserted: 0, updated: 0, unchanged: 0, conflict: 0 };
+    for (const result of results) {
+        summary[result.status] += 1;
+    }
 
-        statements.push(
-            env.SLEEP_DATA.prepare(
-                `INSERT OR REPLACE INTO sleep_days (id, install_id, day_date, data_enc, iv, tag, synced_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`
-            ).bind(dayId, installId, dateStr, encrypted.ciphertext, encrypted.iv, encrypted.tag, now)
-        );
+    return jsonResponse(200, {
+        synced: parsed.data.days.length,
+        syncedAt: now,
+        summary,
+        results
+    });
+}
 
-        // Store events separately
-        if (day.events.length > 0) {
-            const eventsEncrypted = await encrypt(JSON.stringify(day.events), dek);
-            const eventsId = `${installId}:${dateStr}:events`;
+/**
+ * GET /v1/data/sync/manifest?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Lists the content hash and revision the server holds for each stored day,
+ * so the app can diff locally and sync only days that changed.
+ * Auth: existing JWT.
+ */
+export async function handleSyncManifest(request: Request, env: Env, config: ServiceConfig): Promise<Response> {
+    const auth = await authenticateInstall(request, config);
+    if ("error" in auth) return auth.error;
 
-            statements.push(
-                env.SLEEP_DATA.prepare(
-                    `INSERT OR REPLACE INTO behavior_events (id, install_id, day_date, data_enc, iv, tag, synced_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`
-                ).bind(eventsId, installId, dateStr, eventsEncrypted.ciphertext, eventsEncrypted.iv, eventsEncrypted.tag, now)
-            );
-        }
-    }
+    const url = new URL(request.url);
+    const from = url.searchParams.get("from") ?? "0000-01-01";
+    const to = url.searchParams.get("to") ?? "9999-12-31";
 
-    // Execute all in a batch
-    if (statements.length > 0) {
-        await env.SLEEP_DATA.batch(statements);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+        return errorResponse(400, "'from' and 'to' must be in YYYY-MM-DD format");
     }
 
-    // Cleanup old data (older than 30 days)
-    const cutoffDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
-    await env.SLEEP_DATA.prepare("DELETE FROM sleep_days WHERE install_id = ? AND day_date < ?")
-        .bind(installId, cutoffDate)
-        .run();
-    await env.SLEEP_DATA.prepare("DELETE FROM behavior_events WHERE install_id = ? AND day_date < ?")
-        .bind(installId, cutoffDate)
-        .run();
+    const days = await readSyncManifest(env, auth.installId, from, to);
 
     return jsonResponse(200, {
-        synced: parsed.data.days.length,
-        syncedAt: now
+        days,
+        count: days.length
     });
 }
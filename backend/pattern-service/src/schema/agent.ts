@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../util/time-zone";
 
 // ── Sync request (iOS app → Worker) ───────────────────────────
 
@@ -21,6 +22,24 @@ const syncSegmentSchema = z.object({
     durationMinutes: z.number().min(0)
 });
 
+const seriesSampleSchema = z.object({
+    timestampISO: z.string().datetime(),
+    value: z.number()
+});
+
+/** Most samples accepted per metric per night: 12 hours at one per second. */
+export const MAX_SERIES_SAMPLES = 43_200;
+
+const seriesSamplesSchema = z.array(seriesSampleSchema).max(MAX_SERIES_SAMPLES).optional();
+
+/** Per-night sample series; keys match SERIES_METRICS. */
+const syncSeriesSchema = z.object({
+    hr: seriesSamplesSchema,
+    hrv: seriesSamplesSchema,
+    rr: seriesSamplesSchema,
+    spo2: seriesSamplesSchema
+}).strict();
+
 const syncSleepMetricsSchema = z.object({
     totalSleepHours: z.number().min(0),
     awakeningCount: z.number().min(0),
@@ -34,13 +53,21 @@ const syncSleepMetricsSchema = z.object({
     restingHeartRate: z.number().nullable().optional()
 });
 
-const syncDaySchema = z.object({
+export const syncDaySchema = z.object({
     dayLabel: z.string(),
     dayStartISO: z.string().datetime(),
+    /** IANA zone or UTC offset (`+05:30`) the night was recorded in; the day is keyed by its local date. */
+    timeZone: z.string().refine(isValidTimeZone, "Expected an IANA time zone or a UTC offset like +05:30").optional(),
     sleep: syncSleepMetricsSchema,
     stageDurations: z.array(syncStageDurationSchema),
     segments: z.array(syncSegmentSchema),
-    events: z.array(syncEventSchema)
+    events: z.array(syncEventSchema),
+    /** Raw samples behind the nightly averages. Absent keeps what is stored; present replaces the night's series. */
+    series: syncSeriesSchema.optional(),
+    /** Opaque client hash of the day's content; the server hashes the payload itself when absent. */
+    contentHash: z.string().min(1).max(128).optional(),
+    /** Client revision of the day, increasing with every new HealthKit snapshot; absent means last write wins. */
+    revision: z.number().int().min(0).optional()
 });
 
 export const dataSyncRequestSchema = z.preprocess((value) => {
@@ -64,24 +91,209 @@ export const dataSyncRequestSchema = z.preprocess((value) => {
 export type DataSyncRequest = z.infer<typeof dataSyncRequestSchema>;
 export type SyncDay = z.infer<typeof syncDaySchema>;
 
+// ── Stored sleep payload (encrypted in sleep_days.data_enc) ───
+
+/** Every metric key is present once stored; null means the app had no value. */
+const storedSleepMetricsSchema = z.object({
+    totalSleepHours: z.number().min(0),
+    awakeningCount: z.number().min(0),
+    mainSleepStartISO: z.string().datetime().nullable(),
+    mainSleepEndISO: z.string().datetime().nullable(),
+    averageHeartRate: z.number().nullable(),
+    averageHRV: z.number().nullable(),
+    averageRespiratoryRate: z.number().nullable(),
+    workoutMinutes: z.number().nullable(),
+    averageSpO2: z.number().nullable(),
+    restingHeartRate: z.number().nullable()
+});
+
+/** A decrypted sleep day at the current SLEEP_PAYLOAD_VERSION, after any upgrades. */
+export const storedSleepPayloadSchema = z.object({
+    dayLabel: z.string(),
+    dayStartISO: z.string().datetime(),
+    timeZone: z.string().nullable(),
+    sleep: storedSleepMetricsSchema,
+    stageDurations: z.array(syncStageDurationSchema),
+    segments: z.array(syncSegmentSchema)
+});
+
+export type StoredSleepPayload = z.infer<typeof storedSleepPayloadSchema>;
+
 // ── Agent key registration (iOS app → Worker) ─────────────────
 
-export const agentRegisterResponseSchema = z.object({
-    apiKey: z.string(),
-    connectionCode: z.string()
+export const agentScopeSchema = z.enum(["sleep:read", "events:read", "stats:read", "segments:read"]);
+
+export type AgentScope = z.infer<typeof agentScopeSchema>;
+
+export const agentRegisterRequestSchema = z.object({
+    label: z.string().trim().min(1).max(64).optional(),
+    scopes: z.array(agentScopeSchema).min(1).optional()
 });
 
-// ── Agent data query params ───────────────────────────────────
+// ── Retention setting (iOS app → Worker) ──────────────────────
 
-export const sleepQuerySchema = z.object({
-    days: z.coerce.number().int().min(1).max(30).optional()
+export const retentionUpdateRequestSchema = z.object({
+    retentionDays: z.number().int().min(1)
 });
 
-export const sleepRangeQuerySchema = z.object({
+// ── Sleep score profile (iOS app → Worker) ────────────────────
+
+export const scoreComponentSchema = z.enum(["duration", "deepSleep", "remSleep", "efficiency", "awakenings"]);
+
+export type ScoreComponent = z.infer<typeof scoreComponentSchema>;
+
+/** Full marks inside `[min, max]`, falling linearly to zero `tolerance` beyond either end. */
+const scoreTargetSchema = z.object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+    tolerance: z.number().positive()
+}).refine((target) => target.min <= target.max, "'min' must not exceed 'max'");
+
+const scoreWeightSchema = z.number().min(0).max(100);
+
+/** Components left out keep their current weight and target. */
+export const scoreProfileUpdateSchema = z.object({
+    weights: z.object({
+        duration: scoreWeightSchema.optional(),
+        deepSleep: scoreWeightSchema.optional(),
+        remSleep: scoreWeightSchema.optional(),
+        efficiency: scoreWeightSchema.optional(),
+        awakenings: scoreWeightSchema.optional()
+    }).strict().optional(),
+    targets: z.object({
+        duration: scoreTargetSchema.optional(),
+        deepSleep: scoreTargetSchema.optional(),
+        remSleep: scoreTargetSchema.optional(),
+        efficiency: scoreTargetSchema.optional(),
+        awakenings: scoreTargetSchema.optional()
+    }).strict().optional()
+}).strict();
+
+export type ScoreProfileUpdate = z.infer<typeof scoreProfileUpdateSchema>;
+export type ScoreTarget = z.infer<typeof scoreTargetSchema>;
+
+// ── Experiments (iOS app → Worker) ────────────────────────────
+
+/** Per-night values experiments and analyses compare; stage hours and the score are derived from the stored night. */
+export const nightMetricSchema = z.enum([
+    "totalSleepHours",
+    "deepHours",
+    "remHours",
+    "awakeningCount",
+    "averageHeartRate",
+    "restingHeartRate",
+    "averageHRV",
+    "averageRespiratoryRate",
+    "averageSpO2",
+    "workoutMinutes",
+    "sleepScore"
+]);
+
+export type NightMetric = z.infer<typeof nightMetricSchema>;
+
+export const experimentStatusSchema = z.enum(["planned", "running", "completed", "abandoned"]);
+
+const experimentRangeSchema = z.object({
     from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
     to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+}).refine((range) => range.from <= range.to, "'from' must be on or before 'to'");
+
+/**
+ * `ranges`: baseline nights against intervention nights, by date.
+ * `event`: within `[from, to]`, nights tagged with the event against nights without it.
+ */
+const experimentDesignSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("ranges"),
+        baseline: experimentRangeSchema,
+        intervention: experimentRangeSchema
+    }).strict(),
+    z.object({
+        type: z.literal("event"),
+        event: z.string().trim().min(1).max(100),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+    }).strict()
+]).superRefine((design, context) => {
+    if (design.type === "ranges" && design.baseline.to >= design.intervention.from && design.intervention.to >= design.baseline.from) {
+        context.addIssue({ code: z.ZodIssueCode.custom, message: "Baseline and intervention ranges must not overlap" });
+    }
+    if (design.type === "event" && design.from > design.to) {
+        context.addIssue({ code: z.ZodIssueCode.custom, message: "'from' must be on or before 'to'" });
+    }
+});
+
+export const experimentCreateSchema = z.object({
+    hypothesis: z.string().trim().min(1).max(500),
+    metric: nightMetricSchema,
+    design: experimentDesignSchema,
+    status: experimentStatusSchema.default("running")
+}).strict();
+
+export const experimentUpdateSchema = z.object({
+    hypothesis: z.string().trim().min(1).max(500).optional(),
+    metric: nightMetricSchema.optional(),
+    design: experimentDesignSchema.optional(),
+    status: experimentStatusSchema.optional()
+}).strict().refine((update) => Object.keys(update).length > 0, "Nothing to update");
+
+export type ExperimentDesign = z.infer<typeof experimentDesignSchema>;
+export type ExperimentStatus = z.infer<typeof experimentStatusSchema>;
+export type ExperimentCreate = z.infer<typeof experimentCreateSchema>;
+export type ExperimentUpdate = z.infer<typeof experimentUpdateSchema>;
+
+// ── Agent data query params ───────────────────────────────────
+
+/** `days` is capped by the install's retention: older days are no longer stored. */
+export function sleepQuerySchema(retentionDays: number) {
+    return z.object({
+        days: z.coerce.number().int().min(1).max(retentionDays).optional()
+    });
+}
+
+export const sleepHistoryQuerySchema = z.object({
+    granularity: z.enum(["week", "month"]).default("month"),
+    /** How many periods back from the current one; defaults per granularity in the handler. */
+    periods: z.coerce.number().int().min(1).max(520).optional()
 });
 
-export const sleepDateParamSchema = z.object({
-    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+export const sleepStatsQuerySchema = z.object({
+    /** Comma-separated night metrics, e.g. `averageHRV,restingHeartRate`; all of them when absent. */
+    metrics: z.string()
+        .transform((value) => [...new Set(value.split(",").map((metric) => metric.trim()).filter(Boolean))])
+        .pipe(z.array(nightMetricSchema).min(1))
+        .optional()
+});
+
+export const anomalyQuerySchema = z.object({
+    /** Flag threshold in standard deviations; the handler falls back to ANOMALY_Z_THRESHOLD. */
+    z: z.coerce.number().min(1).max(6).optional()
+});
+
+export const seriesQuerySchema = z.object({
+    metric: z.enum(["hr", "hrv", "rr", "spo2"]),
+    /** `raw`, or a bucket width like `30s`, `1m`, `5m` (1 second to 1 hour). */
+    resolution: z.string().regex(/^(raw|\d{1,4}[sm])$/).default("1m")
+});
+
+const dayKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const exportQuerySchema = z.object({
+    format: z.enum(["json", "ndjson", "csv"]).default("json"),
+    /** CSV only: one row per night, per sleep segment, or per behavior event. */
+    file: z.enum(["nights", "segments", "events"]).default("nights"),
+    from: dayKeySchema.optional(),
+    to: dayKeySchema.optional()
+}).refine((query) => !query.from || !query.to || query.from <= query.to, "'from' must be on or before 'to'");
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+export const importQuerySchema = z.object({
+    /** `apple-health`: an `export.xml` (or its sleep-analysis records); `csv`: stage, startISO and endISO columns. */
+    format: z.enum(["apple-health", "csv"])
+});
+
+export const sleepRangeQuerySchema = z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
 });
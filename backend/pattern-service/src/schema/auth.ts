@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const challengeRequestSchema = z.object({
+  installId: z.string().uuid().optional(),
+  publicKey: z.string().min(1)
+});
+
+export const exchangeRequestSchema = z.object({
+  installId: z.string().uuid(),
+  publicKey: z.string().min(1),
+  challengeToken: z.string().min(1),
+  signature: z.string().min(1)
+});
+
+export const refreshRequestSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export const keyRotationRequestSchema = z.object({
+  installId: z.string().uuid(),
+  currentPublicKey: z.string().min(1),
+  newPublicKey: z.string().min(1),
+  challengeToken: z.string().min(1),
+  signature: z.string().min(1),
+  newKeySignature: z.string().min(1)
+});
+
+export type KeyRotationRequest = z.infer<typeof keyRotationRequestSchema>;
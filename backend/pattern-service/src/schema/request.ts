@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../util/time-zone";
 
 const stageSchema = z.enum(["awake", "rem", "core", "deep", "inBed"]);
 
@@ -29,12 +30,16 @@ const sleepMetricsSchema = z.object({
   averageHeartRate: z.number().nullable(),
   averageHRV: z.number().nullable(),
   averageRespiratoryRate: z.number().nullable(),
-  workoutMinutes: z.number().nullable()
+  workoutMinutes: z.number().nullable(),
+  averageSpO2: z.number().nullable().optional(),
+  restingHeartRate: z.number().nullable().optional()
 });
 
 const daySchema = z.object({
   dayLabel: z.string(),
   dayStartISO: z.string().datetime(),
+  /** Zone the night was recorded in, so the day matches the one stored by sync. */
+  timeZone: z.string().refine(isValidTimeZone, "Expected an IANA time zone or a UTC offset like +05:30").optional(),
   sleep: sleepMetricsSchema,
   stageDurations: z.array(stageDurationSchema),
   segments: z.array(sleepSegmentSchema),
@@ -0,0 +1,137 @@
+import type { AgentKeyRecord } from "../auth/agent-auth";
+import { authenticateAgent, type VerifiedApiKey } from "../auth/agent-request";
+import type { Env, ServiceConfig } from "../config";
+import { decrypt, encrypt, unwrapVersionedDEK } from "../crypto";
+import type { AgentScope } from "../schema/agent";
+
+/** Entries older than this are purged by the scheduled job. */
+export const AUDIT_RETENTION_DAYS = 90;
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/** What a single agent call touched. Handlers fill this in as they go. */
+export interface AgentAccess {
+    /** First and last day (YYYY-MM-DD) the call covered. */
+    from?: string;
+    to?: string;
+    /** Days of data actually returned. */
+    days?: number;
+}
+
+/** One decrypted audit log entry, as returned to the app. */
+export interface AuditEntry extends AgentAccess {
+    /** Null for deletions the app made itself. */
+    keyId: string | null;
+    keyLabel: string | null;
+    route: string;
+    status: number;
+    at: string;
+    /** What a deletion removed. */
+    removed?: { days: number; events: number; seriesChunks: number };
+}
+
+interface AuditRow {
+    id: string;
+    install_id: string;
+    created_at: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+/**
+ * Authenticate an agent call, run `handler`, and append the outcome to the
+ * install's audit log. Calls that fail authentication have no install to
+ * log against and are not recorded; scope refusals and handlers that throw
+ * are. `verified` is the router's check of the API key, reused rather than
+ * repeated.
+ */
+export async function auditedAgentRequest(
+    request: Request,
+    env: Env,
+    config: ServiceConfig,
+    route: string,
+    scope: AgentScope | null,
+    handler: (context: { record: AgentKeyRecord; dek: CryptoKey; access: AgentAccess }) => Promise<Response>,
+    verified?: VerifiedApiKey
+): Promise<Response> {
+    const auth = await authenticateAgent(request, env, config, scope, verified);
+    if (!auth.record) {
+        return auth.error;
+    }
+
+    const { record } = auth;
+    const dek = await unwrapVersionedDEK(record, config.encryptionKeks);
+    const access: AgentAccess = {};
+    // A handler that throws is answered with a 500 by the runtime; log it as one
+    let status = 500;
+
+    try {
+        const response = auth.error ?? await handler({ record, dek, access });
+        status = response.status;
+        return response;
+    } finally {
+        await appendAuditEntry(env, dek, record.installId, {
+            keyId: record.keyId ?? null,
+            keyLabel: record.label ?? null,
+            route,
+            status,
+            at: new Date().toISOString(),
+            ...access
+        });
+    }
+}
+
+export async function appendAuditEntry(env: Env, dek: CryptoKey, installId: string, entry: AuditEntry): Promise<void> {
+    const blob = await encrypt(JSON.stringify(entry), dek);
+
+    await env.SLEEP_DATA.prepare(
+        "INSERT INTO agent_audit_log (id, install_id, created_at, data_enc, iv, tag) VALUES (?, ?, ?, ?, ?, ?)"
+    ).bind(crypto.randomUUID(), installId, entry.at, blob.ciphertext, blob.iv, blob.tag).run();
+}
+
+export interface AuditPage {
+    entries: AuditEntry[];
+    /** `<created_at>,<id>` of the page's last row when the page was full, else null. */
+    nextBefore: string | null;
+}
+
+/**
+ * Newest first, entries logged at the same instant ordered by id. Pass the
+ * previous page's `nextBefore` as `before` to page further back; a bare
+ * timestamp starts below every entry logged at that instant.
+ */
+export async function readAuditEntries(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    options: { limit: number; before?: string }
+): Promise<AuditPage> {
+    const [beforeAt, beforeId = ""] = (options.before ?? "9999").split(",");
+    const result = await env.SLEEP_DATA.prepare(
+        `SELECT * FROM agent_audit_log WHERE install_id = ? AND (created_at < ? OR (created_at = ? AND id < ?))
+         ORDER BY created_at DESC, id DESC LIMIT ?`
+    ).bind(installId, beforeAt, beforeAt, beforeId, options.limit).all<AuditRow>();
+
+    const rows = result.results || [];
+    const entries = await Promise.all(
+        rows.map(async (row) => {
+            const plaintext = await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+            return JSON.parse(plaintext) as AuditEntry;
+        })
+    );
+
+    const last = rows[rows.length - 1];
+    return { entries, nextBefore: last && rows.length === options.limit ? `${last.created_at},${last.id}` : null };
+}
+
+export async function deleteAuditEntries(env: Env, installId: string): Promise<void> {
+    await env.SLEEP_DATA.prepare("DELETE FROM agent_audit_log WHERE install_id = ?").bind(installId).run();
+}
+
+export async function purgeExpiredAuditEntries(db: D1Database, now = Date.now()): Promise<number> {
+    const cutoff = new Date(now - AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const result = await db.prepare("DELETE FROM agent_audit_log WHERE created_at < ?").bind(cutoff).run();
+    return result.meta.changes ?? 0;
+}
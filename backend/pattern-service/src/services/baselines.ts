@@ -0,0 +1,210 @@
+import type { Env } from "../config";
+import { decrypt, encrypt } from "../crypto";
+import type { NightMetric } from "../schema/agent";
+import { readStoredNights, type StoredNight } from "./day-store";
+import { nightMetric } from "./night-metrics";
+import { shiftDays } from "./rollups";
+import { mean, roundTo, standardDeviation } from "./statistics";
+
+/** Metrics that get a rolling baseline and can be flagged. */
+export const BASELINE_METRICS = [
+    "averageHRV",
+    "restingHeartRate",
+    "averageRespiratoryRate",
+    "averageSpO2",
+    "totalSleepHours"
+] as const satisfies readonly NightMetric[];
+
+export type BaselineMetric = typeof BASELINE_METRICS[number];
+
+/** A night is compared with the nights of the BASELINE_WINDOW_DAYS days before it. */
+export const BASELINE_WINDOW_DAYS = 28;
+
+/** Fewer earlier nights with a value than this and the metric has no baseline yet. */
+export const MIN_BASELINE_NIGHTS = 7;
+
+export interface MetricBaseline {
+    nights: number;
+    mean: number;
+    standardDeviation: number;
+}
+
+export interface MetricDeviation {
+    value: number | null;
+    baseline: MetricBaseline | null;
+    /** Null without a value, without a baseline, or when the baseline does not vary. */
+    zScore: number | null;
+}
+
+export interface AnomalyFlag {
+    metric: BaselineMetric;
+    direction: "high" | "low";
+    value: number;
+    zScore: number;
+}
+
+/** Flags that mean more together than alone, e.g. the HRV drop and breathing rise that often come before illness. */
+const ANOMALY_PATTERNS: ReadonlyArray<{ name: string; flags: ReadonlyArray<Pick<AnomalyFlag, "metric" | "direction">> }> = [
+    { name: "hrvDropWithRespiratoryRateRise", flags: [{ metric: "averageHRV", direction: "low" }, { metric: "averageRespiratoryRate", direction: "high" }] },
+    { name: "hrvDropWithRestingHeartRateRise", flags: [{ metric: "averageHRV", direction: "low" }, { metric: "restingHeartRate", direction: "high" }] }
+];
+
+/** A night's metrics against their rolling baselines, before a threshold is applied; kept in `sleep_baselines`. */
+export interface NightDeviations {
+    date: string;
+    metrics: Record<BaselineMetric, MetricDeviation>;
+}
+
+export interface NightAnomalies extends NightDeviations {
+    /** Metrics at least the threshold's number of standard deviations from their baseline. */
+    flags: AnomalyFlag[];
+    /** Names of the ANOMALY_PATTERNS whose flags are all present. */
+    patterns: string[];
+}
+
+interface BaselineRow {
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+/**
+ * Compare each night from `from` on with its rolling baseline and flag the
+ * metrics whose z-score reaches `zThreshold` in either direction. `nights`
+ * must be oldest first and reach BASELINE_WINDOW_DAYS before `from`.
+ */
+export function detectAnomalies(nights: readonly StoredNight[], from: string, zThreshold: number): NightAnomalies[] {
+    return nights.filter((night) => night.date >= from).map((night) => flagAnomalies(compareWithBaselines(nights, night), zThreshold));
+}
+
+/** Flags and patterns of a night's deviations at `zThreshold`. */
+export function flagAnomalies(night: NightDeviations, zThreshold: number): NightAnomalies {
+    const flags = BASELINE_METRICS.flatMap((metric): AnomalyFlag[] => {
+        const { value, zScore } = night.metrics[metric];
+        if (value === null || zScore === null || Math.abs(zScore) < zThreshold) {
+            return [];
+        }
+        return [{ metric, direction: zScore > 0 ? "high" : "low", value, zScore }];
+    });
+    const patterns = ANOMALY_PATTERNS
+        .filter((pattern) => pattern.flags.every((wanted) => flags.some((flag) => flag.metric === wanted.metric && flag.direction === wanted.direction)))
+        .map((pattern) => pattern.name);
+
+    return { ...night, flags, patterns };
+}
+
+/** Baselines from the nights of the BASELINE_WINDOW_DAYS days before `date`, excluding `date` itself. */
+export function rollingBaselines(nights: readonly StoredNight[], date: string): Record<BaselineMetric, MetricBaseline | null> {
+    return windowBaselines(nights, date, (night, metric) => nightMetric(night.payload, metric));
+}
+
+/** Like `rollingBaselines`, from the values kept with each night's deviations. */
+export function deviationBaselines(nights: readonly NightDeviations[], date: string): Record<BaselineMetric, MetricBaseline | null> {
+    return windowBaselines(nights, date, (night, metric) => night.metrics[metric].value);
+}
+
+/**
+ * Deviations of the stored nights in `[from, to]`, oldest first. A night is
+ * compared with its baseline the first time it is read and the result kept
+ * in `sleep_baselines`, so later reads decrypt one small row per night
+ * instead of the baseline window. Syncing or deleting a night drops the rows
+ * from its date on (see `storeSyncDays` and `deleteDays`).
+ */
+export async function readNightDeviations(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    from: string,
+    to: string
+): Promise<NightDeviations[]> {
+    const [cached, stored] = await Promise.all([
+        env.SLEEP_DATA.prepare(
+            "SELECT day_date, data_enc, iv, tag FROM sleep_baselines WHERE install_id = ? AND day_date >= ? AND day_date <= ?"
+        ).bind(installId, from, to).all<BaselineRow>(),
+        env.SLEEP_DATA.prepare(
+            "SELECT day_date FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
+        ).bind(installId, from, to).all<{ day_date: string }>()
+    ]);
+
+    const byDate = new Map<string, NightDeviations>();
+    for (const row of cached.results || []) {
+        const metrics = JSON.parse(await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek)) as NightDeviations["metrics"];
+        byDate.set(row.day_date, { date: row.day_date, metrics });
+    }
+
+    const dates = (stored.results || []).map((row) => row.day_date);
+    const missing = dates.filter((date) => !byDate.has(date));
+    if (missing.length > 0) {
+        const nights = await readStoredNights(env, dek, installId, shiftDays(missing[0], -BASELINE_WINDOW_DAYS), missing[missing.length - 1]);
+        const computedAt = new Date().toISOString();
+        const statements: D1PreparedStatement[] = [];
+
+        for (const night of nights.filter((candidate) => missing.includes(candidate.date))) {
+            const deviations = compareWithBaselines(nights, night);
+            const blob = await encrypt(JSON.stringify(deviations.metrics), dek);
+            byDate.set(night.date, deviations);
+            statements.push(
+                env.SLEEP_DATA.prepare(
+                    "INSERT OR REPLACE INTO sleep_baselines (id, install_id, day_date, data_enc, iv, tag, computed_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+                ).bind(`${installId}:${night.date}`, installId, night.date, blob.ciphertext, blob.iv, blob.tag, computedAt)
+            );
+        }
+
+        if (statements.length > 0) {
+            await env.SLEEP_DATA.batch(statements);
+        }
+    }
+
+    return dates.flatMap((date) => byDate.get(date) ?? []);
+}
+
+/** Anomalies of the stored nights in `[from, to]`, oldest first. */
+export async function readNightAnomalies(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    from: string,
+    to: string,
+    zThreshold: number
+): Promise<NightAnomalies[]> {
+    return (await readNightDeviations(env, dek, installId, from, to)).map((night) => flagAnomalies(night, zThreshold));
+}
+
+export async function deleteBaselines(env: Env, installId: string): Promise<void> {
+    await env.SLEEP_DATA.prepare("DELETE FROM sleep_baselines WHERE install_id = ?").bind(installId).run();
+}
+
+export function roundBaseline(baseline: MetricBaseline): MetricBaseline {
+    return { nights: baseline.nights, mean: roundTo(baseline.mean, 3)!, standardDeviation: roundTo(baseline.standardDeviation, 3)! };
+}
+
+function compareWithBaselines(nights: readonly StoredNight[], night: StoredNight): NightDeviations {
+    const baselines = rollingBaselines(nights, night.date);
+    const metrics = Object.fromEntries(BASELINE_METRICS.map((metric) => {
+        const value = nightMetric(night.payload, metric);
+        const baseline = baselines[metric];
+        const zScore = value === null || baseline === null || baseline.standardDeviation === 0
+            ? null
+            : (value - baseline.mean) / baseline.standardDeviation;
+        return [metric, { value, baseline: baseline && roundBaseline(baseline), zScore: roundTo(zScore, 2) }];
+    })) as Record<BaselineMetric, MetricDeviation>;
+
+    return { date: night.date, metrics };
+}
+
+function windowBaselines<T extends { date: string }>(
+    nights: readonly T[],
+    date: string,
+    valueOf: (night: T, metric: BaselineMetric) => number | null
+): Record<BaselineMetric, MetricBaseline | null> {
+    const windowStart = shiftDays(date, -BASELINE_WINDOW_DAYS);
+    const window = nights.filter((night) => night.date >= windowStart && night.date < date);
+
+    return Object.fromEntries(BASELINE_METRICS.map((metric) => {
+        const values = window.flatMap((night) => valueOf(night, metric) ?? []);
+        return [metric, values.length < MIN_BASELINE_NIGHTS
+            ? null
+            : { nights: values.length, mean: mean(values), standardDeviation: standardDeviation(values) }];
+    })) as Record<BaselineMetric, MetricBaseline | null>;
+}
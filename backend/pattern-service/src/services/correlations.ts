@@ -0,0 +1,191 @@
+import type { Env } from "../config";
+import type { NightMetric, StoredSleepPayload } from "../schema/agent";
+import { readStoredNights } from "./day-store";
+import { normalizeEventName, readEvents, type SyncEvent } from "./event-store";
+import { MIN_NIGHTS_PER_GROUP } from "./experiments";
+import { NIGHT_METRIC_UNITS, nightMetric } from "./night-metrics";
+import { DEFAULT_SCORE_PROFILE, type ScoreProfile } from "./sleep-score";
+import { cohensD, mean, permutationTest, roundTo, standardDeviation } from "./statistics";
+
+/** Metrics compared when the caller does not pick one. */
+export const CORRELATION_METRICS: readonly NightMetric[] = [
+    "totalSleepHours",
+    "deepHours",
+    "remHours",
+    "averageHRV",
+    "restingHeartRate",
+    "awakeningCount"
+];
+
+/**
+ * How long before the main sleep started the event happened. Bounds are in
+ * minutes, lower inclusive and upper exclusive.
+ */
+export const TIMING_BUCKETS = {
+    under2h: { fromMinutes: null, toMinutes: 120 },
+    between2and4h: { fromMinutes: 120, toMinutes: 240 },
+    over4h: { fromMinutes: 240, toMinutes: null }
+} as const;
+
+export type TimingBucket = keyof typeof TIMING_BUCKETS;
+
+const PERMUTATIONS = 1000;
+
+/**
+ * `insufficient`: fewer than MIN_NIGHTS_PER_GROUP nights in either group.
+ * Otherwise `high` needs p < 0.05 with at least HIGH_CONFIDENCE_NIGHTS nights
+ * in both groups, `medium` p < 0.1, and anything else is `low`.
+ */
+export type CorrelationConfidence = "insufficient" | "low" | "medium" | "high";
+
+const HIGH_CONFIDENCE_NIGHTS = 10;
+
+/** A night with its behavior events, as correlations consume it. */
+export interface CorrelationNight {
+    date: string;
+    payload: StoredSleepPayload;
+    events: SyncEvent[];
+}
+
+export interface MetricSummary {
+    nights: number;
+    mean: number | null;
+    standardDeviation: number | null;
+}
+
+/** A group's metric against nights without the event; differences are group − without. */
+export interface MetricComparison extends MetricSummary {
+    difference: number | null;
+    effectSize: number | null;
+    pValue: number | null;
+    confidence: CorrelationConfidence;
+}
+
+export interface GroupSummary {
+    nights: number;
+    metrics: Partial<Record<NightMetric, MetricSummary>>;
+}
+
+export interface GroupComparison {
+    nights: number;
+    metrics: Partial<Record<NightMetric, MetricComparison>>;
+}
+
+export interface EventCorrelation {
+    event: string;
+    units: Partial<Record<NightMetric, string>>;
+    withoutEvent: GroupSummary;
+    withEvent: GroupComparison;
+    timing: Record<TimingBucket, GroupComparison & { fromMinutes: number | null; toMinutes: number | null }>;
+    /** Nights with the event but no `minutesBeforeMainSleepStart`; in `withEvent` only. */
+    untimedNights: number;
+}
+
+/** The stored nights in `[from, to]`, oldest first, with their events; only those named `event` when given. */
+export async function readCorrelationNights(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    from: string,
+    to: string,
+    event?: string
+): Promise<CorrelationNight[]> {
+    const [nights, tagged] = await Promise.all([
+        readStoredNights(env, dek, installId, from, to),
+        readEvents(env, dek, installId, { from, to, name: event })
+    ]);
+    const eventsByDate = new Map(tagged.map((day) => [day.date, day.events]));
+    return nights.map((night) => ({ ...night, events: eventsByDate.get(night.date) ?? [] }));
+}
+
+/**
+ * Split nights by whether they carry `event` (matched like `/events?name=`),
+ * and the nights that do by how long before sleep it happened, then compare
+ * each group with the nights without it. When a night has the event more than
+ * once, the occurrence closest to sleep decides the bucket. Deterministic.
+ */
+export function correlateEvent(
+    nights: readonly CorrelationNight[],
+    event: string,
+    metrics: readonly NightMetric[] = CORRELATION_METRICS,
+    scoreProfile: ScoreProfile = DEFAULT_SCORE_PROFILE
+): EventCorrelation {
+    const wanted = normalizeEventName(event);
+    const without: CorrelationNight[] = [];
+    const withEvent: CorrelationNight[] = [];
+    const buckets: Record<TimingBucket, CorrelationNight[]> = { under2h: [], between2and4h: [], over4h: [] };
+    let untimedNights = 0;
+
+    for (const night of nights) {
+        const matching = night.events.filter((candidate) => normalizeEventName(candidate.name) === wanted);
+        if (matching.length === 0) {
+            without.push(night);
+            continue;
+        }
+
+        withEvent.push(night);
+        const timings = matching.flatMap((candidate) => candidate.minutesBeforeMainSleepStart ?? []);
+        if (timings.length === 0) {
+            untimedNights += 1;
+        } else {
+            buckets[timingBucket(Math.min(...timings))].push(night);
+        }
+    }
+
+    const valuesOf = (group: CorrelationNight[]) => Object.fromEntries(metrics.map((metric) => [
+        metric,
+        group.flatMap((night) => nightMetric(night.payload, metric, scoreProfile) ?? [])
+    ])) as Record<NightMetric, number[]>;
+    const baseline = valuesOf(without);
+
+    const compare = (group: CorrelationNight[]): GroupComparison => {
+        const values = valuesOf(group);
+        return {
+            nights: group.length,
+            metrics: Object.fromEntries(metrics.map((metric) => [metric, compareMetric(baseline[metric], values[metric])]))
+        };
+    };
+
+    return {
+        event,
+        units: Object.fromEntries(metrics.map((metric) => [metric, NIGHT_METRIC_UNITS[metric]])),
+        withoutEvent: {
+            nights: without.length,
+            metrics: Object.fromEntries(metrics.map((metric) => [metric, summarize(baseline[metric])]))
+        },
+        withEvent: compare(withEvent),
+        timing: {
+            under2h: { ...TIMING_BUCKETS.under2h, ...compare(buckets.under2h) },
+            between2and4h: { ...TIMING_BUCKETS.between2and4h, ...compare(buckets.between2and4h) },
+            over4h: { ...TIMING_BUCKETS.over4h, ...compare(buckets.over4h) }
+        },
+        untimedNights
+    };
+}
+
+function timingBucket(minutesBefore: number): TimingBucket {
+    if (minutesBefore < TIMING_BUCKETS.between2and4h.fromMinutes) return "under2h";
+    if (minutesBefore < TIMING_BUCKETS.over4h.fromMinutes) return "between2and4h";
+    return "over4h";
+}
+
+function summarize(values: number[]): MetricSummary {
+    return { nights: values.length, mean: roundTo(mean(values), 3), standardDeviation: roundTo(standardDeviation(values), 3) };
+}
+
+function compareMetric(baseline: number[], values: number[]): MetricComparison {
+    const summary = summarize(values);
+    if (baseline.length < MIN_NIGHTS_PER_GROUP || values.length < MIN_NIGHTS_PER_GROUP) {
+        return { ...summary, difference: null, effectSize: null, pValue: null, confidence: "insufficient" };
+    }
+
+    const pValue = permutationTest(baseline, values, { permutations: PERMUTATIONS });
+    const enoughNights = Math.min(baseline.length, values.length) >= HIGH_CONFIDENCE_NIGHTS;
+    return {
+        ...summary,
+        difference: roundTo(mean(values) - mean(baseline), 3),
+        effectSize: roundTo(cohensD(baseline, values), 3),
+        pValue: roundTo(pValue, 4),
+        confidence: pValue < 0.05 && enoughNights ? "high" : pValue < 0.1 ? "medium" : "low"
+    };
+}
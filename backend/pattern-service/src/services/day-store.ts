@@ -0,0 +1,347 @@
+import type { Env } from "../config";
+import { deriveBlindIndexKey, sha256Hex } from "../crypto";
+import type { StoredSleepPayload, SyncDay } from "../schema/agent";
+import { localDateKey } from "../util/time-zone";
+import { eventStatements } from "./event-store";
+import { seriesStatements } from "./series";
+import { contributionOf, rollupStatements, type DayContribution, type RollupChange } from "./rollups";
+import { openSleepPayload, sealSleepPayload, SLEEP_PAYLOAD_VERSION } from "./sleep-payload";
+
+export type DaySyncStatus = "inserted" | "updated" | "unchanged" | "conflict";
+
+export interface DaySyncResult {
+    date: string;
+    status: DaySyncStatus;
+    contentHash: string;
+    revision: number | null;
+    /** On conflict: the stored copy that won. */
+    serverRevision?: number | null;
+    serverContentHash?: string | null;
+}
+
+/** Content hash and revision of a stored day, as listed by the sync manifest. */
+export interface StoredDayVersion {
+    date: string;
+    contentHash: string | null;
+    revision: number | null;
+    syncedAt: string;
+    /** Zone the day was keyed in; null for days keyed by UTC date before zones were synced. */
+    timeZone: string | null;
+}
+
+interface StoredVersionRow {
+    day_date: string;
+    content_hash: string | null;
+    revision: number | null;
+    synced_at: string;
+    tz: string | null;
+}
+
+interface StoredDayRow extends StoredVersionRow {
+    data_enc: string;
+    iv: string;
+    tag: string;
+    rolled_up: number;
+    /** Set once this batch has written the day, so a later duplicate can take it back out of the rollups. */
+    contribution?: DayContribution;
+}
+
+/** Day key of a synced day: its local date when the day carries a time zone, else its UTC date. */
+export function dayKeyFor(day: SyncDay): string {
+    return localDateKey(day.dayStartISO, day.timeZone);
+}
+
+/** Key the day was stored under before time zones were synced. */
+function legacyDayKeyFor(day: SyncDay): string {
+    return localDateKey(day.dayStartISO);
+}
+
+/**
+ * Encrypt and store synced days, skipping those whose content hash matches the
+ * stored copy and refusing those whose revision is not newer than the stored one.
+ * Days without a revision overwrite whatever is stored (last write wins).
+ * A day that carries a time zone replaces the row it was filed under by UTC
+ * date before zones were synced.
+ * Events are stored one row per event with a blind index of their name, and
+ * sample series as compressed chunks when the day carries them.
+ * Weekly and monthly rollups are updated in the same batch.
+ * Returns one result per input day, in input order.
+ */
+export async function storeSyncDays(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    days: SyncDay[],
+    syncedAt: string
+): Promise<DaySyncResult[]> {
+    const stored = await readStoredVersions(env, installId, [...new Set(days.flatMap((day) => [dayKeyFor(day), legacyDayKeyFor(day)]))]);
+    const statements: D1PreparedStatement[] = [];
+    const results: DaySyncResult[] = [];
+    const rollupChanges: RollupChange[] = [];
+    let indexKey: CryptoKey | undefined;
+    let earliestWritten: string | undefined;
+
+    for (const day of days) {
+        const dateStr = dayKeyFor(day);
+        const dayId = `${installId}:${dateStr}`;
+        const timeZone = day.timeZone ?? null;
+
+        // Separate events from sleep data
+        const sleepPayload = {
+            dayLabel: day.dayLabel,
+            dayStartISO: day.dayStartISO,
+            timeZone: day.timeZone,
+            sleep: day.sleep,
+            stageDurations: day.stageDurations,
+            segments: day.segments
+        };
+
+        const contentHash = day.contentHash ?? await sha256Hex(canonicalJSON({ ...sleepPayload, events: day.events, series: day.series }));
+        const revision = day.revision ?? null;
+        let existing = stored.get(dateStr);
+
+        // Rows keyed by UTC date hold the night whose start falls on that UTC date.
+        // Once this night is keyed locally, the one under its local date is a
+        // neighbouring night (replaced here) and its own sits under its UTC date.
+        const legacyKey = legacyDayKeyFor(day);
+        let displaced: StoredDayRow | undefined;
+        let legacy: StoredDayRow | undefined;
+        if (timeZone && legacyKey !== dateStr) {
+            if (existing?.tz === null) {
+                displaced = existing;
+                existing = undefined;
+            }
+            if (stored.get(legacyKey)?.tz === null) {
+                legacy = stored.get(legacyKey);
+            }
+        }
+
+        const status = classify(existing, contentHash, revision);
+
+        if (status === "conflict") {
+            results.push({
+                date: dateStr,
+                status,
+                contentHash,
+                revision,
+                serverRevision: existing?.revision ?? null,
+                serverContentHash: existing?.content_hash ?? null
+            });
+            continue;
+        }
+
+        results.push({ date: dateStr, status, contentHash, revision });
+
+        if (status === "unchanged") {
+            // Nothing to re-encrypt, but remember the newer revision so an older snapshot cannot win later
+            if (existing && revision !== null && (existing.revision === null || revision > existing.revision)) {
+                statements.push(
+                    env.SLEEP_DATA.prepare("UPDATE sleep_days SET revision = ? WHERE id = ?").bind(revision, dayId)
+                );
+                existing.revision = revision;
+            }
+            continue;
+        }
+
+        // Every later night's baseline window may include this one (or the legacy row it replaces)
+        for (const date of legacy ? [dateStr, legacyKey] : [dateStr]) {
+            if (earliestWritten === undefined || date < earliestWritten) {
+                earliestWritten = date;
+            }
+        }
+
+        const encrypted = await sealSleepPayload(sleepPayload, dek);
+        const contribution = contributionOf(dateStr, sleepPayload);
+        const replaced = existing ?? displaced;
+        rollupChanges.push({ previous: replaced ? await rolledUpContribution(replaced, dek) : null, next: contribution });
+
+        if (legacy) {
+            rollupChanges.push({ previous: await rolledUpContribution(legacy, dek), next: null });
+            statements.push(
+                env.SLEEP_DATA.prepare("DELETE FROM sleep_days WHERE id = ?").bind(`${installId}:${legacyKey}`),
+                env.SLEEP_DATA.prepare("DELETE FROM behavior_events WHERE install_id = ? AND day_date = ?").bind(installId, legacyKey),
+                env.SLEEP_DATA.prepare("DELETE FROM sleep_series WHERE install_id = ? AND day_date = ?").bind(installId, legacyKey)
+            );
+            stored.delete(legacyKey);
+        }
+
+        statements.push(
+            env.SLEEP_DATA.prepare(
+                `INSERT OR REPLACE INTO sleep_days (id, install_id, day_date, data_enc, iv, tag, synced_at, content_hash, revision, tz, rolled_up, schema_version)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)`
+            ).bind(dayId, installId, dateStr, encrypted.ciphertext, encrypted.iv, encrypted.tag, syncedAt, contentHash, revision, timeZone, SLEEP_PAYLOAD_VERSION)
+        );
+
+        // Store events as one row each; an update replaces the day's previous events
+        indexKey ??= await deriveBlindIndexKey(dek);
+        statements.push(...await eventStatements(env, dek, indexKey, installId, dateStr, day.events, syncedAt, replaced !== undefined));
+
+        // Series are replaced only when sent, except that a neighbouring night's never belong here
+        if (day.series !== undefined || displaced) {
+            statements.push(...await seriesStatements(env, dek, installId, dateStr, day.series ?? {}, syncedAt));
+        }
+
+        // Later duplicates of the same date in this batch compare against what we just wrote
+        stored.set(dateStr, {
+            day_date: dateStr,
+            content_hash: contentHash,
+            revision,
+            synced_at: syncedAt,
+            tz: timeZone,
+            data_enc: encrypted.ciphertext,
+            iv: encrypted.iv,
+            tag: encrypted.tag,
+            rolled_up: 1,
+            contribution
+        });
+    }
+
+    statements.push(...await rollupStatements(env, dek, installId, rollupChanges));
+
+    if (earliestWritten !== undefined) {
+        statements.push(
+            env.SLEEP_DATA.prepare("DELETE FROM sleep_baselines WHERE install_id = ? AND day_date >= ?").bind(installId, earliestWritten)
+        );
+    }
+
+    // Execute all in a batch
+    if (statements.length > 0) {
+        await env.SLEEP_DATA.batch(statements);
+    }
+
+    return results;
+}
+
+/** Content hash and revision of every stored day in `[from, to]`, newest first. */
+export async function readSyncManifest(env: Env, installId: string, from: string, to: string): Promise<StoredDayVersion[]> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT day_date, content_hash, revision, synced_at, tz FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date DESC"
+    ).bind(installId, from, to).all<StoredVersionRow>();
+
+    return (result.results || []).map((row) => ({
+        date: row.day_date,
+        contentHash: row.content_hash,
+        revision: row.revision,
+        syncedAt: row.synced_at,
+        timeZone: row.tz
+    }));
+}
+
+/** A stored night, decrypted and upgraded to the current payload version. */
+export interface StoredNight {
+    date: string;
+    payload: StoredSleepPayload;
+}
+
+/** Every stored night in `[from, to]`, decrypted, oldest first. */
+export async function readStoredNights(env: Env, dek: CryptoKey, installId: string, from: string, to: string): Promise<StoredNight[]> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT day_date, data_enc, iv, tag FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
+    ).bind(installId, from, to).all<Pick<StoredDayRow, "day_date" | "data_enc" | "iv" | "tag">>();
+
+    return Promise.all((result.results || []).map(async (row) => ({
+        date: row.day_date,
+        payload: await openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek)
+    })));
+}
+
+/** What a deletion removed. */
+export interface DayDeletion {
+    /** Dates whose sleep day was removed, oldest first. */
+    dates: string[];
+    days: number;
+    events: number;
+    seriesChunks: number;
+}
+
+/**
+ * Delete the stored days in `[from, to]` with their events and sample series,
+ * taking each day back out of the weekly and monthly rollups in the same batch.
+ * Kept baselines from `from` on are dropped, since later nights compared against these.
+ */
+export async function deleteDays(env: Env, dek: CryptoKey, installId: string, from: string, to: string): Promise<DayDeletion> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT day_date, data_enc, iv, tag, rolled_up FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ? ORDER BY day_date ASC"
+    ).bind(installId, from, to).all<Pick<StoredDayRow, "day_date" | "data_enc" | "iv" | "tag" | "rolled_up">>();
+
+    const rows = result.results || [];
+    const rollupChanges: RollupChange[] = [];
+    for (const row of rows) {
+        if (row.rolled_up) {
+            const payload = await openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+            rollupChanges.push({ previous: contributionOf(row.day_date, payload), next: null });
+        }
+    }
+
+    const [days, events, series] = await env.SLEEP_DATA.batch([
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_days WHERE install_id = ? AND day_date >= ? AND day_date <= ?").bind(installId, from, to),
+        env.SLEEP_DATA.prepare("DELETE FROM behavior_events WHERE install_id = ? AND day_date >= ? AND day_date <= ?").bind(installId, from, to),
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_series WHERE install_id = ? AND day_date >= ? AND day_date <= ?").bind(installId, from, to),
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_baselines WHERE install_id = ? AND day_date >= ?").bind(installId, from),
+        ...await rollupStatements(env, dek, installId, rollupChanges)
+    ]);
+
+    return {
+        dates: rows.map((row) => row.day_date),
+        days: days.meta.changes ?? 0,
+        events: events.meta.changes ?? 0,
+        seriesChunks: series.meta.changes ?? 0
+    };
+}
+
+function classify(existing: StoredDayRow | undefined, contentHash: string, revision: number | null): DaySyncStatus {
+    if (!existing) {
+        return "inserted";
+    }
+    if (existing.content_hash === contentHash) {
+        return "unchanged";
+    }
+    if (revision !== null && existing.revision !== null && revision <= existing.revision) {
+        return "conflict";
+    }
+    return "updated";
+}
+
+/** The stored day's share of the rollups, or null if it was never folded in. */
+async function rolledUpContribution(row: StoredDayRow, dek: CryptoKey): Promise<DayContribution | null> {
+    if (row.contribution) {
+        return row.contribution;
+    }
+    if (!row.rolled_up) {
+        return null;
+    }
+
+    const payload = await openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+    return contributionOf(row.day_date, payload);
+}
+
+async function readStoredVersions(env: Env, installId: string, dates: string[]): Promise<Map<string, StoredDayRow>> {
+    const stored = new Map<string, StoredDayRow>();
+    if (dates.length === 0) {
+        return stored;
+    }
+
+    const placeholders = dates.map(() => "?").join(", ");
+    const result = await env.SLEEP_DATA.prepare(
+        `SELECT day_date, content_hash, revision, synced_at, tz, data_enc, iv, tag, rolled_up FROM sleep_days WHERE install_id = ? AND day_date IN (${placeholders})`
+    ).bind(installId, ...dates).all<StoredDayRow>();
+
+    for (const row of result.results || []) {
+        stored.set(row.day_date, row);
+    }
+    return stored;
+}
+
+/** JSON with object keys sorted, so equal content always hashes the same. */
+function canonicalJSON(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJSON).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJSON(entry)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
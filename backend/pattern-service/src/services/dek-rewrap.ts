@@ -0,0 +1,137 @@
+import type { Env } from "../config";
+import { needsRewrap, rewrapDEK, type KekRing, type WrappedDEK } from "../crypto";
+
+/**
+ * Cap on AGENT_KEYS records read per run, so a cron invocation stays well
+ * inside its KV operation and CPU budgets; the next run continues from the
+ * saved cursor.
+ */
+const MAX_KEYS_PER_RUN = 200;
+
+/**
+ * AGENT_KEYS prefixes whose values carry a wrapped DEK: install indexes, hashed
+ * key records, and key records still stored under their plaintext `slk_` key.
+ */
+const WRAPPED_DEK_PREFIXES = ["install:", "key:", "slk_"];
+
+/** Where the scan resumes. Outside every prefix above, so it is never scanned itself. */
+export const REWRAP_STATE_KEY = "rewrap:state";
+
+/** Progress of the pass over AGENT_KEYS for one current KEK version. */
+export interface RewrapState {
+    kekVersion: number;
+    /** Index into WRAPPED_DEK_PREFIXES and the list cursor within it. */
+    prefixIndex: number;
+    cursor: string | null;
+    /** Stale records seen so far in this pass, rewrapped or not. */
+    staleSeen: number;
+    /** Set once a whole pass found nothing to rewrap; later runs stop right away. */
+    upToDate: boolean;
+}
+
+export interface RewrapReport {
+    scanned: number;
+    rewrapped: number;
+    failed: number;
+    /** True when the run stopped at its cap before the end of the pass; the next run continues. */
+    truncated: boolean;
+    /** True once a whole pass found every DEK wrapped under the current version. */
+    upToDate: boolean;
+}
+
+/**
+ * Move wrapped DEKs in AGENT_KEYS to the ring's current KEK version, reading
+ * at most `limit` records per run and saving the list cursor under
+ * REWRAP_STATE_KEY between runs. Only the KV records change — ciphertext in
+ * D1 is encrypted with the DEK, which stays the same. Old KEK versions can be
+ * removed once the saved state reads `upToDate: true`.
+ */
+export async function rewrapStaleDEKs(env: Env, ring: KekRing, limit = MAX_KEYS_PER_RUN): Promise<RewrapReport> {
+    const report: RewrapReport = { scanned: 0, rewrapped: 0, failed: 0, truncated: false, upToDate: false };
+
+    // Without an older version in the ring, no stale DEK could be unwrapped anyway
+    if (Object.keys(ring.keks).every((version) => Number(version) === ring.currentVersion)) {
+        return { ...report, upToDate: true };
+    }
+
+    const saved = parseState(await env.AGENT_KEYS.get(REWRAP_STATE_KEY));
+    const state: RewrapState = saved?.kekVersion === ring.currentVersion
+        ? saved
+        : { kekVersion: ring.currentVersion, prefixIndex: 0, cursor: null, staleSeen: 0, upToDate: false };
+    if (state.upToDate) {
+        return { ...report, upToDate: true };
+    }
+
+    while (state.prefixIndex < WRAPPED_DEK_PREFIXES.length) {
+        if (report.scanned >= limit) {
+            report.truncated = true;
+            break;
+        }
+
+        const page = await env.AGENT_KEYS.list({
+            prefix: WRAPPED_DEK_PREFIXES[state.prefixIndex],
+            cursor: state.cursor ?? undefined,
+            limit: limit - report.scanned
+        });
+
+        for (const { name } of page.keys) {
+            report.scanned += 1;
+            const record = parseWrappedRecord(await env.AGENT_KEYS.get(name));
+            if (!record || !needsRewrap(record, ring)) {
+                continue;
+            }
+
+            state.staleSeen += 1;
+            try {
+                const rewrapped = await rewrapDEK(record, ring);
+                await env.AGENT_KEYS.put(name, JSON.stringify({ ...record, ...rewrapped }));
+                report.rewrapped += 1;
+            } catch {
+                report.failed += 1;
+            }
+        }
+
+        if (page.list_complete) {
+            state.prefixIndex += 1;
+            state.cursor = null;
+        } else {
+            state.cursor = page.cursor;
+        }
+    }
+
+    if (state.prefixIndex >= WRAPPED_DEK_PREFIXES.length) {
+        // End of the pass: done if it found nothing stale, else check again from the start
+        state.upToDate = state.staleSeen === 0;
+        report.upToDate = state.upToDate;
+        Object.assign(state, { prefixIndex: 0, cursor: null, staleSeen: 0 });
+    }
+
+    await env.AGENT_KEYS.put(REWRAP_STATE_KEY, JSON.stringify(state));
+    return report;
+}
+
+function parseState(raw: string | null): RewrapState | null {
+    if (!raw) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(raw) as RewrapState;
+    } catch {
+        return null;
+    }
+}
+
+/** Parse a KV value that holds a wrapped DEK, skipping anything else (e.g. legacy bare-key install mappings). */
+function parseWrappedRecord(raw: string | null): (WrappedDEK & Record<string, unknown>) | null {
+    if (!raw || !raw.startsWith("{")) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(raw) as Record<string, unknown>;
+        return typeof parsed.wrappedDek === "string" ? (parsed as WrappedDEK & Record<string, unknown>) : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,133 @@
+import type { Env } from "../config";
+import { blindIndex, decrypt, deriveBlindIndexKey, encrypt } from "../crypto";
+import type { SyncDay } from "../schema/agent";
+
+export type SyncEvent = SyncDay["events"][number];
+
+/** One day's events, in synced order. */
+export interface DayEvents {
+    date: string;
+    events: SyncEvent[];
+}
+
+interface EventRow {
+    id: string;
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    /** Null on rows written before per-event storage, which hold the whole day's array. */
+    name_index: string | null;
+    event_index: number;
+}
+
+/** Case, surrounding and repeated whitespace, and Unicode form do not distinguish event names. */
+export function normalizeEventName(name: string): string {
+    return name.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Blind index of an event name, comparable across syncs of the same install. */
+export async function eventNameIndex(indexKey: CryptoKey, name: string): Promise<string> {
+    return blindIndex(indexKey, normalizeEventName(name));
+}
+
+/**
+ * Statements that replace a day's stored events with `events`, one encrypted
+ * row each. `replace` drops whatever was stored for the day first, including
+ * a legacy whole-day blob.
+ */
+export async function eventStatements(
+    env: Env,
+    dek: CryptoKey,
+    indexKey: CryptoKey,
+    installId: string,
+    date: string,
+    events: SyncEvent[],
+    syncedAt: string,
+    replace: boolean
+): Promise<D1PreparedStatement[]> {
+    const statements: D1PreparedStatement[] = [];
+    if (replace) {
+        statements.push(
+            env.SLEEP_DATA.prepare("DELETE FROM behavior_events WHERE install_id = ? AND day_date = ?").bind(installId, date)
+        );
+    }
+
+    for (const [index, event] of events.entries()) {
+        const encrypted = await encrypt(JSON.stringify(event), dek);
+        statements.push(
+            env.SLEEP_DATA.prepare(
+                `INSERT OR REPLACE INTO behavior_events (id, install_id, day_date, data_enc, iv, tag, synced_at, name_index, event_index)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            ).bind(
+                `${installId}:${date}:${index}`,
+                installId,
+                date,
+                encrypted.ciphertext,
+                encrypted.iv,
+                encrypted.tag,
+                syncedAt,
+                await eventNameIndex(indexKey, event.name),
+                index
+            )
+        );
+    }
+
+    return statements;
+}
+
+/**
+ * Decrypted events in `[from, to]`, grouped by day, newest day first. With
+ * `name`, only events whose normalized name matches are read: indexed rows by
+ * blind-index lookup, legacy rows by decrypting and filtering.
+ */
+export async function readEvents(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    range: { from: string; to: string; name?: string }
+): Promise<DayEvents[]> {
+    let sql = "SELECT id, day_date, data_enc, iv, tag, name_index, event_index FROM behavior_events WHERE install_id = ? AND day_date >= ? AND day_date <= ?";
+    const params: unknown[] = [installId, range.from, range.to];
+
+    const wanted = range.name === undefined ? null : normalizeEventName(range.name);
+    if (wanted !== null) {
+        sql += " AND (name_index = ? OR name_index IS NULL)";
+        params.push(await eventNameIndex(await deriveBlindIndexKey(dek), wanted));
+    }
+
+    const result = await env.SLEEP_DATA.prepare(`${sql} ORDER BY day_date DESC, event_index ASC`).bind(...params).all<EventRow>();
+
+    const byDate = new Map<string, SyncEvent[]>();
+    for (const row of result.results || []) {
+        const decrypted = JSON.parse(await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek)) as SyncEvent | SyncEvent[];
+        const events = row.name_index === null
+            ? (decrypted as SyncEvent[]).filter((event) => wanted === null || normalizeEventName(event.name) === wanted)
+            : [decrypted as SyncEvent];
+
+        if (events.length > 0) {
+            byDate.set(row.day_date, [...(byDate.get(row.day_date) ?? []), ...events]);
+        }
+    }
+
+    return [...byDate].map(([date, events]) => ({ date, events }));
+}
+
+/**
+ * Delete the event at `index` among the day's events, in the order
+ * `readEvents` returns them. The rest are rewritten as one row each, so later
+ * events move down one place. Returns the removed event, or null if the day
+ * has no event at `index`.
+ */
+export async function deleteEvent(env: Env, dek: CryptoKey, installId: string, date: string, index: number): Promise<SyncEvent | null> {
+    const [day] = await readEvents(env, dek, installId, { from: date, to: date });
+    const events = day?.events ?? [];
+    if (index >= events.length) {
+        return null;
+    }
+
+    const [removed] = events.splice(index, 1);
+    const indexKey = await deriveBlindIndexKey(dek);
+    await env.SLEEP_DATA.batch(await eventStatements(env, dek, indexKey, installId, date, events, new Date().toISOString(), true));
+    return removed;
+}
@@ -0,0 +1,215 @@
+import type { Env } from "../config";
+import { decrypt, encrypt } from "../crypto";
+import type { ExperimentCreate, ExperimentDesign, ExperimentStatus, ExperimentUpdate, NightMetric } from "../schema/agent";
+import { readStoredNights, type StoredNight } from "./day-store";
+import { readEvents } from "./event-store";
+import { NIGHT_METRIC_UNITS, nightMetric } from "./night-metrics";
+import { readInstallProfile } from "./profile";
+import { DEFAULT_SCORE_PROFILE } from "./sleep-score";
+import { bootstrapMeanDifference, cohensD, mean, permutationTest, roundTo, standardDeviation, type ConfidenceInterval } from "./statistics";
+
+/** Experiments kept per install; finished ones can be deleted to make room. */
+export const MAX_EXPERIMENTS = 100;
+
+/** Fewer nights than this in either group and the comparison reports no statistics. */
+export const MIN_NIGHTS_PER_GROUP = 3;
+
+const BOOTSTRAP_RESAMPLES = 2000;
+const PERMUTATIONS = 2000;
+const CONFIDENCE_LEVEL = 0.95;
+
+export interface Experiment {
+    id: string;
+    hypothesis: string;
+    metric: NightMetric;
+    design: ExperimentDesign;
+    status: ExperimentStatus;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ExperimentGroup {
+    nights: number;
+    dates: string[];
+    mean: number | null;
+    standardDeviation: number | null;
+}
+
+/** Intervention compared with baseline; differences are intervention − baseline. */
+export interface ExperimentComparison {
+    experimentId: string;
+    metric: NightMetric;
+    unit: string;
+    baseline: ExperimentGroup;
+    intervention: ExperimentGroup;
+    /** False when either group has fewer than MIN_NIGHTS_PER_GROUP nights; the statistics below are then null. */
+    sufficientData: boolean;
+    meanDifference: number | null;
+    /** Cohen's d; null when neither group varies. */
+    effectSize: number | null;
+    confidenceInterval: (ConfidenceInterval & { resamples: number }) | null;
+    /** Two-sided permutation test of the difference in means. */
+    pValue: number | null;
+    permutations: number | null;
+}
+
+interface ExperimentRow {
+    id: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+export async function createExperiment(env: Env, dek: CryptoKey, installId: string, input: ExperimentCreate): Promise<Experiment | null> {
+    const count = await env.SLEEP_DATA.prepare(
+        "SELECT COUNT(*) AS count FROM experiments WHERE install_id = ?"
+    ).bind(installId).first<{ count: number }>();
+    if ((count?.count ?? 0) >= MAX_EXPERIMENTS) {
+        return null;
+    }
+
+    const now = new Date().toISOString();
+    const experiment: Experiment = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+    await writeExperiment(env, dek, installId, experiment);
+    return experiment;
+}
+
+/** The install's experiments, newest first. */
+export async function listExperiments(env: Env, dek: CryptoKey, installId: string): Promise<Experiment[]> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT id, data_enc, iv, tag FROM experiments WHERE install_id = ? ORDER BY created_at DESC"
+    ).bind(installId).all<ExperimentRow>();
+
+    return Promise.all((result.results || []).map((row) => decryptExperiment(row, dek)));
+}
+
+export async function readExperiment(env: Env, dek: CryptoKey, installId: string, id: string): Promise<Experiment | null> {
+    const row = await env.SLEEP_DATA.prepare(
+        "SELECT id, data_enc, iv, tag FROM experiments WHERE install_id = ? AND id = ?"
+    ).bind(installId, id).first<ExperimentRow>();
+
+    return row ? decryptExperiment(row, dek) : null;
+}
+
+export async function updateExperiment(env: Env, dek: CryptoKey, installId: string, id: string, update: ExperimentUpdate): Promise<Experiment | null> {
+    const current = await readExperiment(env, dek, installId, id);
+    if (!current) {
+        return null;
+    }
+
+    const experiment: Experiment = { ...current, ...update, updatedAt: new Date().toISOString() };
+    await writeExperiment(env, dek, installId, experiment);
+    return experiment;
+}
+
+/** Returns whether the experiment existed. */
+export async function deleteExperiment(env: Env, installId: string, id: string): Promise<boolean> {
+    const result = await env.SLEEP_DATA.prepare(
+        "DELETE FROM experiments WHERE install_id = ? AND id = ?"
+    ).bind(installId, id).run();
+    return (result.meta.changes ?? 0) > 0;
+}
+
+export async function deleteExperiments(env: Env, installId: string): Promise<void> {
+    await env.SLEEP_DATA.prepare("DELETE FROM experiments WHERE install_id = ?").bind(installId).run();
+}
+
+/**
+ * Compare the experiment's intervention nights with its baseline nights on
+ * its metric. Nights without a value for the metric are left out. Resampling
+ * is seeded, so the same stored nights always give the same result.
+ */
+export async function compareExperiment(env: Env, dek: CryptoKey, installId: string, experiment: Experiment): Promise<ExperimentComparison> {
+    const scoreProfile = experiment.metric === "sleepScore"
+        ? (await readInstallProfile(env, dek, installId)).score ?? DEFAULT_SCORE_PROFILE
+        : DEFAULT_SCORE_PROFILE;
+    const { baseline, intervention } = await experimentGroups(env, dek, installId, experiment.design);
+
+    const valuesOf = (nights: StoredNight[]) => nights.flatMap((night) => {
+        const value = nightMetric(night.payload, experiment.metric, scoreProfile);
+        return value === null ? [] : [{ date: night.date, value }];
+    });
+    const baselineValues = valuesOf(baseline);
+    const interventionValues = valuesOf(intervention);
+    const control = baselineValues.map((night) => night.value);
+    const treatment = interventionValues.map((night) => night.value);
+
+    const comparison: ExperimentComparison = {
+        experimentId: experiment.id,
+        metric: experiment.metric,
+        unit: NIGHT_METRIC_UNITS[experiment.metric],
+        baseline: describeGroup(baselineValues),
+        intervention: describeGroup(interventionValues),
+        sufficientData: control.length >= MIN_NIGHTS_PER_GROUP && treatment.length >= MIN_NIGHTS_PER_GROUP,
+        meanDifference: null,
+        effectSize: null,
+        confidenceInterval: null,
+        pValue: null,
+        permutations: null
+    };
+    if (!comparison.sufficientData) {
+        return comparison;
+    }
+
+    const interval = bootstrapMeanDifference(control, treatment, { resamples: BOOTSTRAP_RESAMPLES, level: CONFIDENCE_LEVEL });
+    return {
+        ...comparison,
+        meanDifference: roundTo(mean(treatment) - mean(control), 3),
+        effectSize: roundTo(cohensD(control, treatment), 3),
+        confidenceInterval: {
+            level: interval.level,
+            lower: roundTo(interval.lower, 3)!,
+            upper: roundTo(interval.upper, 3)!,
+            resamples: BOOTSTRAP_RESAMPLES
+        },
+        pValue: roundTo(permutationTest(control, treatment, { permutations: PERMUTATIONS }), 4),
+        permutations: PERMUTATIONS
+    };
+}
+
+/** Baseline and intervention nights: by date range, or by whether the night carries the event. */
+async function experimentGroups(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    design: ExperimentDesign
+): Promise<{ baseline: StoredNight[]; intervention: StoredNight[] }> {
+    if (design.type === "ranges") {
+        const [baseline, intervention] = await Promise.all([
+            readStoredNights(env, dek, installId, design.baseline.from, design.baseline.to),
+            readStoredNights(env, dek, installId, design.intervention.from, design.intervention.to)
+        ]);
+        return { baseline, intervention };
+    }
+
+    const [nights, tagged] = await Promise.all([
+        readStoredNights(env, dek, installId, design.from, design.to),
+        readEvents(env, dek, installId, { from: design.from, to: design.to, name: design.event })
+    ]);
+    const taggedDates = new Set(tagged.map((day) => day.date));
+    return {
+        baseline: nights.filter((night) => !taggedDates.has(night.date)),
+        intervention: nights.filter((night) => taggedDates.has(night.date))
+    };
+}
+
+function describeGroup(nights: Array<{ date: string; value: number }>): ExperimentGroup {
+    const values = nights.map((night) => night.value);
+    return {
+        nights: nights.length,
+        dates: nights.map((night) => night.date),
+        mean: roundTo(mean(values), 3),
+        standardDeviation: roundTo(standardDeviation(values), 3)
+    };
+}
+
+async function writeExperiment(env: Env, dek: CryptoKey, installId: string, experiment: Experiment): Promise<void> {
+    const encrypted = await encrypt(JSON.stringify(experiment), dek);
+    await env.SLEEP_DATA.prepare(
+        "INSERT OR REPLACE INTO experiments (id, install_id, data_enc, iv, tag, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    ).bind(experiment.id, installId, encrypted.ciphertext, encrypted.iv, encrypted.tag, experiment.createdAt, experiment.updatedAt).run();
+}
+
+async function decryptExperiment(row: ExperimentRow, dek: CryptoKey): Promise<Experiment> {
+    return JSON.parse(await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek)) as Experiment;
+}
@@ -0,0 +1,207 @@
+import type { Env } from "../config";
+import type { ExportQuery, StoredSleepPayload } from "../schema/agent";
+import { readEvents, type SyncEvent } from "./event-store";
+import { openSleepPayload } from "./sleep-payload";
+
+/** Days decrypted per D1 page; only one page is held in memory at a time. */
+const EXPORT_PAGE_DAYS = 31;
+
+/** Stages exported as CSV columns, as the app records them. */
+const CSV_STAGES = ["inBed", "awake", "core", "rem", "deep"] as const;
+
+const CSV_SLEEP_FIELDS = [
+    "totalSleepHours",
+    "awakeningCount",
+    "mainSleepStartISO",
+    "mainSleepEndISO",
+    "averageHeartRate",
+    "averageHRV",
+    "averageRespiratoryRate",
+    "workoutMinutes",
+    "averageSpO2",
+    "restingHeartRate"
+] as const;
+
+/** One decrypted night with its events, as exported. */
+export interface ExportedDay extends StoredSleepPayload {
+    date: string;
+    syncedAt: string;
+    events: SyncEvent[];
+}
+
+interface SleepDayRow {
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    synced_at: string;
+}
+
+/**
+ * Decrypted nights in `[from, to]`, oldest first, read a page at a time so a
+ * long history never sits in memory at once.
+ */
+export async function* exportDays(env: Env, dek: CryptoKey, installId: string, from: string, to: string): AsyncGenerator<ExportedDay> {
+    let after: string | null = null;
+
+    while (true) {
+        const result: D1Result<SleepDayRow> = await env.SLEEP_DATA.prepare(
+            `SELECT day_date, data_enc, iv, tag, synced_at FROM sleep_days WHERE install_id = ? AND day_date ${after === null ? ">=" : ">"} ? AND day_date <= ? ORDER BY day_date ASC LIMIT ?`
+        ).bind(installId, after ?? from, to, EXPORT_PAGE_DAYS).all<SleepDayRow>();
+
+        const rows = result.results || [];
+        if (rows.length === 0) {
+            return;
+        }
+
+        const eventsByDate = new Map<string, SyncEvent[]>();
+        for (const day of await readEvents(env, dek, installId, { from: rows[0].day_date, to: rows[rows.length - 1].day_date })) {
+            eventsByDate.set(day.date, day.events);
+        }
+
+        for (const row of rows) {
+            const payload = await openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+            yield { date: row.day_date, syncedAt: row.synced_at, ...payload, events: eventsByDate.get(row.day_date) ?? [] };
+        }
+
+        if (rows.length < EXPORT_PAGE_DAYS) {
+            return;
+        }
+        after = rows[rows.length - 1].day_date;
+    }
+}
+
+/**
+ * Encode `days` as the requested format, pulling the next night only when
+ * the client has read the previous output.
+ */
+export function exportStream(days: AsyncIterator<ExportedDay>, query: Pick<ExportQuery, "format" | "file">, range: { from: string; to: string }): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const format = formatterFor(query, range);
+    let started = false;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!started) {
+                started = true;
+                if (format.header) {
+                    controller.enqueue(encoder.encode(format.header));
+                }
+            }
+
+            const next = await days.next();
+            if (next.done) {
+                if (format.footer) {
+                    controller.enqueue(encoder.encode(format.footer));
+                }
+                controller.close();
+                return;
+            }
+
+            const chunk = format.day(next.value);
+            if (chunk) {
+                controller.enqueue(encoder.encode(chunk));
+            }
+        },
+        async cancel() {
+            await days.return?.(undefined);
+        }
+    });
+}
+
+export function exportContentType(query: Pick<ExportQuery, "format">): string {
+    switch (query.format) {
+        case "json":
+            return "application/json";
+        case "ndjson":
+            return "application/x-ndjson";
+        case "csv":
+            return "text/csv; charset=utf-8";
+    }
+}
+
+export function exportFileName(query: Pick<ExportQuery, "format" | "file">, range: { from: string; to: string }): string {
+    const suffix = query.format === "csv" ? `-${query.file}` : "";
+    return `sleeplab-${range.from}-to-${range.to}${suffix}.${query.format}`;
+}
+
+interface ExportFormatter {
+    header?: string;
+    day(day: ExportedDay): string;
+    footer?: string;
+}
+
+function formatterFor(query: Pick<ExportQuery, "format" | "file">, range: { from: string; to: string }): ExportFormatter {
+    if (query.format === "ndjson") {
+        return { day: (day) => `${JSON.stringify(day)}\n` };
+    }
+
+    if (query.format === "json") {
+        let first = true;
+        return {
+            header: `{"from":${JSON.stringify(range.from)},"to":${JSON.stringify(range.to)},"days":[`,
+            day: (day) => {
+                const separator = first ? "" : ",";
+                first = false;
+                return `${separator}${JSON.stringify(day)}`;
+            },
+            footer: "]}\n"
+        };
+    }
+
+    switch (query.file) {
+        case "nights":
+            return {
+                header: csvLine([
+                    "date", "dayLabel", "dayStartISO", "timeZone", "syncedAt",
+                    ...CSV_SLEEP_FIELDS,
+                    ...CSV_STAGES.map((stage) => `${stage}Hours`),
+                    "eventCount"
+                ]),
+                day: (day) => {
+                    const stageHours = new Map((day.stageDurations).map((stage) => [stage.stage, stage.hours]));
+                    return csvLine([
+                        day.date, day.dayLabel, day.dayStartISO, day.timeZone, day.syncedAt,
+                        ...CSV_SLEEP_FIELDS.map((field) => day.sleep[field]),
+                        ...CSV_STAGES.map((stage) => stageHours.get(stage)),
+                        day.events.length
+                    ]);
+                }
+            };
+        case "segments":
+            return {
+                header: csvLine(["date", "stage", "startISO", "endISO", "durationMinutes"]),
+                day: (day) => day.segments
+                    .map((segment) => csvLine([day.date, segment.stage, segment.startISO, segment.endISO, segment.durationMinutes]))
+                    .join("")
+            };
+        case "events":
+            return {
+                header: csvLine(["date", "name", "timestampISO", "minutesBeforeMainSleepStart", "note"]),
+                day: (day) => day.events
+                    .map((event) => csvLine([day.date, event.name, event.timestampISO, event.minutesBeforeMainSleepStart, event.note]))
+                    .join("")
+            };
+    }
+}
+
+function csvLine(values: unknown[]): string {
+    return `${values.map(csvField).join(",")}\r\n`;
+}
+
+/**
+ * RFC 4180 quoting; missing values become empty fields. Text that a
+ * spreadsheet would run as a formula (e.g. an event named "=cmd") gets a
+ * leading apostrophe.
+ */
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+
+    let text = String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
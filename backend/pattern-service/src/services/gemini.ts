@@ -1,6 +1,7 @@
 import type { ServiceConfig } from "../config";
 import type { PatternAnalysisRequest } from "../schema/request";
 import { fallbackResponse, patternAnalysisResponseSchema, type PatternAnalysisResponse } from "../schema/response";
+import type { EventCorrelation } from "./correlations";
 import { buildPatternPrompt, outputSchemaForGemini } from "./prompt";
 
 interface GeminiGenerateResponse {
@@ -11,8 +12,12 @@ interface GeminiGenerateResponse {
   }>;
 }
 
-export async function generatePatternInsights(payload: PatternAnalysisRequest, config: ServiceConfig): Promise<PatternAnalysisResponse> {
-  const prompt = buildPatternPrompt(payload);
+export async function generatePatternInsights(
+  payload: PatternAnalysisRequest,
+  config: ServiceConfig,
+  evidence: EventCorrelation[] | null = null
+): Promise<PatternAnalysisResponse> {
+  const prompt = buildPatternPrompt(payload, evidence);
   const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${config.geminiModel}:generateContent?key=${config.geminiApiKey}`;
 
   const response = await fetch(endpoint, {
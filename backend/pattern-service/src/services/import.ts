@@ -0,0 +1,406 @@
+import type { SyncDay } from "../schema/agent";
+import { isValidTimeZone } from "../util/time-zone";
+
+export type ImportFormat = "apple-health" | "csv";
+
+/** Stages as the app records them, in the order it reports stage durations. */
+export const IMPORT_STAGES = ["inBed", "awake", "core", "rem", "deep"] as const;
+
+export type ImportStage = typeof IMPORT_STAGES[number];
+
+/** A record that was left out, with the line it came from, or a night, with its date. */
+export interface ImportIssue {
+    line?: number;
+    date?: string;
+    reason: string;
+}
+
+/** One sleep interval read from an import file. */
+export interface ImportedSegment {
+    line: number;
+    stage: ImportStage;
+    startMs: number;
+    endMs: number;
+    /** UTC offset (`+01:00`) the record was written in; decides which local day it belongs to. */
+    offset: string;
+}
+
+/** Skipped and invalid records are counted in full but only the first MAX_REPORTED_ISSUES of each are listed. */
+export interface ParsedImport {
+    segments: ImportedSegment[];
+    skipped: ImportIssue[];
+    skippedCount: number;
+    invalid: ImportIssue[];
+    invalidCount: number;
+}
+
+export const MAX_REPORTED_ISSUES = 100;
+
+interface ImportBuilder extends ParsedImport {
+    /** First line of each stage/start/end seen so far. */
+    seen: Map<string, number>;
+}
+
+const SLEEP_ANALYSIS_TYPE = "HKCategoryTypeIdentifierSleepAnalysis";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Gaps up to this long still belong to the same sleep window, as in the app. */
+const MAIN_SLEEP_GAP_MS = 45 * 60 * 1000;
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * `2026-03-18T23:10:00+01:00`, `2026-03-18T22:10:00.000Z`, or Apple Health's
+ * `2026-03-18 23:10:00 +0100`. The offset is required.
+ */
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d{1,3})?)?\s*(Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Map a stage name from an import file onto the app's stages: Apple Health
+ * values (`HKCategoryValueSleepAnalysisAsleepREM`), SleepLab names (`inBed`,
+ * `rem`) and common spellings (`In Bed`, `light`). Unspecified and light
+ * sleep count as core, as they do in the app. Returns null for anything else.
+ */
+export function normalizeStageName(value: string): ImportStage | null {
+    const key = value.trim().replace(/^HKCategoryValueSleepAnalysis/, "").toLowerCase().replace(/[^a-z]/g, "");
+
+    switch (key) {
+        case "inbed":
+            return "inBed";
+        case "awake":
+            return "awake";
+        case "core":
+        case "light":
+        case "asleep":
+        case "asleepcore":
+        case "asleepunspecified":
+            return "core";
+        case "rem":
+        case "asleeprem":
+            return "rem";
+        case "deep":
+        case "asleepdeep":
+            return "deep";
+        default:
+            return null;
+    }
+}
+
+/**
+ * Epoch milliseconds and UTC offset of a timestamp in one of the accepted
+ * forms, or null if it is malformed or has no offset.
+ */
+export function parseImportTimestamp(value: string): { ms: number; offset: string } | null {
+    const match = TIMESTAMP_PATTERN.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+
+    const [, year, month, day, hour, minute, second = "00", fraction = "", zone] = match;
+    const offset = zone === "Z" ? "+00:00" : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+    if (!isValidTimeZone(offset)) {
+        return null;
+    }
+
+    const local = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Math.round(Number(`0${fraction}`) * 1000));
+    // Reject dates that Date.UTC would roll over, like 2026-02-30
+    if (new Date(local).toISOString().substring(0, 19) !== `${year}-${month}-${day}T${hour}:${minute}:${second}`) {
+        return null;
+    }
+
+    return { ms: local - offsetMinutes(offset) * 60_000, offset };
+}
+
+/** Read an import file in `format`. */
+export function parseImport(format: ImportFormat, text: string): ParsedImport {
+    return format === "apple-health" ? parseAppleHealthXML(text) : parseSleepCSV(text);
+}
+
+/**
+ * Sleep-analysis records from an Apple Health `export.xml` (or any subset of
+ * it). Other record types are reported as skipped.
+ */
+export function parseAppleHealthXML(text: string): ParsedImport {
+    const result = emptyImport();
+    const lineAt = lineCounter(text);
+    const recordPattern = /<Record\b([^>]*?)\/?>/g;
+
+    for (let match = recordPattern.exec(text); match; match = recordPattern.exec(text)) {
+        const line = lineAt(match.index);
+        const attributes = xmlAttributes(match[1]);
+
+        if (attributes.type !== SLEEP_ANALYSIS_TYPE) {
+            reportSkipped(result, { line, reason: `Not a sleep-analysis record (${attributes.type ?? "no type"})` });
+            continue;
+        }
+
+        addSegment(result, line, attributes.value, attributes.startDate, attributes.endDate);
+    }
+
+    return finish(result);
+}
+
+/**
+ * Sleep intervals from a CSV file with a header row naming at least the
+ * `stage`, `startISO` and `endISO` columns, in any order. Other columns are
+ * ignored.
+ */
+export function parseSleepCSV(text: string): ParsedImport {
+    const result = emptyImport();
+    const rows = csvRows(text);
+    const header = rows.shift();
+    if (!header) {
+        reportInvalid(result, { line: 1, reason: "Missing header row" });
+        return finish(result);
+    }
+
+    const columns = header.fields.map((field) => field.trim().toLowerCase());
+    const stageColumn = columns.indexOf("stage");
+    const startColumn = columns.indexOf("startiso");
+    const endColumn = columns.indexOf("endiso");
+    if (stageColumn < 0 || startColumn < 0 || endColumn < 0) {
+        reportInvalid(result, { line: header.line, reason: "Header must name the stage, startISO and endISO columns" });
+        return finish(result);
+    }
+
+    for (const row of rows) {
+        if (row.fields.every((field) => field.trim() === "")) {
+            continue;
+        }
+        addSegment(result, row.line, row.fields[stageColumn], row.fields[startColumn], row.fields[endColumn]);
+    }
+
+    return finish(result);
+}
+
+/**
+ * Group imported segments into nights the way the app does: each segment is
+ * split at local midnight (in the offset it was recorded in) and filed under
+ * that local date. Returns one day per date, oldest first, without events.
+ */
+export function buildImportedDays(segments: ImportedSegment[]): SyncDay[] {
+    const byDate = new Map<string, { dayStartMs: number; offset: string; segments: ImportedSegment[] }>();
+
+    for (const segment of segments) {
+        const shift = offsetMinutes(segment.offset) * 60_000;
+        let cursor = segment.startMs;
+
+        while (cursor < segment.endMs) {
+            const dayStartMs = Math.floor((cursor + shift) / DAY_MS) * DAY_MS - shift;
+            const end = Math.min(segment.endMs, dayStartMs + DAY_MS);
+            const date = new Date(dayStartMs + shift).toISOString().substring(0, 10);
+
+            let night = byDate.get(date);
+            if (!night) {
+                night = { dayStartMs, offset: segment.offset, segments: [] };
+                byDate.set(date, night);
+            }
+            night.segments.push({ ...segment, startMs: cursor, endMs: end });
+            cursor = end;
+        }
+    }
+
+    return [...byDate.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, night]) => buildDay(date, night.dayStartMs, night.offset, night.segments));
+}
+
+export function reportSkipped(result: ParsedImport, issue: ImportIssue): void {
+    result.skippedCount += 1;
+    if (result.skipped.length < MAX_REPORTED_ISSUES) {
+        result.skipped.push(issue);
+    }
+}
+
+export function reportInvalid(result: ParsedImport, issue: ImportIssue): void {
+    result.invalidCount += 1;
+    if (result.invalid.length < MAX_REPORTED_ISSUES) {
+        result.invalid.push(issue);
+    }
+}
+
+function buildDay(date: string, dayStartMs: number, offset: string, segments: ImportedSegment[]): SyncDay {
+    const ordered = [...segments].sort((a, b) => a.startMs - b.startMs || a.endMs - b.endMs);
+    const seconds = new Map<ImportStage, number>();
+    for (const segment of ordered) {
+        seconds.set(segment.stage, (seconds.get(segment.stage) ?? 0) + (segment.endMs - segment.startMs) / 1000);
+    }
+
+    const asleepSeconds = IMPORT_STAGES.filter((stage) => stage !== "awake").reduce((sum, stage) => sum + (seconds.get(stage) ?? 0), 0);
+    const mainSleep = mainSleepWindow(ordered);
+    const [, month, day] = date.split("-").map(Number);
+
+    return {
+        dayLabel: `${MONTH_LABELS[month - 1]} ${day}`,
+        dayStartISO: new Date(dayStartMs).toISOString(),
+        timeZone: offset,
+        sleep: {
+            totalSleepHours: asleepSeconds / 3600,
+            awakeningCount: ordered.filter((segment) => segment.stage === "awake").length,
+            mainSleepStartISO: mainSleep ? new Date(mainSleep.start).toISOString() : null,
+            mainSleepEndISO: mainSleep ? new Date(mainSleep.end).toISOString() : null
+        },
+        stageDurations: IMPORT_STAGES.map((stage) => ({ stage, hours: (seconds.get(stage) ?? 0) / 3600 })),
+        // The hypnogram shows time in bed as core sleep, as the app sends it
+        segments: ordered.map((segment) => ({
+            stage: segment.stage === "inBed" ? "core" : segment.stage,
+            startISO: new Date(segment.startMs).toISOString(),
+            endISO: new Date(segment.endMs).toISOString(),
+            durationMinutes: (segment.endMs - segment.startMs) / 60_000
+        })),
+        events: []
+    };
+}
+
+/** Longest run of segments separated by gaps of at most 45 minutes. */
+function mainSleepWindow(ordered: ImportedSegment[]): { start: number; end: number } | null {
+    let best: { start: number; end: number; duration: number } | null = null;
+    let current: { start: number; end: number; duration: number } | null = null;
+
+    for (const segment of ordered) {
+        const duration = segment.endMs - segment.startMs;
+        if (current && segment.startMs - current.end <= MAIN_SLEEP_GAP_MS) {
+            current.end = Math.max(current.end, segment.endMs);
+            current.duration += duration;
+        } else {
+            current = { start: segment.startMs, end: segment.endMs, duration };
+        }
+        if (!best || current.duration > best.duration) {
+            best = { ...current };
+        }
+    }
+
+    return best && { start: best.start, end: best.end };
+}
+
+function emptyImport(): ImportBuilder {
+    return { segments: [], skipped: [], skippedCount: 0, invalid: [], invalidCount: 0, seen: new Map() };
+}
+
+function finish({ seen: _seen, ...parsed }: ImportBuilder): ParsedImport {
+    return parsed;
+}
+
+/** Validate one record and add it, reporting exact repeats (common when a file is exported twice) as skipped. */
+function addSegment(result: ImportBuilder, line: number, stageValue: string | undefined, startValue: string | undefined, endValue: string | undefined): void {
+    const stage = normalizeStageName(stageValue ?? "");
+    if (!stage) {
+        reportInvalid(result, { line, reason: `Unknown sleep stage: ${stageValue ?? "(missing)"}` });
+        return;
+    }
+
+    const start = parseImportTimestamp(startValue ?? "");
+    const end = parseImportTimestamp(endValue ?? "");
+    if (!start || !end) {
+        reportInvalid(result, { line, reason: "Start and end must be timestamps with a UTC offset" });
+        return;
+    }
+    if (end.ms <= start.ms) {
+        reportInvalid(result, { line, reason: "End is not after start" });
+        return;
+    }
+
+    const key = `${stage}|${start.ms}|${end.ms}`;
+    const firstLine = result.seen.get(key);
+    if (firstLine !== undefined) {
+        reportSkipped(result, { line, reason: `Duplicate of line ${firstLine}` });
+        return;
+    }
+    result.seen.set(key, line);
+
+    result.segments.push({ line, stage, startMs: start.ms, endMs: end.ms, offset: start.offset });
+}
+
+function offsetMinutes(offset: string): number {
+    const sign = offset.startsWith("-") ? -1 : 1;
+    return sign * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)));
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([A-Za-z_][\w.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = unescapeXML(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+function unescapeXML(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, name: string) => {
+        switch (name.toLowerCase()) {
+            case "lt": return "<";
+            case "gt": return ">";
+            case "amp": return "&";
+            case "quot": return "\"";
+            case "apos": return "'";
+        }
+        const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    });
+}
+
+/** Line number (1-based) of an offset into `text`; offsets must be asked for in increasing order. */
+function lineCounter(text: string): (offset: number) => number {
+    let line = 1;
+    let scanned = 0;
+    return (offset) => {
+        for (; scanned < offset; scanned += 1) {
+            if (text.charCodeAt(scanned) === 10) {
+                line += 1;
+            }
+        }
+        return line;
+    };
+}
+
+/** RFC 4180 rows, with the line each row starts on. Quoted fields may span lines. */
+function csvRows(text: string): Array<{ line: number; fields: string[] }> {
+    const rows: Array<{ line: number; fields: string[] }> = [];
+    let fields: string[] = [];
+    let field = "";
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let index = text.charCodeAt(0) === 0xfeff ? 1 : 0; index < text.length; index += 1) {
+        const char = text[index];
+
+        if (quoted) {
+            if (char === "\"" && text[index + 1] === "\"") {
+                field += "\"";
+                index += 1;
+            } else if (char === "\"") {
+                quoted = false;
+            } else {
+                if (char === "\n") {
+                    line += 1;
+                }
+                field += char;
+            }
+        } else if (char === "\"") {
+            quoted = true;
+        } else if (char === ",") {
+            fields.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[index + 1] === "\n") {
+                index += 1;
+            }
+            fields.push(field);
+            rows.push({ line: rowLine, fields });
+            fields = [];
+            field = "";
+            line += 1;
+            rowLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || fields.length > 0) {
+        fields.push(field);
+        rows.push({ line: rowLine, fields });
+    }
+
+    return rows;
+}
@@ -0,0 +1,39 @@
+import type { NightMetric, StoredSleepPayload } from "../schema/agent";
+import { DEFAULT_SCORE_PROFILE, scoreNight, type ScoreProfile } from "./sleep-score";
+
+export const NIGHT_METRIC_UNITS: Record<NightMetric, string> = {
+    totalSleepHours: "h",
+    deepHours: "h",
+    remHours: "h",
+    awakeningCount: "count",
+    averageHeartRate: "bpm",
+    restingHeartRate: "bpm",
+    averageHRV: "ms",
+    averageRespiratoryRate: "breaths/min",
+    averageSpO2: "%",
+    workoutMinutes: "min",
+    sleepScore: "score"
+};
+
+/**
+ * One night's value of `metric`, or null when the night has none. Stage
+ * hours are null when the app recorded no such stage; `sleepScore` uses
+ * `scoreProfile`.
+ */
+export function nightMetric(payload: StoredSleepPayload, metric: NightMetric, scoreProfile: ScoreProfile = DEFAULT_SCORE_PROFILE): number | null {
+    switch (metric) {
+        case "deepHours":
+            return stageHours(payload, "deep");
+        case "remHours":
+            return stageHours(payload, "rem");
+        case "sleepScore":
+            return scoreNight(payload, scoreProfile).score;
+        default:
+            return payload.sleep[metric];
+    }
+}
+
+function stageHours(payload: StoredSleepPayload, stage: string): number | null {
+    const matching = payload.stageDurations.filter((duration) => duration.stage === stage);
+    return matching.length === 0 ? null : matching.reduce((total, duration) => total + duration.hours, 0);
+}
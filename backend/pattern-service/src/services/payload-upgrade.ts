@@ -0,0 +1,118 @@
+import type { Env, ServiceConfig } from "../config";
+import { unwrapVersionedDEK } from "../crypto";
+import { readInstallRecord } from "../auth/agent-auth";
+import type { StoredSleepPayload } from "../schema/agent";
+import { openSleepPayload, sealSleepPayload, SLEEP_PAYLOAD_VERSION } from "./sleep-payload";
+
+interface StaleDayRow {
+    id: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    schema_version: number;
+}
+
+/** Rows not already marked as failing to reach the current version (bind SLEEP_PAYLOAD_VERSION). */
+const NOT_FAILED = "(upgrade_failed_version IS NULL OR upgrade_failed_version < ?)";
+
+export interface PayloadUpgradeReport {
+    installs: number;
+    upgraded: number;
+    /**
+     * Rows that could not be decrypted, did not validate after upgrading, or
+     * belong to an install without a DEK. They are left as they are and marked
+     * so later runs skip them until a newer payload version is deployed.
+     */
+    failed: number;
+    /** True when the run stopped at its cap; stale rows may remain. */
+    truncated: boolean;
+}
+
+/**
+ * Re-encrypt sleep days stored at an older payload version as current-version
+ * envelopes, install by install. Reads upgrade old rows on the fly either
+ * way; this saves them the work and lets old upgraders be retired once no row
+ * is left below the current version. Rows that fail are marked with
+ * `upgrade_failed_version` and skipped by later runs, so each run moves on.
+ * `limit` caps the rows touched per run so a cron invocation stays inside its
+ * CPU budget.
+ */
+export async function upgradeStaleSleepPayloads(env: Env, config: ServiceConfig, limit: number): Promise<PayloadUpgradeReport> {
+    const report: PayloadUpgradeReport = { installs: 0, upgraded: 0, failed: 0, truncated: false };
+
+    const installs = await env.SLEEP_DATA.prepare(
+        `SELECT DISTINCT install_id FROM sleep_days WHERE schema_version < ? AND ${NOT_FAILED} LIMIT ?`
+    ).bind(SLEEP_PAYLOAD_VERSION, SLEEP_PAYLOAD_VERSION, limit).all<{ install_id: string }>();
+
+    for (const { install_id: installId } of installs.results || []) {
+        const budget = limit - report.upgraded - report.failed;
+        if (budget <= 0) {
+            report.truncated = true;
+            break;
+        }
+
+        // Rows of an install without a DEK can never be read again; revoking deletes them
+        const installRecord = await readInstallRecord(installId, config.agentKeyHashSecret, env);
+        if (!installRecord) {
+            const marked = await env.SLEEP_DATA.prepare(
+                "UPDATE sleep_days SET upgrade_failed_version = ? WHERE install_id = ? AND schema_version < ?"
+            ).bind(SLEEP_PAYLOAD_VERSION, installId, SLEEP_PAYLOAD_VERSION).run();
+            report.failed += marked.meta.changes;
+            continue;
+        }
+
+        const dek = await unwrapVersionedDEK(installRecord, config.encryptionKeks);
+        const result = await upgradeInstallSleepPayloads(env, dek, installId, budget);
+        report.installs += 1;
+        report.upgraded += result.upgraded;
+        report.failed += result.failed;
+        report.truncated ||= result.truncated;
+    }
+
+    return report;
+}
+
+/** Upgrade up to `limit` of one install's stale days, marking the ones that fail. */
+export async function upgradeInstallSleepPayloads(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    limit: number
+): Promise<Omit<PayloadUpgradeReport, "installs">> {
+    const result = await env.SLEEP_DATA.prepare(
+        `SELECT id, data_enc, iv, tag, schema_version FROM sleep_days WHERE install_id = ? AND schema_version < ? AND ${NOT_FAILED} LIMIT ?`
+    ).bind(installId, SLEEP_PAYLOAD_VERSION, SLEEP_PAYLOAD_VERSION, limit).all<StaleDayRow>();
+
+    const rows = result.results || [];
+    const report = { upgraded: 0, failed: 0, truncated: rows.length === limit };
+    const statements: D1PreparedStatement[] = [];
+
+    for (const row of rows) {
+        let payload: StoredSleepPayload;
+        try {
+            payload = await openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+        } catch {
+            statements.push(
+                env.SLEEP_DATA.prepare(
+                    "UPDATE sleep_days SET upgrade_failed_version = ? WHERE id = ? AND schema_version = ?"
+                ).bind(SLEEP_PAYLOAD_VERSION, row.id, row.schema_version)
+            );
+            report.failed += 1;
+            continue;
+        }
+
+        const encrypted = await sealSleepPayload(payload, dek);
+        // A sync that rewrote the row since it was read has already stored the current version
+        statements.push(
+            env.SLEEP_DATA.prepare(
+                "UPDATE sleep_days SET data_enc = ?, iv = ?, tag = ?, schema_version = ? WHERE id = ? AND schema_version = ?"
+            ).bind(encrypted.ciphertext, encrypted.iv, encrypted.tag, SLEEP_PAYLOAD_VERSION, row.id, row.schema_version)
+        );
+        report.upgraded += 1;
+    }
+
+    if (statements.length > 0) {
+        await env.SLEEP_DATA.batch(statements);
+    }
+    return report;
+}
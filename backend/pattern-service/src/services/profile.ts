@@ -0,0 +1,38 @@
+import type { Env } from "../config";
+import { decrypt, encrypt } from "../crypto";
+import type { ScoreProfile } from "./sleep-score";
+
+/** Per-install settings the server computes with, encrypted with the install's DEK. */
+export interface InstallProfile {
+    /** Unset until the app first edits it; scoring then uses DEFAULT_SCORE_PROFILE. */
+    score?: ScoreProfile;
+}
+
+interface ProfileRow {
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+/** The install's profile, or an empty one when it never saved any. */
+export async function readInstallProfile(env: Env, dek: CryptoKey, installId: string): Promise<InstallProfile> {
+    const row = await env.SLEEP_DATA.prepare(
+        "SELECT data_enc, iv, tag FROM install_profiles WHERE install_id = ?"
+    ).bind(installId).first<ProfileRow>();
+
+    if (!row) {
+        return {};
+    }
+    return JSON.parse(await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek)) as InstallProfile;
+}
+
+export async function writeInstallProfile(env: Env, dek: CryptoKey, installId: string, profile: InstallProfile): Promise<void> {
+    const encrypted = await encrypt(JSON.stringify(profile), dek);
+    await env.SLEEP_DATA.prepare(
+        "INSERT OR REPLACE INTO install_profiles (install_id, data_enc, iv, tag, updated_at) VALUES (?, ?, ?, ?, ?)"
+    ).bind(installId, encrypted.ciphertext, encrypted.iv, encrypted.tag, new Date().toISOString()).run();
+}
+
+export async function deleteInstallProfile(env: Env, installId: string): Promise<void> {
+    await env.SLEEP_DATA.prepare("DELETE FROM install_profiles WHERE install_id = ?").bind(installId).run();
+}
@@ -1,6 +1,19 @@
 import type { PatternAnalysisRequest } from "../schema/request";
+import { localDateKey } from "../util/time-zone";
+import { correlateEvent, type CorrelationNight, type EventCorrelation } from "./correlations";
+import { normalizeEventName } from "./event-store";
+
+/** `evidence` is left out of the prompt when null or empty. */
+export function buildPatternPrompt(payload: PatternAnalysisRequest, evidence: EventCorrelation[] | null = null): string {
+  const computed = evidence && evidence.length > 0
+    ? [
+      "Computed evidence compares the install's stored nights with and without each event, and by how long before sleep it happened.",
+      "Weigh it by its sample sizes and confidence flags; do not claim more than they support.",
+      "Computed evidence:",
+      JSON.stringify(evidence)
+    ]
+    : [];
 
-export function buildPatternPrompt(payload: PatternAnalysisRequest): string {
   return [
     "You are analyzing personal sleep experiments.",
     "Return JSON only matching the schema.",
@@ -8,11 +21,38 @@ export function buildPatternPrompt(payload: PatternAnalysisRequest): string {
     "If evidence is weak or conflicting, set noClearPattern=true and explain uncertainty.",
     "Prioritize links between event timing, sleep stages, and physiology metrics (HR, HRV, respiratory rate, workout).",
     "Use the selected dates exactly as provided.",
+    ...computed,
     "Payload:",
     JSON.stringify(payload)
   ].join("\n");
 }
 
+/**
+ * Event correlations for each event name in the selected dates, over the
+ * install's stored `nights` with the selected dates in place of the stored
+ * copies of the same days, so the model works from computed differences
+ * rather than its own arithmetic.
+ */
+export function eventEvidence(payload: PatternAnalysisRequest, nights: readonly CorrelationNight[]): EventCorrelation[] {
+  const selected = new Map(payload.selectedDates.map((day) => {
+    const date = localDateKey(day.dayStartISO, day.timeZone);
+    const sleep = { ...day.sleep, averageSpO2: day.sleep.averageSpO2 ?? null, restingHeartRate: day.sleep.restingHeartRate ?? null };
+    return [date, { date, payload: { ...day, timeZone: day.timeZone ?? null, sleep }, events: day.events }];
+  }));
+  const merged = [...nights.filter((night) => !selected.has(night.date)), ...selected.values()]
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const names = new Map<string, string>();
+  for (const event of payload.selectedDates.flatMap((day) => day.events)) {
+    const key = normalizeEventName(event.name);
+    if (!names.has(key)) {
+      names.set(key, event.name);
+    }
+  }
+
+  return [...names.values()].map((name) => correlateEvent(merged, name));
+}
+
 export function outputSchemaForGemini() {
   return {
     type: "OBJECT",
@@ -0,0 +1,185 @@
+import { errorResponse } from "../util/http";
+
+/**
+ * Routes that share a bucket. Install-authenticated classes are keyed by
+ * install id, agent classes by verified API key and by the key's install.
+ */
+export type RouteClass = "analyze" | "sync" | "import" | "export" | "agent-admin" | "agent-read" | "agent-range";
+
+export const ROUTE_CLASSES: readonly RouteClass[] = ["analyze", "sync", "import", "export", "agent-admin", "agent-read", "agent-range"];
+
+/** Token bucket: up to `capacity` requests in a burst, refilled at `refillPerMinute` (may be fractional). */
+export interface RateLimitPolicy {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export type RateLimitPolicies = Record<RouteClass, RateLimitPolicy>;
+
+/**
+ * Defaults, overridable per class via the `RATE_LIMITS` var.
+ * `analyze` costs a Gemini call; `import` encrypts up to 400 nights; `export` decrypts the whole history; `agent-range` decrypts a date range per call.
+ */
+export const DEFAULT_RATE_LIMITS: RateLimitPolicies = {
+  analyze: { capacity: 5, refillPerMinute: 0.2 },
+  sync: { capacity: 20, refillPerMinute: 4 },
+  import: { capacity: 5, refillPerMinute: 0.2 },
+  export: { capacity: 3, refillPerMinute: 0.1 },
+  "agent-admin": { capacity: 20, refillPerMinute: 5 },
+  "agent-read": { capacity: 60, refillPerMinute: 30 },
+  "agent-range": { capacity: 10, refillPerMinute: 2 }
+};
+
+export interface BucketState {
+  tokens: number;
+  updatedAtMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Seconds until the next token; 0 when allowed. */
+  retryAfterSeconds: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+}
+
+/** Persists bucket state. Implementations must make each `take` atomic per bucket. */
+export interface RateLimitStore {
+  take(bucket: string, policy: RateLimitPolicy, nowMs: number): Promise<RateLimitDecision>;
+}
+
+/**
+ * Refill `state` up to `nowMs` and try to spend one token. Pure, so stores
+ * only have to persist the returned state.
+ */
+export function takeToken(
+  state: BucketState | null,
+  policy: RateLimitPolicy,
+  nowMs: number
+): { state: BucketState; decision: RateLimitDecision } {
+  const available = refilledTokens(state, policy, nowMs);
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAtMs: nowMs },
+    decision: decisionFor(allowed, tokens, policy)
+  };
+}
+
+/**
+ * D1-backed store. The conditional upsert refills and spends in one statement,
+ * so concurrent requests cannot both take the last token.
+ */
+export function createD1RateLimitStore(db: D1Database): RateLimitStore {
+  return {
+    async take(bucket: string, policy: RateLimitPolicy, nowMs: number): Promise<RateLimitDecision> {
+      const perMs = refillPerMs(policy);
+
+      const spent = await db
+        .prepare(
+          `INSERT INTO rate_limit_buckets (bucket, tokens, updated_at) VALUES (?1, ?2 - 1, ?3)
+           ON CONFLICT(bucket) DO UPDATE SET
+             tokens = MIN(?2, tokens + MAX(0, ?3 - updated_at) * ?4) - 1,
+             updated_at = ?3
+           WHERE MIN(?2, tokens + MAX(0, ?3 - updated_at) * ?4) >= 1
+           RETURNING tokens`
+        )
+        .bind(bucket, policy.capacity, nowMs, perMs)
+        .first<{ tokens: number }>();
+
+      if (spent) {
+        return decisionFor(true, spent.tokens, policy);
+      }
+
+      const row = await db
+        .prepare("SELECT tokens, updated_at FROM rate_limit_buckets WHERE bucket = ?")
+        .bind(bucket)
+        .first<{ tokens: number; updated_at: number }>();
+
+      const state = row ? { tokens: row.tokens, updatedAtMs: row.updated_at } : null;
+      return decisionFor(false, refilledTokens(state, policy, nowMs), policy);
+    }
+  };
+}
+
+/** Drop buckets idle long enough to have refilled completely; they would restart full anyway. */
+export async function purgeIdleRateLimitBuckets(db: D1Database, idleBeforeMs: number): Promise<number> {
+  const result = await db.prepare("DELETE FROM rate_limit_buckets WHERE updated_at < ?").bind(idleBeforeMs).run();
+  return result.meta.changes ?? 0;
+}
+
+/**
+ * Spend a token from each of `buckets` and run `handler` if every one had one.
+ * Allowed responses carry the `X-RateLimit-*` headers of the bucket with the fewest tokens left;
+ * denied requests get a 429 with `Retry-After`. Buckets are taken in order and a denial stops there:
+ * later buckets are untouched, but tokens already taken from earlier ones stay spent, since a take
+ * is only atomic per bucket.
+ */
+export async function withRateLimit(
+  store: RateLimitStore,
+  buckets: string | readonly string[],
+  policy: RateLimitPolicy,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const nowMs = Date.now();
+  let tightest: RateLimitDecision | null = null;
+
+  for (const bucket of typeof buckets === "string" ? [buckets] : buckets) {
+    const decision = await store.take(bucket, policy, nowMs);
+
+    if (!decision.allowed) {
+      const response = errorResponse(429, "Rate limit exceeded", { retryAfterSeconds: decision.retryAfterSeconds });
+      setRateLimitHeaders(response.headers, decision);
+      response.headers.set("Retry-After", String(decision.retryAfterSeconds));
+      return response;
+    }
+
+    if (!tightest || decision.remaining < tightest.remaining) {
+      tightest = decision;
+    }
+  }
+
+  const response = await handler();
+  const limited = new Response(response.body, response);
+  if (tightest) {
+    setRateLimitHeaders(limited.headers, tightest);
+  }
+  return limited;
+}
+
+function setRateLimitHeaders(headers: Headers, decision: RateLimitDecision): void {
+  headers.set("X-RateLimit-Limit", String(decision.limit));
+  headers.set("X-RateLimit-Remaining", String(decision.remaining));
+  headers.set("X-RateLimit-Reset", String(decision.resetSeconds));
+}
+
+function refillPerMs(policy: RateLimitPolicy): number {
+  return policy.refillPerMinute / 60_000;
+}
+
+function refilledTokens(state: BucketState | null, policy: RateLimitPolicy, nowMs: number): number {
+  if (!state) {
+    return policy.capacity;
+  }
+
+  const elapsedMs = Math.max(0, nowMs - state.updatedAtMs);
+  return Math.min(policy.capacity, state.tokens + elapsedMs * refillPerMs(policy));
+}
+
+function decisionFor(allowed: boolean, tokens: number, policy: RateLimitPolicy): RateLimitDecision {
+  const perMs = refillPerMs(policy);
+  const secondsUntil = (target: number) =>
+    tokens >= target ? 0 : perMs > 0 ? Math.ceil((target - tokens) / perMs / 1000) : Number.MAX_SAFE_INTEGER;
+
+  return {
+    allowed,
+    limit: policy.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    retryAfterSeconds: allowed ? 0 : secondsUntil(1),
+    resetSeconds: secondsUntil(policy.capacity)
+  };
+}
@@ -0,0 +1,37 @@
+import type { Env } from "../config";
+import { localDateKey } from "../util/time-zone";
+import { foldPendingDays } from "./rollups";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** First day key (YYYY-MM-DD) still inside a retention window of `retentionDays`, counted in `timeZone` (default UTC). */
+export function retentionCutoff(retentionDays: number, now = Date.now(), timeZone?: string): string {
+    return localDateKey(now - retentionDays * DAY_MS, timeZone);
+}
+
+/** Upper bound on `foldPendingDays` batches per purge; anything left is folded and purged next time. */
+const MAX_FOLD_BATCHES = 10;
+
+/**
+ * Delete the install's synced days older than its retention window, after
+ * making sure each of them is counted in the weekly and monthly rollups.
+ * Returns the number of sleep days removed.
+ */
+export async function purgeExpiredDays(env: Env, dek: CryptoKey, installId: string, retentionDays: number): Promise<number> {
+    const cutoffDate = retentionCutoff(retentionDays);
+
+    for (let batch = 0; batch < MAX_FOLD_BATCHES; batch += 1) {
+        if (await foldPendingDays(env, dek, installId, cutoffDate) === 0) {
+            break;
+        }
+    }
+
+    const [sleepDays] = await env.SLEEP_DATA.batch([
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_days WHERE install_id = ? AND day_date < ? AND rolled_up = 1").bind(installId, cutoffDate),
+        env.SLEEP_DATA.prepare("DELETE FROM behavior_events WHERE install_id = ? AND day_date < ?").bind(installId, cutoffDate),
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_series WHERE install_id = ? AND day_date < ?").bind(installId, cutoffDate),
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_baselines WHERE install_id = ? AND day_date < ?").bind(installId, cutoffDate)
+    ]);
+
+    return sleepDays.meta.changes ?? 0;
+}
@@ -0,0 +1,361 @@
+import type { Env } from "../config";
+import { decrypt, encrypt } from "../crypto";
+import { openSleepPayload } from "./sleep-payload";
+
+export type RollupGranularity = "week" | "month";
+
+export const ROLLUP_GRANULARITIES: readonly RollupGranularity[] = ["week", "month"];
+
+/** Nightly metrics averaged in rollups; keys match `sleep` in synced days. */
+export const ROLLUP_METRICS = [
+    "totalSleepHours",
+    "awakeningCount",
+    "averageHeartRate",
+    "averageHRV",
+    "averageRespiratoryRate",
+    "workoutMinutes",
+    "averageSpO2",
+    "restingHeartRate"
+] as const;
+
+export type RollupMetric = typeof ROLLUP_METRICS[number];
+
+/** Upper bounds (exclusive) of the total-sleep histogram buckets, in hours; the last bucket is open. */
+export const SLEEP_HOURS_BUCKETS = [5, 6, 7, 8, 9] as const;
+
+/**
+ * Sums rather than means, so a day can be added or taken back out exactly
+ * when it is re-synced.
+ */
+interface MetricAccumulator {
+    count: number;
+    sum: number;
+    sumSquares: number;
+}
+
+/** Decrypted content of a `sleep_rollups` row. */
+export interface RollupRecord {
+    granularity: RollupGranularity;
+    periodStart: string;
+    periodEnd: string;
+    days: number;
+    metrics: Record<RollupMetric, MetricAccumulator>;
+    stageHours: Record<string, number>;
+    /** Day counts per SLEEP_HOURS_BUCKETS bucket (one more entry than bucket bounds). */
+    sleepHoursHistogram: number[];
+}
+
+/** What one synced day adds to its week and month. */
+export interface DayContribution {
+    date: string;
+    metrics: Partial<Record<RollupMetric, number>>;
+    stageHours: Record<string, number>;
+}
+
+/** A day entering, leaving or changing within the rollups. */
+export interface RollupChange {
+    previous: DayContribution | null;
+    next: DayContribution | null;
+}
+
+export interface RollupSummary {
+    periodStart: string;
+    periodEnd: string;
+    days: number;
+    averages: Record<RollupMetric, number | null>;
+    standardDeviations: Record<RollupMetric, number | null>;
+    /** Mean hours per night in each stage. */
+    averageStageHours: Record<string, number>;
+    stageTotals: Record<string, number>;
+    sleepHoursDistribution: Array<{ minHours: number | null; maxHours: number | null; days: number }>;
+}
+
+interface RollupRow {
+    id: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+interface PendingDayRow {
+    id: string;
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+/** Rows folded per `foldPendingDays` call, to keep a single request's work bounded. */
+const FOLD_BATCH_SIZE = 60;
+
+/** Reduce a decrypted sleep-day payload to what rollups keep. */
+export function contributionOf(date: string, payload: Record<string, unknown>): DayContribution {
+    const sleep = (payload.sleep ?? {}) as Record<string, unknown>;
+    const metrics: Partial<Record<RollupMetric, number>> = {};
+    for (const metric of ROLLUP_METRICS) {
+        const value = sleep[metric];
+        if (typeof value === "number" && Number.isFinite(value)) {
+            metrics[metric] = value;
+        }
+    }
+
+    const stageHours: Record<string, number> = {};
+    for (const stage of (payload.stageDurations ?? []) as Array<{ stage: string; hours: number }>) {
+        stageHours[stage.stage] = (stageHours[stage.stage] ?? 0) + stage.hours;
+    }
+
+    return { date, metrics, stageHours };
+}
+
+/** First day of the period containing `date`: the ISO week's Monday, or the 1st of the month. */
+export function periodStartOf(date: string, granularity: RollupGranularity): string {
+    if (granularity === "month") {
+        return `${date.substring(0, 7)}-01`;
+    }
+
+    const day = new Date(`${date}T00:00:00.000Z`);
+    const mondayOffset = (day.getUTCDay() + 6) % 7;
+    return shiftDays(date, -mondayOffset);
+}
+
+/** Last day of the period starting at `periodStart`. */
+export function periodEndOf(periodStart: string, granularity: RollupGranularity): string {
+    if (granularity === "week") {
+        return shiftDays(periodStart, 6);
+    }
+
+    const start = new Date(`${periodStart}T00:00:00.000Z`);
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).toISOString().substring(0, 10);
+}
+
+export function emptyRollup(granularity: RollupGranularity, periodStart: string): RollupRecord {
+    const metrics = {} as Record<RollupMetric, MetricAccumulator>;
+    for (const metric of ROLLUP_METRICS) {
+        metrics[metric] = { count: 0, sum: 0, sumSquares: 0 };
+    }
+
+    return {
+        granularity,
+        periodStart,
+        periodEnd: periodEndOf(periodStart, granularity),
+        days: 0,
+        metrics,
+        stageHours: {},
+        sleepHoursHistogram: new Array(SLEEP_HOURS_BUCKETS.length + 1).fill(0)
+    };
+}
+
+/** Add (`sign` 1) or remove (`sign` -1) one day's contribution, in place. */
+export function applyContribution(rollup: RollupRecord, contribution: DayContribution, sign: 1 | -1): void {
+    rollup.days += sign;
+
+    for (const metric of ROLLUP_METRICS) {
+        const value = contribution.metrics[metric];
+        if (value === undefined) {
+            continue;
+        }
+        const accumulator = rollup.metrics[metric];
+        accumulator.count += sign;
+        accumulator.sum += sign * value;
+        accumulator.sumSquares += sign * value * value;
+    }
+
+    for (const [stage, hours] of Object.entries(contribution.stageHours)) {
+        rollup.stageHours[stage] = (rollup.stageHours[stage] ?? 0) + sign * hours;
+    }
+
+    const totalSleepHours = contribution.metrics.totalSleepHours;
+    if (totalSleepHours !== undefined) {
+        rollup.sleepHoursHistogram[histogramBucket(totalSleepHours)] += sign;
+    }
+}
+
+export function summarizeRollup(rollup: RollupRecord): RollupSummary {
+    const averages = {} as Record<RollupMetric, number | null>;
+    const standardDeviations = {} as Record<RollupMetric, number | null>;
+
+    for (const metric of ROLLUP_METRICS) {
+        const { count, sum, sumSquares } = rollup.metrics[metric];
+        if (count <= 0) {
+            averages[metric] = null;
+            standardDeviations[metric] = null;
+            continue;
+        }
+        const mean = sum / count;
+        averages[metric] = round2(mean);
+        standardDeviations[metric] = round2(Math.sqrt(Math.max(0, sumSquares / count - mean * mean)));
+    }
+
+    const stageTotals: Record<string, number> = {};
+    const averageStageHours: Record<string, number> = {};
+    for (const [stage, hours] of Object.entries(rollup.stageHours)) {
+        stageTotals[stage] = round2(hours);
+        averageStageHours[stage] = rollup.days > 0 ? round2(hours / rollup.days) : 0;
+    }
+
+    return {
+        periodStart: rollup.periodStart,
+        periodEnd: rollup.periodEnd,
+        days: rollup.days,
+        averages,
+        standardDeviations,
+        averageStageHours,
+        stageTotals,
+        sleepHoursDistribution: rollup.sleepHoursHistogram.map((days, index) => ({
+            minHours: index === 0 ? null : SLEEP_HOURS_BUCKETS[index - 1],
+            maxHours: index === SLEEP_HOURS_BUCKETS.length ? null : SLEEP_HOURS_BUCKETS[index],
+            days
+        }))
+    };
+}
+
+/**
+ * Build the statements that apply `changes` to the affected week and month
+ * rollups. Run them in the same batch as the sleep_days writes so a day is
+ * never counted twice or lost.
+ */
+export async function rollupStatements(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    changes: RollupChange[]
+): Promise<D1PreparedStatement[]> {
+    const touched = new Map<string, { granularity: RollupGranularity; periodStart: string }>();
+    for (const change of changes) {
+        for (const contribution of [change.previous, change.next]) {
+            if (!contribution) continue;
+            for (const granularity of ROLLUP_GRANULARITIES) {
+                const periodStart = periodStartOf(contribution.date, granularity);
+                touched.set(rollupId(installId, granularity, periodStart), { granularity, periodStart });
+            }
+        }
+    }
+
+    if (touched.size === 0) {
+        return [];
+    }
+
+    const rollups = await readRollupsById(env, dek, [...touched.keys()]);
+    for (const [id, { granularity, periodStart }] of touched) {
+        if (!rollups.has(id)) {
+            rollups.set(id, emptyRollup(granularity, periodStart));
+        }
+    }
+
+    for (const change of changes) {
+        for (const granularity of ROLLUP_GRANULARITIES) {
+            if (change.previous) {
+                applyContribution(rollups.get(rollupId(installId, granularity, periodStartOf(change.previous.date, granularity)))!, change.previous, -1);
+            }
+            if (change.next) {
+                applyContribution(rollups.get(rollupId(installId, granularity, periodStartOf(change.next.date, granularity)))!, change.next, 1);
+            }
+        }
+    }
+
+    const now = new Date().toISOString();
+    const statements: D1PreparedStatement[] = [];
+    for (const [id, rollup] of rollups) {
+        if (rollup.days <= 0) {
+            statements.push(env.SLEEP_DATA.prepare("DELETE FROM sleep_rollups WHERE id = ?").bind(id));
+            continue;
+        }
+
+        const encrypted = await encrypt(JSON.stringify(rollup), dek);
+        statements.push(
+            env.SLEEP_DATA.prepare(
+                `INSERT OR REPLACE INTO sleep_rollups (id, install_id, granularity, period_start, data_enc, iv, tag, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+            ).bind(id, installId, rollup.granularity, rollup.periodStart, encrypted.ciphertext, encrypted.iv, encrypted.tag, now)
+        );
+    }
+
+    return statements;
+}
+
+/**
+ * Fold days synced before rollups existed into them (optionally only days
+ * before `before`). Returns how many days were folded; call again while it
+ * returns a full batch.
+ */
+export async function foldPendingDays(env: Env, dek: CryptoKey, installId: string, before?: string): Promise<number> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT id, day_date, data_enc, iv, tag FROM sleep_days WHERE install_id = ? AND rolled_up = 0 AND day_date < ? LIMIT ?"
+    ).bind(installId, before ?? "9999-12-31", FOLD_BATCH_SIZE).all<PendingDayRow>();
+
+    const rows = result.results || [];
+    if (rows.length === 0) {
+        return 0;
+    }
+
+    const changes: RollupChange[] = [];
+    for (const row of rows) {
+        const payload = await openSleepPayload({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+        changes.push({ previous: null, next: contributionOf(row.day_date, payload) });
+    }
+
+    const placeholders = rows.map(() => "?").join(", ");
+    await env.SLEEP_DATA.batch([
+        ...await rollupStatements(env, dek, installId, changes),
+        env.SLEEP_DATA.prepare(`UPDATE sleep_days SET rolled_up = 1 WHERE id IN (${placeholders})`).bind(...rows.map((row) => row.id))
+    ]);
+
+    return rows.length;
+}
+
+/** Rollups of `granularity` whose period starts within `[from, to]`, oldest first. */
+export async function readRollups(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    granularity: RollupGranularity,
+    from: string,
+    to: string
+): Promise<RollupRecord[]> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT id, data_enc, iv, tag FROM sleep_rollups WHERE install_id = ? AND granularity = ? AND period_start >= ? AND period_start <= ? ORDER BY period_start ASC"
+    ).bind(installId, granularity, from, to).all<RollupRow>();
+
+    return Promise.all((result.results || []).map((row) => decryptRollup(row, dek)));
+}
+
+export async function deleteRollups(env: Env, installId: string): Promise<void> {
+    await env.SLEEP_DATA.prepare("DELETE FROM sleep_rollups WHERE install_id = ?").bind(installId).run();
+}
+
+/** Shift a YYYY-MM-DD day key by whole days. */
+export function shiftDays(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00.000Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().substring(0, 10);
+}
+
+function rollupId(installId: string, granularity: RollupGranularity, periodStart: string): string {
+    return `${installId}:${granularity}:${periodStart}`;
+}
+
+async function readRollupsById(env: Env, dek: CryptoKey, ids: string[]): Promise<Map<string, RollupRecord>> {
+    const placeholders = ids.map(() => "?").join(", ");
+    const result = await env.SLEEP_DATA.prepare(
+        `SELECT id, data_enc, iv, tag FROM sleep_rollups WHERE id IN (${placeholders})`
+    ).bind(...ids).all<RollupRow>();
+
+    const rollups = new Map<string, RollupRecord>();
+    for (const row of result.results || []) {
+        rollups.set(row.id, await decryptRollup(row, dek));
+    }
+    return rollups;
+}
+
+async function decryptRollup(row: RollupRow, dek: CryptoKey): Promise<RollupRecord> {
+    return JSON.parse(await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek)) as RollupRecord;
+}
+
+function histogramBucket(hours: number): number {
+    const index = SLEEP_HOURS_BUCKETS.findIndex((bound) => hours < bound);
+    return index === -1 ? SLEEP_HOURS_BUCKETS.length : index;
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
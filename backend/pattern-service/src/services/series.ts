@@ -0,0 +1,189 @@
+import type { Env } from "../config";
+import { decryptBytes, encryptBytes } from "../crypto";
+import type { SyncDay } from "../schema/agent";
+import { gunzip, gzip } from "../util/compression";
+
+export const SERIES_METRICS = ["hr", "hrv", "rr", "spo2"] as const;
+
+export type SeriesMetric = typeof SERIES_METRICS[number];
+
+export const SERIES_UNITS: Record<SeriesMetric, string> = {
+    hr: "bpm",
+    hrv: "ms",
+    rr: "breaths/min",
+    spo2: "%"
+};
+
+export type SyncSeries = NonNullable<SyncDay["series"]>;
+
+/** One decoded sample: epoch milliseconds and value. */
+export interface SeriesSample {
+    t: number;
+    v: number;
+}
+
+/** One downsampled bucket. */
+export interface SeriesPoint {
+    timestampISO: string;
+    mean: number;
+    min: number;
+    max: number;
+    count: number;
+}
+
+/** Samples per stored chunk; keeps each encrypted row well under D1's value size limit. */
+export const SERIES_CHUNK_SAMPLES = 2048;
+
+/**
+ * Plaintext of one chunk before gzip: timestamps as deltas from the previous
+ * sample (the first from `start`), which compress far better than ISO strings.
+ */
+interface SeriesChunk {
+    start: number;
+    deltas: number[];
+    values: number[];
+}
+
+interface SeriesRow {
+    chunk_index: number;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+/**
+ * Statements that replace a night's stored series with `series`: every metric
+ * is deleted first, then each one present is written as sorted, gzipped,
+ * encrypted chunks of SERIES_CHUNK_SAMPLES.
+ */
+export async function seriesStatements(
+    env: Env,
+    dek: CryptoKey,
+    installId: string,
+    date: string,
+    series: SyncSeries,
+    syncedAt: string
+): Promise<D1PreparedStatement[]> {
+    const statements = [
+        env.SLEEP_DATA.prepare("DELETE FROM sleep_series WHERE install_id = ? AND day_date = ?").bind(installId, date)
+    ];
+
+    for (const metric of SERIES_METRICS) {
+        const samples = (series[metric] ?? [])
+            .map((sample) => ({ t: Date.parse(sample.timestampISO), v: sample.value }))
+            .sort((a, b) => a.t - b.t);
+
+        for (let chunkIndex = 0; chunkIndex * SERIES_CHUNK_SAMPLES < samples.length; chunkIndex += 1) {
+            const chunk = samples.slice(chunkIndex * SERIES_CHUNK_SAMPLES, (chunkIndex + 1) * SERIES_CHUNK_SAMPLES);
+            const encrypted = await encryptBytes(await gzip(new TextEncoder().encode(JSON.stringify(encodeChunk(chunk)))), dek);
+
+            statements.push(
+                env.SLEEP_DATA.prepare(
+                    `INSERT OR REPLACE INTO sleep_series (id, install_id, day_date, metric, chunk_index, start_ms, end_ms, sample_count, data_enc, iv, tag, synced_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                ).bind(
+                    `${installId}:${date}:${metric}:${chunkIndex}`,
+                    installId,
+                    date,
+                    metric,
+                    chunkIndex,
+                    chunk[0].t,
+                    chunk[chunk.length - 1].t,
+                    chunk.length,
+                    encrypted.ciphertext,
+                    encrypted.iv,
+                    encrypted.tag,
+                    syncedAt
+                )
+            );
+        }
+    }
+
+    return statements;
+}
+
+/** All samples of `metric` for the night stored under `date`, oldest first. */
+export async function readSeries(env: Env, dek: CryptoKey, installId: string, date: string, metric: SeriesMetric): Promise<SeriesSample[]> {
+    const result = await env.SLEEP_DATA.prepare(
+        "SELECT chunk_index, data_enc, iv, tag FROM sleep_series WHERE install_id = ? AND day_date = ? AND metric = ? ORDER BY chunk_index ASC"
+    ).bind(installId, date, metric).all<SeriesRow>();
+
+    const samples: SeriesSample[] = [];
+    for (const row of result.results || []) {
+        const compressed = await decryptBytes({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, dek);
+        const chunk = JSON.parse(new TextDecoder().decode(await gunzip(compressed))) as SeriesChunk;
+        samples.push(...decodeChunk(chunk));
+    }
+    return samples;
+}
+
+export async function deleteSeries(env: Env, installId: string): Promise<void> {
+    await env.SLEEP_DATA.prepare("DELETE FROM sleep_series WHERE install_id = ?").bind(installId).run();
+}
+
+/**
+ * Seconds per bucket for a `resolution` like `30s` or `5m`, or null for
+ * `raw`. Throws outside 1 second to 1 hour.
+ */
+export function resolutionSeconds(resolution: string): number | null {
+    if (resolution === "raw") {
+        return null;
+    }
+
+    const amount = parseInt(resolution, 10);
+    const seconds = resolution.endsWith("m") ? amount * 60 : amount;
+    if (!(seconds >= 1 && seconds <= 3600)) {
+        throw new Error(`Resolution out of range: ${resolution}`);
+    }
+    return seconds;
+}
+
+/** Average samples into buckets of `bucketSeconds`, aligned to the epoch. Empty buckets are left out. */
+export function downsample(samples: SeriesSample[], bucketSeconds: number): SeriesPoint[] {
+    const bucketMs = bucketSeconds * 1000;
+    const points: SeriesPoint[] = [];
+    let bucketStart: number | null = null;
+    let sum = 0;
+
+    for (const sample of samples) {
+        const start = Math.floor(sample.t / bucketMs) * bucketMs;
+        if (start !== bucketStart) {
+            closeBucket();
+            bucketStart = start;
+            sum = 0;
+            points.push({ timestampISO: new Date(start).toISOString(), mean: 0, min: sample.v, max: sample.v, count: 0 });
+        }
+
+        const point = points[points.length - 1];
+        sum += sample.v;
+        point.count += 1;
+        point.min = Math.min(point.min, sample.v);
+        point.max = Math.max(point.max, sample.v);
+    }
+    closeBucket();
+
+    return points;
+
+    function closeBucket(): void {
+        const point = points[points.length - 1];
+        if (point && point.count > 0) {
+            point.mean = Math.round((sum / point.count) * 100) / 100;
+        }
+    }
+}
+
+function encodeChunk(samples: SeriesSample[]): SeriesChunk {
+    return {
+        start: samples[0].t,
+        deltas: samples.map((sample, index) => (index === 0 ? 0 : sample.t - samples[index - 1].t)),
+        values: samples.map((sample) => sample.v)
+    };
+}
+
+function decodeChunk(chunk: SeriesChunk): SeriesSample[] {
+    let t = chunk.start;
+    return chunk.deltas.map((delta, index) => {
+        t += delta;
+        return { t, v: chunk.values[index] };
+    });
+}
@@ -0,0 +1,90 @@
+import { decrypt, encrypt, type EncryptedBlob } from "../crypto";
+import { storedSleepPayloadSchema, type StoredSleepPayload, type SyncDay } from "../schema/agent";
+
+/**
+ * Version written inside every encrypted sleep day. Bump it together with a
+ * new entry in UPGRADERS whenever the stored shape changes.
+ *
+ * 1. Unversioned blobs from before the envelope: metrics added later
+ *    (`averageSpO2`, `restingHeartRate`) and `timeZone` may be missing.
+ * 2. Every metric key present (null when unknown) and `timeZone` null when
+ *    the app did not send one.
+ */
+export const SLEEP_PAYLOAD_VERSION = 2;
+
+/** What a sync writes for a day, or a stored day being re-sealed, before it is normalized to the current version. */
+export type SleepPayloadInput = Pick<SyncDay, "dayLabel" | "dayStartISO" | "timeZone" | "sleep" | "stageDurations" | "segments"> | StoredSleepPayload;
+
+type Upgrader = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+/** `UPGRADERS[n]` turns a version n payload into version n + 1. */
+const UPGRADERS: Record<number, Upgrader> = {
+    1: (payload) => ({
+        ...payload,
+        timeZone: payload.timeZone ?? null,
+        sleep: withAllMetrics((payload.sleep ?? {}) as Record<string, unknown>),
+        stageDurations: payload.stageDurations ?? [],
+        segments: payload.segments ?? []
+    })
+};
+
+const NULLABLE_METRICS = [
+    "mainSleepStartISO",
+    "mainSleepEndISO",
+    "averageHeartRate",
+    "averageHRV",
+    "averageRespiratoryRate",
+    "workoutMinutes",
+    "averageSpO2",
+    "restingHeartRate"
+] as const;
+
+/** Encrypt a synced day's sleep data as a current-version envelope. */
+export async function sealSleepPayload(payload: SleepPayloadInput, dek: CryptoKey): Promise<EncryptedBlob> {
+    const current: StoredSleepPayload = {
+        dayLabel: payload.dayLabel,
+        dayStartISO: payload.dayStartISO,
+        timeZone: payload.timeZone ?? null,
+        sleep: withAllMetrics(payload.sleep) as StoredSleepPayload["sleep"],
+        stageDurations: payload.stageDurations,
+        segments: payload.segments
+    };
+    return encrypt(JSON.stringify({ schemaVersion: SLEEP_PAYLOAD_VERSION, ...current }), dek);
+}
+
+/** Decrypt a stored sleep day, upgrade it to the current version and validate it. */
+export async function openSleepPayload(blob: EncryptedBlob, dek: CryptoKey): Promise<StoredSleepPayload> {
+    return decodeSleepPayload(await decrypt(blob, dek));
+}
+
+/**
+ * Parse a decrypted sleep day, apply every upgrader from its version to the
+ * current one, and validate the result. Throws on a version newer than this
+ * Worker knows or on a payload that does not validate.
+ */
+export function decodeSleepPayload(plaintext: string): StoredSleepPayload {
+    const { schemaVersion, ...fields } = JSON.parse(plaintext) as Record<string, unknown>;
+    const version = typeof schemaVersion === "number" ? schemaVersion : 1;
+    if (!Number.isInteger(version) || version < 1 || version > SLEEP_PAYLOAD_VERSION) {
+        throw new Error(`Unsupported sleep payload version: ${String(schemaVersion)}`);
+    }
+
+    let payload = fields;
+    for (let from = version; from < SLEEP_PAYLOAD_VERSION; from += 1) {
+        payload = UPGRADERS[from](payload);
+    }
+
+    const parsed = storedSleepPayloadSchema.safeParse(payload);
+    if (!parsed.success) {
+        throw new Error(`Stored sleep payload is invalid: ${parsed.error.message}`);
+    }
+    return parsed.data;
+}
+
+function withAllMetrics(sleep: Record<string, unknown>): Record<string, unknown> {
+    const complete: Record<string, unknown> = { ...sleep };
+    for (const metric of NULLABLE_METRICS) {
+        complete[metric] = sleep[metric] ?? null;
+    }
+    return complete;
+}
@@ -0,0 +1,145 @@
+import type { ScoreComponent, ScoreProfileUpdate, ScoreTarget, StoredSleepPayload } from "../schema/agent";
+
+export const SCORE_COMPONENTS: readonly ScoreComponent[] = ["duration", "deepSleep", "remSleep", "efficiency", "awakenings"];
+
+/** Weights (relative, any scale) and target ranges the score is computed with. */
+export interface ScoreProfile {
+    weights: Record<ScoreComponent, number>;
+    targets: Record<ScoreComponent, ScoreTarget>;
+}
+
+/**
+ * Used until the install edits its profile. Units: hours asleep; deep and REM
+ * as a percentage of time asleep; efficiency as a percentage of the time
+ * between the first and last segment; awakenings as a count.
+ */
+export const DEFAULT_SCORE_PROFILE: ScoreProfile = {
+    weights: { duration: 35, deepSleep: 20, remSleep: 20, efficiency: 15, awakenings: 10 },
+    targets: {
+        duration: { min: 7, max: 9, tolerance: 3 },
+        deepSleep: { min: 13, max: 23, tolerance: 10 },
+        remSleep: { min: 20, max: 25, tolerance: 10 },
+        efficiency: { min: 85, max: 100, tolerance: 25 },
+        awakenings: { min: 0, max: 2, tolerance: 6 }
+    }
+};
+
+/** One component of a night's score. `score` is null when the night has no value for it. */
+export interface ScoreComponentResult {
+    value: number | null;
+    score: number | null;
+    weight: number;
+}
+
+export interface NightScore {
+    /** 0–100, or null when no weighted component had a value. */
+    score: number | null;
+    components: Record<ScoreComponent, ScoreComponentResult>;
+}
+
+const ASLEEP_STAGES = new Set(["core", "deep", "rem", "asleep"]);
+
+/**
+ * Apply an update over `current`. Throws when the result would weigh every
+ * component at zero, since no night could then be scored.
+ */
+export function mergeScoreProfile(current: ScoreProfile, update: ScoreProfileUpdate): ScoreProfile {
+    const merged: ScoreProfile = {
+        weights: { ...current.weights, ...update.weights },
+        targets: { ...current.targets, ...update.targets }
+    };
+    if (SCORE_COMPONENTS.every((component) => merged.weights[component] === 0)) {
+        throw new Error("At least one component needs a weight above 0");
+    }
+    return merged;
+}
+
+/**
+ * Score a night as the weighted mean of its component scores. Components the
+ * night has no value for are left out, and the weights of the rest rescaled.
+ */
+export function scoreNight(payload: StoredSleepPayload, profile: ScoreProfile): NightScore {
+    const values = componentValues(payload);
+    const components = {} as Record<ScoreComponent, ScoreComponentResult>;
+    let weighted = 0;
+    let totalWeight = 0;
+
+    for (const component of SCORE_COMPONENTS) {
+        const value = values[component];
+        const weight = profile.weights[component];
+        const score = value === null ? null : targetScore(value, profile.targets[component]);
+        components[component] = { value: value === null ? null : round(value, 2), score: score === null ? null : Math.round(score), weight };
+
+        if (score !== null && weight > 0) {
+            weighted += score * weight;
+            totalWeight += weight;
+        }
+    }
+
+    return { score: totalWeight > 0 ? Math.round(weighted / totalWeight) : null, components };
+}
+
+/** 100 inside the target range, falling linearly to 0 at `tolerance` beyond it. */
+export function targetScore(value: number, target: ScoreTarget): number {
+    const distance = value < target.min ? target.min - value : value > target.max ? value - target.max : 0;
+    return Math.max(0, 1 - distance / target.tolerance) * 100;
+}
+
+/** The raw value each component scores, in the units DEFAULT_SCORE_PROFILE documents. */
+export function componentValues(payload: StoredSleepPayload): Record<ScoreComponent, number | null> {
+    const { totalSleepHours, awakeningCount } = payload.sleep;
+    const stageHours = new Map<string, number>();
+    for (const { stage, hours } of payload.stageDurations) {
+        stageHours.set(stage, (stageHours.get(stage) ?? 0) + hours);
+    }
+
+    const stageShare = (stage: string): number | null => {
+        const hours = stageHours.get(stage);
+        return hours === undefined || totalSleepHours <= 0 ? null : (hours / totalSleepHours) * 100;
+    };
+
+    return {
+        duration: totalSleepHours,
+        deepSleep: stageShare("deep"),
+        remSleep: stageShare("rem"),
+        efficiency: sleepEfficiency(payload, stageHours),
+        awakenings: awakeningCount
+    };
+}
+
+/**
+ * Time asleep over the time from the first segment's start to the last one's
+ * end. Without segments, falls back to asleep / (asleep + awake) from the
+ * stage durations; null when neither is available.
+ */
+function sleepEfficiency(payload: StoredSleepPayload, stageHours: Map<string, number>): number | null {
+    if (payload.segments.length > 0) {
+        let start = Infinity;
+        let end = -Infinity;
+        let asleepMinutes = 0;
+        for (const segment of payload.segments) {
+            start = Math.min(start, Date.parse(segment.startISO));
+            end = Math.max(end, Date.parse(segment.endISO));
+            if (ASLEEP_STAGES.has(segment.stage)) {
+                asleepMinutes += segment.durationMinutes;
+            }
+        }
+
+        const spanMinutes = (end - start) / 60_000;
+        if (spanMinutes > 0) {
+            return Math.min(100, (asleepMinutes / spanMinutes) * 100);
+        }
+    }
+
+    const awakeHours = stageHours.get("awake");
+    const asleepHours = payload.sleep.totalSleepHours;
+    if (awakeHours === undefined || asleepHours + awakeHours <= 0) {
+        return null;
+    }
+    return (asleepHours / (asleepHours + awakeHours)) * 100;
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,127 @@
+import type { NightMetric } from "../schema/agent";
+import type { StoredNight } from "./day-store";
+import { NIGHT_METRIC_UNITS, nightMetric } from "./night-metrics";
+import { DEFAULT_SCORE_PROFILE, type ScoreProfile } from "./sleep-score";
+import { linearSlope, mean, median, quantile, roundTo, standardDeviation } from "./statistics";
+
+/** Indexed like `Date.prototype.getUTCDay`. */
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+/** Nights keyed by a Saturday or Sunday date count as weekend nights. */
+const WEEKEND_DAYS: ReadonlySet<Weekday> = new Set(["saturday", "sunday"]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Statistics of the nights with a value; everything but `nights` is null without any. */
+export interface MetricDistribution {
+    nights: number;
+    mean: number | null;
+    median: number | null;
+    /** Null with fewer than two nights. */
+    standardDeviation: number | null;
+    min: number | null;
+    max: number | null;
+    p10: number | null;
+    p90: number | null;
+}
+
+export interface MetricSummary {
+    nights: number;
+    mean: number | null;
+    median: number | null;
+}
+
+export interface GroupStats {
+    nights: number;
+    metrics: Partial<Record<NightMetric, MetricSummary>>;
+}
+
+export interface MetricTrend {
+    nights: number;
+    /** Least-squares change per calendar day over the window; null with fewer than two nights. */
+    slopePerDay: number | null;
+}
+
+export interface SleepStats {
+    units: Partial<Record<NightMetric, string>>;
+    /** Mean of each metric to two decimals; null without a night with a value. */
+    averages: Partial<Record<NightMetric, number | null>>;
+    distributions: Partial<Record<NightMetric, MetricDistribution>>;
+    byWeekday: Record<Weekday, GroupStats>;
+    weekdayVsWeekend: {
+        weekday: GroupStats;
+        weekend: GroupStats;
+        /** Weekend mean − weekday mean. */
+        difference: Partial<Record<NightMetric, number | null>>;
+    };
+    trends: Partial<Record<NightMetric, MetricTrend>>;
+}
+
+/** Distribution, weekday breakdown and trend of each of `metrics` over `nights`. */
+export function sleepStats(
+    nights: readonly StoredNight[],
+    metrics: readonly NightMetric[],
+    scoreProfile: ScoreProfile = DEFAULT_SCORE_PROFILE
+): SleepStats {
+    const valued = Object.fromEntries(metrics.map((metric) => [
+        metric,
+        nights.flatMap((night) => {
+            const value = nightMetric(night.payload, metric, scoreProfile);
+            return value === null ? [] : [{ date: night.date, value }];
+        })
+    ])) as Record<NightMetric, Array<{ date: string; value: number }>>;
+
+    const perMetric = <T>(compute: (metric: NightMetric) => T) =>
+        Object.fromEntries(metrics.map((metric) => [metric, compute(metric)])) as Partial<Record<NightMetric, T>>;
+    const group = (keep: (date: string) => boolean): GroupStats => ({
+        nights: nights.filter((night) => keep(night.date)).length,
+        metrics: perMetric((metric) => summarize(valued[metric].filter((night) => keep(night.date)).map((night) => night.value)))
+    });
+
+    const weekday = group((date) => !WEEKEND_DAYS.has(weekdayOf(date)));
+    const weekend = group((date) => WEEKEND_DAYS.has(weekdayOf(date)));
+
+    return {
+        units: perMetric((metric) => NIGHT_METRIC_UNITS[metric]),
+        averages: perMetric((metric) => roundTo(mean(valued[metric].map((night) => night.value)), 2)),
+        distributions: perMetric((metric) => describeDistribution(valued[metric].map((night) => night.value))),
+        byWeekday: Object.fromEntries(WEEKDAYS.map((day) => [day, group((date) => weekdayOf(date) === day)])) as Record<Weekday, GroupStats>,
+        weekdayVsWeekend: {
+            weekday,
+            weekend,
+            difference: perMetric((metric) => {
+                const weekdayMean = weekday.metrics[metric]!.mean;
+                const weekendMean = weekend.metrics[metric]!.mean;
+                return weekdayMean === null || weekendMean === null ? null : roundTo(weekendMean - weekdayMean, 3);
+            })
+        },
+        trends: perMetric((metric) => {
+            const points = valued[metric];
+            const days = points.map((night) => Date.parse(`${night.date}T00:00:00.000Z`) / DAY_MS);
+            return { nights: points.length, slopePerDay: roundTo(linearSlope(days, points.map((night) => night.value)), 4) };
+        })
+    };
+}
+
+export function describeDistribution(values: readonly number[]): MetricDistribution {
+    return {
+        nights: values.length,
+        mean: roundTo(mean(values), 3),
+        median: roundTo(median(values), 3),
+        standardDeviation: roundTo(standardDeviation(values), 3),
+        min: values.length === 0 ? null : Math.min(...values),
+        max: values.length === 0 ? null : Math.max(...values),
+        p10: roundTo(quantile(values, 0.1), 3),
+        p90: roundTo(quantile(values, 0.9), 3)
+    };
+}
+
+function summarize(values: readonly number[]): MetricSummary {
+    return { nights: values.length, mean: roundTo(mean(values), 3), median: roundTo(median(values), 3) };
+}
+
+function weekdayOf(date: string): Weekday {
+    return WEEKDAYS[new Date(`${date}T00:00:00.000Z`).getUTCDay()];
+}
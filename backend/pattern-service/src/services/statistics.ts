@@ -0,0 +1,163 @@
+/**
+ * Descriptive and inferential statistics over small per-night samples.
+ * Everything here is deterministic: resampling draws from a seeded generator,
+ * so the same data and seed always give the same result.
+ */
+
+/** Seed used when a caller has no reason to pick its own. */
+export const DEFAULT_SEED = 0x5eed;
+
+export function sum(values: readonly number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+}
+
+/** Arithmetic mean; NaN for an empty sample. */
+export function mean(values: readonly number[]): number {
+    return sum(values) / values.length;
+}
+
+/** Sample variance (n − 1 denominator); NaN with fewer than two values. */
+export function variance(values: readonly number[]): number {
+    if (values.length < 2) {
+        return NaN;
+    }
+    const center = mean(values);
+    return sum(values.map((value) => (value - center) ** 2)) / (values.length - 1);
+}
+
+export function standardDeviation(values: readonly number[]): number {
+    return Math.sqrt(variance(values));
+}
+
+/** Quantile `p` (0–1) with linear interpolation between order statistics; NaN for an empty sample. */
+export function quantile(values: readonly number[], p: number): number {
+    if (values.length === 0) {
+        return NaN;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function median(values: readonly number[]): number {
+    return quantile(values, 0.5);
+}
+
+/**
+ * Cohen's d for `treatment` against `control`, using the pooled standard
+ * deviation. Null when either group has fewer than two values or neither varies.
+ */
+export function cohensD(control: readonly number[], treatment: readonly number[]): number | null {
+    if (control.length < 2 || treatment.length < 2) {
+        return null;
+    }
+    const pooledVariance = ((control.length - 1) * variance(control) + (treatment.length - 1) * variance(treatment))
+        / (control.length + treatment.length - 2);
+    if (pooledVariance === 0) {
+        return null;
+    }
+    return (mean(treatment) - mean(control)) / Math.sqrt(pooledVariance);
+}
+
+/**
+ * Least-squares slope of `y` against `x`; NaN with fewer than two points or
+ * when every `x` is the same.
+ */
+export function linearSlope(x: readonly number[], y: readonly number[]): number {
+    const xMean = mean(x);
+    const yMean = mean(y);
+    const spread = sum(x.map((value) => (value - xMean) ** 2));
+    if (x.length < 2 || spread === 0) {
+        return NaN;
+    }
+    return sum(x.map((value, index) => (value - xMean) * (y[index] - yMean))) / spread;
+}
+
+/** Mulberry32: a small, fast PRNG returning values in [0, 1). */
+export function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export interface ConfidenceInterval {
+    level: number;
+    lower: number;
+    upper: number;
+}
+
+/**
+ * Percentile bootstrap interval for `mean(treatment) − mean(control)`,
+ * resampling each group with replacement.
+ */
+export function bootstrapMeanDifference(
+    control: readonly number[],
+    treatment: readonly number[],
+    options: { resamples: number; level: number; seed?: number }
+): ConfidenceInterval {
+    const random = seededRandom(options.seed ?? DEFAULT_SEED);
+    const resampledMean = (values: readonly number[]) => {
+        let total = 0;
+        for (let index = 0; index < values.length; index += 1) {
+            total += values[Math.floor(random() * values.length)];
+        }
+        return total / values.length;
+    };
+
+    const differences: number[] = [];
+    for (let resample = 0; resample < options.resamples; resample += 1) {
+        differences.push(resampledMean(treatment) - resampledMean(control));
+    }
+
+    const alpha = (1 - options.level) / 2;
+    return { level: options.level, lower: quantile(differences, alpha), upper: quantile(differences, 1 - alpha) };
+}
+
+/**
+ * Two-sided permutation test of the difference in means: the share of random
+ * relabellings whose difference is at least as extreme as the observed one,
+ * counting the observed labelling itself so p is never 0.
+ */
+export function permutationTest(
+    control: readonly number[],
+    treatment: readonly number[],
+    options: { permutations: number; seed?: number }
+): number {
+    const random = seededRandom(options.seed ?? DEFAULT_SEED);
+    const pooled = [...control, ...treatment];
+    const observed = Math.abs(mean(treatment) - mean(control));
+    // Compare with a little slack so relabellings that tie the observed difference count despite rounding
+    const threshold = observed - 1e-12;
+
+    let extreme = 0;
+    for (let permutation = 0; permutation < options.permutations; permutation += 1) {
+        // Partial Fisher–Yates: the first `treatment.length` slots become the relabelled treatment group
+        for (let index = 0; index < treatment.length; index += 1) {
+            const swap = index + Math.floor(random() * (pooled.length - index));
+            [pooled[index], pooled[swap]] = [pooled[swap], pooled[index]];
+        }
+        const treatmentMean = sum(pooled.slice(0, treatment.length)) / treatment.length;
+        const controlMean = sum(pooled.slice(treatment.length)) / control.length;
+        if (Math.abs(treatmentMean - controlMean) >= threshold) {
+            extreme += 1;
+        }
+    }
+
+    return (extreme + 1) / (options.permutations + 1);
+}
+
+/** Round for responses; keeps null and non-finite values out of the JSON as null. */
+export function roundTo(value: number | null, digits: number): number | null {
+    if (value === null || !Number.isFinite(value)) {
+        return null;
+    }
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
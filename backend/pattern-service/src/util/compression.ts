@@ -0,0 +1,13 @@
+/** Gzip `data` with the runtime's CompressionStream. */
+export async function gzip(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return pipeThrough(data, new CompressionStream("gzip"));
+}
+
+export async function gunzip(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  return pipeThrough(data, new DecompressionStream("gzip"));
+}
+
+async function pipeThrough(data: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
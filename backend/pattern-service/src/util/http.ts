@@ -1,7 +1,8 @@
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET,POST,DELETE,OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type,Authorization"
+  "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type,Authorization",
+  "Access-Control-Expose-Headers": "Retry-After,X-RateLimit-Limit,X-RateLimit-Remaining,X-RateLimit-Reset,Content-Disposition"
 };
 
 export function jsonResponse(status: number, body: unknown): Response {
@@ -14,6 +15,17 @@ export function jsonResponse(status: number, body: unknown): Response {
   });
 }
 
+/** Stream `body` as-is, e.g. a large export, with the usual CORS headers. */
+export function streamResponse(status: number, body: ReadableStream<Uint8Array>, headers: Record<string, string>): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      ...headers,
+      ...corsHeaders
+    }
+  });
+}
+
 export function errorResponse(status: number, message: string, details?: unknown): Response {
   return jsonResponse(status, {
     error: message,
@@ -35,3 +47,17 @@ export async function parseJSON<T = unknown>(request: Request): Promise<T> {
     throw new Error("Invalid JSON body");
   }
 }
+
+/** Like `parseJSON`, but an empty body yields `undefined` instead of an error. */
+export async function parseOptionalJSON<T = unknown>(request: Request): Promise<T | undefined> {
+  const text = await request.text();
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error("Invalid JSON body");
+  }
+}
@@ -0,0 +1,46 @@
+const UTC_OFFSET_PATTERN = /^([+-])(0\d|1[0-4]):([0-5]\d)$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Whether `zone` is an IANA time zone name (e.g. `Europe/Berlin`) or a UTC offset (`+05:30`, `-08:00`). */
+export function isValidTimeZone(zone: string): boolean {
+  if (UTC_OFFSET_PATTERN.test(zone)) {
+    return true;
+  }
+
+  try {
+    formatterFor(zone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of `instant` in `zone`. Without a zone the UTC
+ * date is used, which is how days were keyed before zones were synced.
+ */
+export function localDateKey(instant: string | number | Date, zone?: string | null): string {
+  const date = new Date(instant);
+  if (!zone) {
+    return date.toISOString().substring(0, 10);
+  }
+
+  const offset = UTC_OFFSET_PATTERN.exec(zone);
+  if (offset) {
+    const minutes = (offset[1] === "-" ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3]));
+    return new Date(date.getTime() + minutes * 60_000).toISOString().substring(0, 10);
+  }
+
+  // en-CA formats dates as YYYY-MM-DD
+  return formatterFor(zone).format(date);
+}
+
+function formatterFor(zone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", { timeZone: zone, year: "numeric", month: "2-digit", day: "2-digit" });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+    ALL_AGENT_SCOPES,
+    generateApiKey,
+    grantedScopes,
+    hasScope,
+    listApiKeys,
+    readInstallRecord,
+    registerApiKey,
+    revokeAllApiKeys,
+    revokeApiKeyById,
+    validateApiKey,
+    type AgentKeyRecord
+} from "../src/auth/agent-auth";
+import { agentRegisterRequestSchema } from "../src/schema/agent";
+import { memoryEnv } from "./fakes";
+
+const INSTALL_ID = "0f27647a-6f54-4ca1-a3b8-9ca76a4f5970";
+const HASH_SECRET = "test-hash-secret";
+
+const baseRecord: AgentKeyRecord = {
+    installId: INSTALL_ID,
+    wrappedDek: "wrapped",
+    createdAt: "2026-03-01T00:00:00.000Z"
+};
+
+describe("agent key scopes", () => {
+    it("treats legacy records without scopes as fully scoped", () => {
+        expect(grantedScopes(baseRecord)).toEqual([...ALL_AGENT_SCOPES]);
+        expect(hasScope(baseRecord, "events:read")).toBe(true);
+    });
+
+    it("only grants the scopes stored on the record", () => {
+        const record: AgentKeyRecord = { ...baseRecord, scopes: ["stats:read"] };
+
+        expect(hasScope(record, "stats:read")).toBe(true);
+        expect(hasScope(record, "sleep:read")).toBe(false);
+        expect(hasScope(record, "events:read")).toBe(false);
+    });
+
+    it("validates requested scopes at registration", () => {
+        expect(agentRegisterRequestSchema.safeParse({}).success).toBe(true);
+        expect(agentRegisterRequestSchema.safeParse({ scopes: ["stats:read", "sleep:read"] }).success).toBe(true);
+        expect(agentRegisterRequestSchema.safeParse({ scopes: [] }).success).toBe(false);
+        expect(agentRegisterRequestSchema.safeParse({ scopes: ["sleep:write"] }).success).toBe(false);
+    });
+});
+
+describe("multiple agent keys per install", () => {
+    it("keeps earlier keys valid when another is registered", async () => {
+        const env = memoryEnv();
+        const first = generateApiKey();
+        const second = generateApiKey();
+
+        await registerApiKey(first, INSTALL_ID, { wrappedDek: "wrapped", kekVersion: 1 }, { label: "Claude", scopes: ALL_AGENT_SCOPES }, HASH_SECRET, env);
+        await registerApiKey(second, INSTALL_ID, { wrappedDek: "wrapped", kekVersion: 1 }, { label: "Coach", scopes: ["stats:read"] }, HASH_SECRET, env);
+
+        expect(await validateApiKey(first, HASH_SECRET, env)).not.toBeNull();
+        expect(await validateApiKey(second, HASH_SECRET, env)).not.toBeNull();
+
+        const keys = await listApiKeys(INSTALL_ID, HASH_SECRET, env);
+        expect(keys.map((key) => key.label)).toEqual(["Claude", "Coach"]);
+        expect(keys[1].scopes).toEqual(["stats:read"]);
+        expect(keys[0].lastUsedAt).toBeNull();
+        expect(JSON.stringify(keys)).not.toContain(first);
+    });
+
+    it("revokes a single key by id without touching the others", async () => {
+        const env = memoryEnv();
+        const first = generateApiKey();
+        const second = generateApiKey();
+
+        const firstRecord = await registerApiKey(first, INSTALL_ID, { wrappedDek: "wrapped", kekVersion: 1 }, { label: "A", scopes: ALL_AGENT_SCOPES }, HASH_SECRET, env);
+        await registerApiKey(second, INSTALL_ID, { wrappedDek: "wrapped", kekVersion: 1 }, { label: "B", scopes: ALL_AGENT_SCOPES }, HASH_SECRET, env);
+
+        expect(await revokeApiKeyById(INSTALL_ID, firstRecord.keyId!, HASH_SECRET, env)).toBe(true);
+        expect(await revokeApiKeyById(INSTALL_ID, firstRecord.keyId!, HASH_SECRET, env)).toBe(false);
+
+        expect(await validateApiKey(first, HASH_SECRET, env)).toBeNull();
+        expect(await validateApiKey(second, HASH_SECRET, env)).not.toBeNull();
+        expect((await readInstallRecord(INSTALL_ID, HASH_SECRET, env))?.wrappedDek).toBe("wrapped");
+    });
+
+    it("migrates a legacy single-key install mapping", async () => {
+        const env = memoryEnv();
+        const legacyKey = generateApiKey();
+        await env.AGENT_KEYS.put(legacyKey, JSON.stringify(baseRecord));
+        await env.AGENT_KEYS.put(`install:${INSTALL_ID}`, legacyKey);
+
+        const keys = await listApiKeys(INSTALL_ID, HASH_SECRET, env);
+        expect(keys).toHaveLength(1);
+        expect(keys[0].scopes).toEqual([...ALL_AGENT_SCOPES]);
+
+        const installRecord = await readInstallRecord(INSTALL_ID, HASH_SECRET, env);
+        expect(installRecord?.keys[0].keyId).toBe(keys[0].keyId);
+        expect(await env.AGENT_KEYS.get(legacyKey)).toBeNull();
+        expect(await validateApiKey(legacyKey, HASH_SECRET, env)).not.toBeNull();
+
+        expect(await revokeAllApiKeys(INSTALL_ID, HASH_SECRET, env)).toBe(1);
+        expect(await validateApiKey(legacyKey, HASH_SECRET, env)).toBeNull();
+        expect(await readInstallRecord(INSTALL_ID, HASH_SECRET, env)).toBeNull();
+    });
+});
+
+describe("hashed agent key storage", () => {
+    it("never writes the plaintext key to KV", async () => {
+        const env = memoryEnv();
+        const apiKey = generateApiKey();
+
+        await registerApiKey(apiKey, INSTALL_ID, { wrappedDek: "wrapped", kekVersion: 1 }, { label: "A", scopes: ALL_AGENT_SCOPES }, HASH_SECRET, env);
+
+        for (const [key, value] of env.AGENT_KEYS.store) {
+            expect(key).not.toContain(apiKey);
+            expect(value).not.toContain(apiKey);
+        }
+        expect((await listApiKeys(INSTALL_ID, HASH_SECRET, env))[0].keyPrefix).toBe(apiKey.slice(0, 16));
+    });
+
+    it("rejects a key that shares the lookup prefix but not the hash", async () => {
+        const env = memoryEnv();
+        const apiKey = generateApiKey();
+        await registerApiKey(apiKey, INSTALL_ID, { wrappedDek: "wrapped", kekVersion: 1 }, { label: "A", scopes: ALL_AGENT_SCOPES }, HASH_SECRET, env);
+
+        const forged = `${apiKey.slice(0, 16)}${"0".repeat(apiKey.length - 16)}`;
+        expect(await validateApiKey(forged, HASH_SECRET, env)).toBeNull();
+        expect(await validateApiKey(apiKey, "other-secret", env)).toBeNull();
+        expect(await validateApiKey(apiKey, HASH_SECRET, env)).not.toBeNull();
+    });
+
+    it("migrates a plaintext record on first use", async () => {
+        const env = memoryEnv();
+        const legacyKey = generateApiKey();
+        await env.AGENT_KEYS.put(legacyKey, JSON.stringify(baseRecord));
+        await env.AGENT_KEYS.put(`install:${INSTALL_ID}`, JSON.stringify({ wrappedDek: "wrapped", keys: [{ keyId: "k1", apiKey: legacyKey }] }));
+
+        const record = await validateApiKey(legacyKey, HASH_SECRET, env);
+        expect(record?.installId).toBe(INSTALL_ID);
+        expect(await env.AGENT_KEYS.get(legacyKey)).toBeNull();
+
+        const installRecord = await readInstallRecord(INSTALL_ID, HASH_SECRET, env);
+        expect(installRecord?.keys).toEqual([{ keyId: record?.keyId, lookupId: legacyKey.slice(4, 16) }]);
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { generateDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetEvents, handleGetSleep } from "../src/routes/agent-data";
+import { handleAgentRevoke, handleGetAgentAudit } from "../src/routes/agent-keys";
+import { auditedAgentRequest } from "../src/services/audit-log";
+import { memoryEnvWithD1, ScriptedD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "0f27647a-6f54-4ca1-a3b8-9ca76a4f5970";
+
+interface StoredAuditRow {
+  id: string;
+  install_id: string;
+  created_at: string;
+  data_enc: string;
+  iv: string;
+  tag: string;
+}
+
+/** D1 fake that keeps audit rows and has no sleep data. */
+function auditDatabase(): { db: ScriptedD1; rows: StoredAuditRow[] } {
+  const rows: StoredAuditRow[] = [];
+  const db = new ScriptedD1()
+    .on(/^INSERT INTO agent_audit_log/, ([id, install_id, created_at, data_enc, iv, tag]) => {
+      rows.push({ id, install_id, created_at, data_enc, iv, tag } as StoredAuditRow);
+      return [{}];
+    })
+    .on(/^SELECT \* FROM agent_audit_log/, ([installId, beforeAt, , beforeId, limit]) =>
+      rows
+        .filter((row) => row.install_id === installId)
+        .filter((row) => row.created_at < (beforeAt as string) || (row.created_at === beforeAt && row.id < (beforeId as string)))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id))
+        .slice(0, limit as number)
+    )
+    .on(/^DELETE FROM agent_audit_log WHERE install_id/, ([installId]) => {
+      const removed = rows.filter((row) => row.install_id === installId);
+      rows.splice(0, rows.length, ...rows.filter((row) => row.install_id !== installId));
+      return removed;
+    });
+  return { db, rows };
+}
+
+async function setup(scopes: Parameters<typeof registerApiKey>[3]["scopes"]) {
+  const config = testConfig();
+  const { db, rows } = auditDatabase();
+  const env = memoryEnvWithD1(db);
+  const apiKey = generateApiKey();
+  const dek = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  await registerApiKey(apiKey, INSTALL_ID, dek, { label: "Coach", scopes }, config.agentKeyHashSecret, env);
+
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+  return { config, env, rows, apiKey, jwt: token };
+}
+
+function get(path: string, bearer: string): Request {
+  return new Request(`https://worker.test${path}`, { headers: { Authorization: `Bearer ${bearer}` } });
+}
+
+describe("agent audit log", () => {
+  it("records each authenticated agent call encrypted, including scope refusals", async () => {
+    const { config, env, rows, apiKey, jwt } = await setup(["events:read"]);
+
+    expect((await handleGetEvents(get("/v1/data/events?days=14", apiKey), env, config)).status).toBe(200);
+    expect((await handleGetSleep(get("/v1/data/sleep", apiKey), env, config)).status).toBe(403);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].data_enc).not.toContain("events");
+
+    const response = await handleGetAgentAudit(get("/v1/agent/audit", jwt), env, config);
+    const body = (await response.json()) as { entries: Array<Record<string, unknown>>; count: number };
+
+    expect(body.count).toBe(2);
+    const routes = body.entries.map((entry) => [entry.route, entry.status]);
+    expect(routes).toContainEqual(["GET /v1/data/events", 200]);
+    expect(routes).toContainEqual(["GET /v1/data/sleep", 403]);
+
+    const eventsEntry = body.entries.find((entry) => entry.route === "GET /v1/data/events")!;
+    expect(eventsEntry).toMatchObject({ keyLabel: "Coach", days: 0 });
+    expect(typeof eventsEntry.keyId).toBe("string");
+    expect(eventsEntry.from).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it("records a call whose handler throws as a 500 and rethrows", async () => {
+    const { config, env, rows, apiKey, jwt } = await setup(["events:read"]);
+
+    const failing = auditedAgentRequest(get("/v1/data/events", apiKey), env, config, "GET /v1/data/events", "events:read", async ({ access }) => {
+      access.days = 3;
+      throw new Error("D1 unavailable");
+    });
+    await expect(failing).rejects.toThrow("D1 unavailable");
+
+    expect(rows).toHaveLength(1);
+    const body = (await (await handleGetAgentAudit(get("/v1/agent/audit", jwt), env, config)).json()) as { entries: Array<Record<string, unknown>> };
+    expect(body.entries[0]).toMatchObject({ route: "GET /v1/data/events", status: 500, days: 3 });
+  });
+
+  it("pages through entries logged at the same instant without skipping any", async () => {
+    const { config, env, rows, apiKey, jwt } = await setup(["events:read"]);
+    for (let index = 0; index < 3; index += 1) {
+      await handleGetEvents(get("/v1/data/events", apiKey), env, config);
+    }
+    rows.forEach((row) => (row.created_at = "2026-03-10T03:12:00.000Z"));
+
+    const page = async (before?: string) =>
+      (await (await handleGetAgentAudit(get(`/v1/agent/audit?limit=2${before ? `&before=${encodeURIComponent(before)}` : ""}`, jwt), env, config)).json()) as {
+        count: number;
+        nextBefore: string | null;
+      };
+
+    const first = await page();
+    expect(first.count).toBe(2);
+    expect(first.nextBefore).toMatch(/^2026-03-10T03:12:00\.000Z,/);
+    const second = await page(first.nextBefore!);
+    expect(second).toMatchObject({ count: 1, nextBefore: null });
+  });
+
+  it("does not record calls with an unknown key", async () => {
+    const { config, env, rows } = await setup(["sleep:read"]);
+
+    expect((await handleGetSleep(get("/v1/data/sleep", generateApiKey()), env, config)).status).toBe(401);
+    expect(rows).toHaveLength(0);
+  });
+
+  it("requires the install JWT and is cleared on full revoke", async () => {
+    const { config, env, rows, apiKey, jwt } = await setup(["events:read"]);
+    await handleGetEvents(get("/v1/data/events", apiKey), env, config);
+
+    expect((await handleGetAgentAudit(get("/v1/agent/audit", apiKey), env, config)).status).toBe(401);
+
+    const revoke = new Request("https://worker.test/v1/agent/revoke", { method: "DELETE", headers: { Authorization: `Bearer ${jwt}` } });
+    expect((await handleAgentRevoke(revoke, env, config)).status).toBe(200);
+    expect(rows).toHaveLength(0);
+  });
+});
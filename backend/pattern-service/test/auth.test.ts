@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 import { createChallengeToken, verifyChallengeToken } from "../src/auth/challenge";
-import { issueSignedToken, verifySignedToken } from "../src/auth/jwt";
+import { issueSignedToken, verifySignedToken, type SigningKeyring } from "../src/auth/jwt";
+import { issueRefreshToken, revokeRefreshToken, rotateRefreshToken } from "../src/auth/refresh";
+import { memoryEnv } from "./fakes";
+
+const INSTALL_ID = "0f27647a-6f54-4ca1-a3b8-9ca76a4f5970";
 
 describe("token signing", () => {
   it("creates and verifies challenge tokens", async () => {
@@ -22,3 +26,88 @@ describe("token signing", () => {
     await expect(verifySignedToken("secret-b", token.token)).rejects.toThrow("Invalid token signature");
   });
 });
+
+describe("refresh tokens", () => {
+  it("rotates on every use", async () => {
+    const env = memoryEnv();
+    const first = await issueRefreshToken("secret", INSTALL_ID, env);
+
+    const second = await rotateRefreshToken("secret", first.token, env);
+    expect(second.installId).toBe(INSTALL_ID);
+    expect(second.token).not.toBe(first.token);
+
+    const third = await rotateRefreshToken("secret", second.token, env);
+    expect(third.installId).toBe(INSTALL_ID);
+  });
+
+  it("revokes the whole family when a rotated token is replayed", async () => {
+    const env = memoryEnv();
+    const first = await issueRefreshToken("secret", INSTALL_ID, env);
+    const second = await rotateRefreshToken("secret", first.token, env);
+
+    await expect(rotateRefreshToken("secret", first.token, env)).rejects.toThrow("reuse detected");
+    await expect(rotateRefreshToken("secret", second.token, env)).rejects.toThrow("revoked");
+  });
+
+  it("stops working after logout", async () => {
+    const env = memoryEnv();
+    const refresh = await issueRefreshToken("secret", INSTALL_ID, env);
+
+    expect(await revokeRefreshToken("secret", refresh.token, env)).toBe(INSTALL_ID);
+    await expect(rotateRefreshToken("secret", refresh.token, env)).rejects.toThrow("revoked");
+  });
+
+  it("does not accept access tokens as refresh tokens", async () => {
+    const env = memoryEnv();
+    const access = await issueSignedToken("secret", { subject: INSTALL_ID, type: "access", ttlSeconds: 300 });
+
+    await expect(rotateRefreshToken("secret", access.token, env)).rejects.toThrow("Unexpected token type");
+  });
+});
+
+describe("signing keyring", () => {
+  const oldKey = { kid: "2026-04", secret: "old-secret" };
+  const newKey = { kid: "2026-10", secret: "new-secret" };
+
+  function decodeHeader(token: string): Record<string, unknown> {
+    const encoded = token.split(".")[0].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(encoded.padEnd(Math.ceil(encoded.length / 4) * 4, "=")));
+  }
+
+  it("signs with the current key and names it in the header", async () => {
+    const keyring: SigningKeyring = { currentKid: newKey.kid, keys: [oldKey, newKey] };
+    const token = await issueSignedToken(keyring, { subject: "subject", type: "access", ttlSeconds: 300 });
+
+    expect(decodeHeader(token.token).kid).toBe(newKey.kid);
+    await expect(verifySignedToken({ currentKid: newKey.kid, keys: [newKey] }, token.token)).resolves.toMatchObject({ sub: "subject" });
+  });
+
+  it("keeps verifying tokens from the previous key during the overlap", async () => {
+    const before: SigningKeyring = { currentKid: oldKey.kid, keys: [oldKey] };
+    const during: SigningKeyring = { currentKid: newKey.kid, keys: [oldKey, newKey] };
+    const token = await issueSignedToken(before, { subject: "subject", type: "access", ttlSeconds: 300 });
+
+    await expect(verifySignedToken(during, token.token)).resolves.toMatchObject({ sub: "subject" });
+  });
+
+  it("rejects tokens signed by a retired key", async () => {
+    const token = await issueSignedToken({ currentKid: oldKey.kid, keys: [oldKey] }, { subject: "subject", type: "access", ttlSeconds: 300 });
+    const after: SigningKeyring = { currentKid: newKey.kid, keys: [{ ...oldKey, retired: true }, newKey] };
+
+    await expect(verifySignedToken(after, token.token)).rejects.toThrow("Unknown or retired signing key");
+  });
+
+  it("accepts tokens issued before headers carried a kid", async () => {
+    const legacyHeader = btoa(JSON.stringify({ alg: "HS256", typ: "JWT" })).replace(/=+$/g, "");
+    const current = await issueSignedToken(oldKey.secret, { subject: "subject", type: "access", ttlSeconds: 300 });
+    const [, payload] = current.token.split(".");
+    const signingInput = `${legacyHeader}.${payload}`;
+
+    const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(oldKey.secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(signingInput)));
+    const encodedSignature = btoa(String.fromCharCode(...signature)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+
+    const keyring: SigningKeyring = { currentKid: newKey.kid, keys: [newKey, oldKey] };
+    await expect(verifySignedToken(keyring, `${signingInput}.${encodedSignature}`)).resolves.toMatchObject({ sub: "subject" });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetAnomalies, handleGetSleepByDate } from "../src/routes/agent-data";
+import type { StoredSleepPayload, SyncDay } from "../src/schema/agent";
+import { detectAnomalies, rollingBaselines, type NightAnomalies } from "../src/services/baselines";
+import type { StoredNight } from "../src/services/day-store";
+import { storeSyncDays } from "../src/services/day-store";
+import { shiftDays } from "../src/services/rollups";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+/** Steady nights with a little spread, then a night with low HRV and fast breathing. */
+function vitals(index: number, last: number): SyncDay["sleep"] {
+  if (index === last) {
+    return { totalSleepHours: 7, awakeningCount: 1, averageHRV: 40, averageRespiratoryRate: 17, restingHeartRate: 52 };
+  }
+  const wobble = [-1, 0, 1][index % 3];
+  return { totalSleepHours: 7 + wobble * 0.2, awakeningCount: 1, averageHRV: 60 + wobble * 2, averageRespiratoryRate: 14 + wobble * 0.3, restingHeartRate: 52 + wobble };
+}
+
+function syncDay(date: string, sleep: SyncDay["sleep"]): SyncDay {
+  return { dayLabel: date, dayStartISO: `${date}T00:00:00.000Z`, sleep, stageDurations: [], segments: [], events: [] };
+}
+
+function storedNight(date: string, sleep: SyncDay["sleep"]): StoredNight {
+  const payload: StoredSleepPayload = {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    timeZone: null,
+    sleep: {
+      mainSleepStartISO: null,
+      mainSleepEndISO: null,
+      averageHeartRate: null,
+      averageHRV: null,
+      averageRespiratoryRate: null,
+      workoutMinutes: null,
+      averageSpO2: null,
+      restingHeartRate: null,
+      ...sleep
+    },
+    stageDurations: [],
+    segments: []
+  };
+  return { date, payload };
+}
+
+async function setup(overrides: Parameters<typeof testConfig>[0] = {}) {
+  const config = testConfig(overrides);
+  const { db, baselines } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  const apiKey = generateApiKey();
+  await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+
+  const request = (path: string) => new Request(`https://worker.test${path}`, { headers: { Authorization: `Bearer ${apiKey}` } });
+  return { config, env, dek, request, baselines };
+}
+
+describe("rolling baselines", () => {
+  const nights = Array.from({ length: 15 }, (_, index) => {
+    const date = shiftDays("2026-03-01", index);
+    return storedNight(date, vitals(index, 14));
+  });
+
+  it("flags metrics far from the baseline of the preceding nights and names combined patterns", () => {
+    const [latest] = detectAnomalies(nights, "2026-03-15", 2);
+
+    expect(latest.date).toBe("2026-03-15");
+    expect(latest.metrics.averageHRV.baseline).toMatchObject({ nights: 14, mean: 59.857 });
+    expect(latest.metrics.averageHRV.zScore).toBeLessThan(-2);
+    expect(latest.flags.map((flag) => [flag.metric, flag.direction])).toEqual([["averageHRV", "low"], ["averageRespiratoryRate", "high"]]);
+    expect(latest.patterns).toEqual(["hrvDropWithRespiratoryRateRise"]);
+    expect(latest.metrics.averageSpO2).toEqual({ value: null, baseline: null, zScore: null });
+  });
+
+  it("needs enough earlier nights and respects the threshold", () => {
+    const early = detectAnomalies(nights, "2026-03-01", 2);
+    expect(early[0].metrics.averageHRV).toMatchObject({ baseline: null, zScore: null });
+    expect(early.slice(0, 7).every((night) => night.flags.length === 0)).toBe(true);
+
+    const strict = detectAnomalies(nights, "2026-03-15", 20)[0];
+    expect(strict.flags).toEqual([]);
+    expect(strict.patterns).toEqual([]);
+
+    expect(rollingBaselines(nights, "2026-03-08").averageHRV).toMatchObject({ nights: 7 });
+    expect(rollingBaselines(nights, "2026-04-20").averageHRV).toBeNull();
+  });
+
+  it("rejects a non-positive ANOMALY_Z_THRESHOLD", () => {
+    expect(testConfig().anomalyZThreshold).toBe(2);
+    expect(testConfig({ ANOMALY_Z_THRESHOLD: "2.5" }).anomalyZThreshold).toBe(2.5);
+    expect(() => testConfig({ ANOMALY_Z_THRESHOLD: "0" })).toThrow("ANOMALY_Z_THRESHOLD must be a positive number");
+  });
+});
+
+describe("anomaly endpoints", () => {
+  async function seeded(overrides: Parameters<typeof testConfig>[0] = {}) {
+    const context = await setup(overrides);
+    const today = new Date().toISOString().substring(0, 10);
+    await storeSyncDays(context.env, context.dek, INSTALL_ID, Array.from({ length: 15 }, (_, index) =>
+      syncDay(shiftDays(today, index - 14), vitals(index, 14))
+    ), "t1");
+    return { ...context, today };
+  }
+
+  it("serves flagged nights with the current baselines", async () => {
+    const { config, env, request, today } = await seeded();
+
+    const response = await handleGetAnomalies(request("/v1/data/anomalies?days=7"), env, config);
+    expect(response.status).toBe(200);
+    const body = await response.json() as { zThreshold: number; nightsChecked: number; days: NightAnomalies[]; baselines: Record<string, unknown> };
+
+    expect(body.zThreshold).toBe(2);
+    expect(body.nightsChecked).toBe(8);
+    expect(body.days.map((night) => night.date)).toEqual([today]);
+    expect(body.days[0].patterns).toEqual(["hrvDropWithRespiratoryRateRise"]);
+    expect(body.baselines.averageHRV).toMatchObject({ nights: 15 });
+    expect(body.baselines.averageSpO2).toBeNull();
+
+    const strict = await (await handleGetAnomalies(request("/v1/data/anomalies?days=7&z=6"), env, config)).json() as { zThreshold: number; days: NightAnomalies[] };
+    expect(strict.zThreshold).toBe(6);
+    expect(strict.days.flatMap((night) => night.flags).every((flag) => Math.abs(flag.zScore) >= 6)).toBe(true);
+    expect((await handleGetAnomalies(request("/v1/data/anomalies?z=0.5"), env, config)).status).toBe(400);
+  });
+
+  it("adds the configured threshold's flags to per-day responses", async () => {
+    const { config, env, request, today } = await seeded({ ANOMALY_Z_THRESHOLD: "3" });
+
+    const flagged = await (await handleGetSleepByDate(request(`/v1/data/sleep/${today}`), env, config, today)).json() as { anomalies: { zThreshold: number; flags: unknown[] } };
+    expect(flagged.anomalies.zThreshold).toBe(3);
+    expect(flagged.anomalies.flags.length).toBeGreaterThan(0);
+
+    const first = shiftDays(today, -14);
+    const unflagged = await (await handleGetSleepByDate(request(`/v1/data/sleep/${first}`), env, config, first)).json() as { anomalies: unknown };
+    expect(unflagged.anomalies).toEqual({ zThreshold: 3, flags: [], patterns: [] });
+  });
+
+  it("keeps each night's comparison, so repeat reads do not re-scan the window until a night changes", async () => {
+    const { config, env, dek, request, baselines, today } = await seeded();
+    const windowScans = () => env.SLEEP_DATA.statements.filter((statement) => statement.sql.startsWith("SELECT day_date, data_enc, iv, tag FROM sleep_days")).length;
+
+    const first = await (await handleGetAnomalies(request("/v1/data/anomalies?days=7"), env, config)).json();
+    expect(windowScans()).toBe(1);
+    expect(baselines.size).toBe(15);
+
+    expect(await (await handleGetAnomalies(request("/v1/data/anomalies?days=7"), env, config)).json()).toEqual(first);
+    await handleGetSleepByDate(request(`/v1/data/sleep/${today}`), env, config, today);
+    expect(windowScans()).toBe(1);
+
+    // A re-synced night drops the kept comparisons from its date on, and the next read computes those again
+    const changed = shiftDays(today, -3);
+    await storeSyncDays(env, dek, INSTALL_ID, [syncDay(changed, { ...vitals(0, 14), averageHRV: 30 })], "t2");
+    expect(baselines.size).toBe(11);
+
+    const after = await (await handleGetAnomalies(request("/v1/data/anomalies?days=7"), env, config)).json() as { days: NightAnomalies[] };
+    expect(windowScans()).toBe(2);
+    expect(baselines.size).toBe(15);
+    expect(after.days.map((night) => night.date)).toContain(changed);
+  });
+});
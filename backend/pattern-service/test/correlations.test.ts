@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetCorrelations } from "../src/routes/agent-data";
+import type { AgentScope, SyncDay } from "../src/schema/agent";
+import type { PatternAnalysisRequest } from "../src/schema/request";
+import { correlateEvent, type CorrelationNight, type EventCorrelation } from "../src/services/correlations";
+import { storeSyncDays } from "../src/services/day-store";
+import { buildPatternPrompt, eventEvidence } from "../src/services/prompt";
+import { shiftDays } from "../src/services/rollups";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function coffee(date: string, minutesBeforeMainSleepStart: number | null) {
+  return { name: "Coffee", timestampISO: `${date}T15:00:00.000Z`, minutesBeforeMainSleepStart };
+}
+
+function night(date: string, deepHours: number, events: SyncDay["events"] = []): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours: 7, awakeningCount: 1, averageHRV: 50 + deepHours * 10 },
+    stageDurations: [{ stage: "deep", hours: deepHours }, { stage: "rem", hours: 1.5 }],
+    segments: [],
+    events
+  };
+}
+
+function correlationNight(day: SyncDay): CorrelationNight {
+  return {
+    date: day.dayLabel,
+    payload: {
+      ...day,
+      timeZone: null,
+      sleep: {
+        mainSleepStartISO: null,
+        mainSleepEndISO: null,
+        averageHeartRate: null,
+        averageRespiratoryRate: null,
+        workoutMinutes: null,
+        averageSpO2: null,
+        restingHeartRate: null,
+        averageHRV: null,
+        ...day.sleep
+      }
+    },
+    events: day.events
+  };
+}
+
+async function setup(scopes: AgentScope[] = ["stats:read", "events:read"]) {
+  const config = testConfig();
+  const { db } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  const apiKey = generateApiKey();
+  await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes }, config.agentKeyHashSecret, env);
+
+  const get = (query: string) =>
+    handleGetCorrelations(new Request(`https://worker.test/v1/data/correlations${query}`, { headers: { Authorization: `Bearer ${apiKey}` } }), env, config);
+
+  return { env, dek, get };
+}
+
+describe("event correlations", () => {
+  it("splits nights by event and by how long before sleep it happened", () => {
+    const nights = [
+      night("2026-03-01", 1.4),
+      night("2026-03-02", 0.8, [coffee("2026-03-02", 300), coffee("2026-03-02", 90)]),
+      night("2026-03-03", 1.0, [coffee("2026-03-03", 150)]),
+      night("2026-03-04", 1.1, [coffee("2026-03-04", 240)]),
+      night("2026-03-05", 1.2, [{ name: " coffee ", timestampISO: "2026-03-05T15:00:00.000Z" }]),
+      night("2026-03-06", 1.3, [{ name: "Dinner", timestampISO: "2026-03-06T19:00:00.000Z", minutesBeforeMainSleepStart: 60 }])
+    ].map(correlationNight);
+
+    const correlation = correlateEvent(nights, "Coffee", ["deepHours"]);
+
+    expect(correlation.withoutEvent).toMatchObject({ nights: 2, metrics: { deepHours: { nights: 2, mean: 1.35 } } });
+    expect(correlation.withEvent).toMatchObject({ nights: 4, metrics: { deepHours: { nights: 4, mean: 1.025, confidence: "insufficient", pValue: null } } });
+    expect(correlation.timing.under2h).toMatchObject({ nights: 1, toMinutes: 120 });
+    expect(correlation.timing.between2and4h).toMatchObject({ nights: 1, fromMinutes: 120, toMinutes: 240 });
+    expect(correlation.timing.over4h).toMatchObject({ nights: 1, fromMinutes: 240 });
+    expect(correlation.untimedNights).toBe(1);
+    expect(correlation.units).toEqual({ deepHours: "h" });
+  });
+
+  it("serves comparisons with sample sizes and confidence over the last N days", async () => {
+    const { env, dek, get } = await setup();
+    const today = new Date().toISOString().substring(0, 10);
+    const days = Array.from({ length: 12 }, (_, index) => {
+      const date = shiftDays(today, -index);
+      if (index % 2 === 1) {
+        return night(date, 1.4 + (index % 4) * 0.01);
+      }
+      return night(date, 0.8 + (index % 3) * 0.01, [coffee(date, index < 6 ? 60 : 300)]);
+    });
+    await storeSyncDays(env, dek, INSTALL_ID, days, "t1");
+
+    const response = await get("?event=coffee&days=30");
+    expect(response.status).toBe(200);
+    const body = await response.json() as EventCorrelation & { from: string; to: string; days: number };
+
+    expect(body).toMatchObject({ event: "coffee", to: today, days: 12, untimedNights: 0 });
+    expect(body.withoutEvent.nights).toBe(6);
+    expect(Object.keys(body.withEvent.metrics)).toEqual(["totalSleepHours", "deepHours", "remHours", "averageHRV", "restingHeartRate", "awakeningCount"]);
+    expect(body.withEvent.metrics.deepHours).toMatchObject({ nights: 6, confidence: "medium" });
+    expect(body.withEvent.metrics.deepHours!.difference).toBeCloseTo(-0.6, 1);
+    expect(body.withEvent.metrics.deepHours!.pValue).toBeLessThan(0.05);
+    expect(body.withEvent.metrics.restingHeartRate).toMatchObject({ nights: 0, mean: null, confidence: "insufficient" });
+    expect(body.timing.under2h.nights).toBe(3);
+    expect(body.timing.over4h.nights).toBe(3);
+    expect(body.timing.between2and4h.metrics.deepHours!.confidence).toBe("insufficient");
+
+    const single = await (await get("?event=Coffee&metric=deepHours")).json() as EventCorrelation;
+    expect(Object.keys(single.withEvent.metrics)).toEqual(["deepHours"]);
+    expect(single.withEvent.metrics.deepHours).toEqual(body.withEvent.metrics.deepHours);
+  });
+
+  it("rejects bad queries and keys without events:read", async () => {
+    const { get } = await setup();
+    expect((await get("")).status).toBe(400);
+    expect((await get("?event=%20")).status).toBe(400);
+    expect((await get("?event=Coffee&metric=mood")).status).toBe(400);
+
+    const statsOnly = await setup(["stats:read"]);
+    const refused = await statsOnly.get("?event=Coffee");
+    expect(refused.status).toBe(403);
+    expect(await refused.json()).toMatchObject({ details: { requiredScope: "events:read" } });
+  });
+
+  it("gives the analysis prompt one correlation per event name over the stored nights", () => {
+    const day = (date: string, restingHeartRate: number, events: PatternAnalysisRequest["selectedDates"][number]["events"]) => ({
+      dayLabel: "Mar 14",
+      // Local midnight at +02:00, so the night is keyed by `date` as sync keys it
+      dayStartISO: `${shiftDays(date, -1)}T22:00:00.000Z`,
+      timeZone: "+02:00",
+      sleep: {
+        totalSleepHours: 7,
+        awakeningCount: 2,
+        mainSleepStartISO: null,
+        mainSleepEndISO: null,
+        averageHeartRate: 55,
+        averageHRV: 60,
+        averageRespiratoryRate: 15,
+        workoutMinutes: null,
+        restingHeartRate
+      },
+      stageDurations: [{ stage: "deep" as const, hours: 1 }],
+      segments: [],
+      events
+    });
+    // Eight stored nights, every other one with Coffee; the selection replaces the stored 2026-03-08 and adds 2026-03-09
+    const stored = Array.from({ length: 8 }, (_, index) => {
+      const date = shiftDays("2026-03-01", index);
+      return correlationNight(night(date, 1, index % 2 === 0 ? [coffee(date, 300)] : []));
+    });
+    const payload: PatternAnalysisRequest = {
+      selectedDates: [
+        day("2026-03-08", 60, [{ name: "coffee", timestampISO: "2026-03-08T12:00:00.000Z", minutesBeforeMainSleepStart: 60 }]),
+        day("2026-03-09", 50, [{ name: "Dinner", timestampISO: "2026-03-09T17:00:00.000Z", minutesBeforeMainSleepStart: null }])
+      ]
+    };
+
+    const evidence = eventEvidence(payload, stored);
+
+    expect(evidence.map((correlation) => correlation.event)).toEqual(["coffee", "Dinner"]);
+    expect(evidence[0]).toMatchObject({ withoutEvent: { nights: 4 }, withEvent: { nights: 5 }, timing: { under2h: { nights: 1 }, over4h: { nights: 4 } } });
+    expect(evidence[0].withEvent.metrics.restingHeartRate).toMatchObject({ nights: 1, mean: 60 });
+    expect(evidence[0].withEvent.metrics.totalSleepHours!.confidence).not.toBe("insufficient");
+    expect(evidence[1]).toMatchObject({ withEvent: { nights: 1 }, untimedNights: 1 });
+
+    expect(buildPatternPrompt(payload, evidence)).toContain("Computed evidence:");
+    expect(buildPatternPrompt(payload, null)).not.toContain("Computed evidence");
+    expect(buildPatternPrompt(payload, [])).not.toContain("Computed evidence");
+  });
+});
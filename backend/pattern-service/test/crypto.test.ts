@@ -1,8 +1,17 @@
 import { describe, expect, it } from "vitest";
-import { generateDEK, wrapDEK, unwrapDEK, encrypt, decrypt, bufferToBase64, base64ToBuffer } from "../src/crypto";
+import {
+    generateDEK, wrapDEK, unwrapDEK, encrypt, decrypt, bufferToBase64, base64ToBuffer,
+    wrapDEKWithRing, unwrapVersionedDEK, needsRewrap, rewrapDEK, type KekRing
+} from "../src/crypto";
+import { REWRAP_STATE_KEY, rewrapStaleDEKs } from "../src/services/dek-rewrap";
+import { memoryEnv } from "./fakes";
 
 // Test KEK (64 hex chars = 32 bytes = 256 bits)
 const TEST_KEK = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+const NEXT_KEK = "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210";
+
+const LEGACY_RING: KekRing = { currentVersion: 1, keks: { 1: TEST_KEK } };
+const ROTATED_RING: KekRing = { currentVersion: 2, keks: { 1: TEST_KEK, 2: NEXT_KEK } };
 
 describe("crypto", () => {
     it("generates a 256-bit DEK", async () => {
@@ -82,4 +91,68 @@ describe("crypto", () => {
         const wrongKEK = "ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff";
         await expect(unwrapDEK(wrapped, wrongKEK)).rejects.toThrow();
     });
+
+    it("re-wraps a legacy DEK under the current KEK without changing the data key", async () => {
+        const legacy = { wrappedDek: await wrapDEK(await generateDEK(), TEST_KEK) };
+        const blob = await encrypt("night one", await unwrapDEK(legacy.wrappedDek, TEST_KEK));
+
+        expect(needsRewrap(legacy, ROTATED_RING)).toBe(true);
+        const rewrapped = await rewrapDEK(legacy, ROTATED_RING);
+
+        expect(rewrapped.kekVersion).toBe(2);
+        expect(needsRewrap(rewrapped, ROTATED_RING)).toBe(false);
+        await expect(unwrapDEK(rewrapped.wrappedDek, TEST_KEK)).rejects.toThrow();
+
+        const unwrapped = await unwrapVersionedDEK(rewrapped, { currentVersion: 2, keks: { 2: NEXT_KEK } });
+        expect(await decrypt(blob, unwrapped)).toBe("night one");
+    });
+
+    it("rewrapStaleDEKs migrates install and key records and leaves current ones alone", async () => {
+        const env = memoryEnv();
+        const dek = await wrapDEKWithRing(await generateDEK(), LEGACY_RING);
+        const current = await wrapDEKWithRing(await generateDEK(), ROTATED_RING);
+
+        await env.AGENT_KEYS.put("install:a", JSON.stringify({ wrappedDek: dek.wrappedDek, keys: [] }));
+        await env.AGENT_KEYS.put("key:abc", JSON.stringify({ ...dek, installId: "a", label: "Agent" }));
+        await env.AGENT_KEYS.put("install:b", JSON.stringify({ ...current, keys: [] }));
+        await env.AGENT_KEYS.put("install:legacy", "slk_plaintext");
+
+        const report = await rewrapStaleDEKs(env, ROTATED_RING);
+        expect(report).toEqual({ scanned: 4, rewrapped: 2, failed: 0, truncated: false, upToDate: false });
+
+        const keyRecord = JSON.parse((await env.AGENT_KEYS.get("key:abc"))!);
+        expect(keyRecord.kekVersion).toBe(2);
+        expect(keyRecord.label).toBe("Agent");
+        expect(JSON.parse((await env.AGENT_KEYS.get("install:b"))!)).toEqual({ ...current, keys: [] });
+
+        const again = await rewrapStaleDEKs(env, ROTATED_RING);
+        expect(again).toMatchObject({ rewrapped: 0, upToDate: true });
+
+        // Once up to date, runs stop before listing anything
+        await env.AGENT_KEYS.put("install:c", JSON.stringify({ wrappedDek: dek.wrappedDek, keys: [] }));
+        expect(await rewrapStaleDEKs(env, ROTATED_RING)).toEqual({ scanned: 0, rewrapped: 0, failed: 0, truncated: false, upToDate: true });
+    });
+
+    it("rewrapStaleDEKs stops at its per-run cap", async () => {
+        const env = memoryEnv();
+        for (const id of ["a", "b", "c"]) {
+            const dek = await wrapDEKWithRing(await generateDEK(), LEGACY_RING);
+            await env.AGENT_KEYS.put(`install:${id}`, JSON.stringify({ ...dek, keys: [] }));
+        }
+
+        const first = await rewrapStaleDEKs(env, ROTATED_RING, 2);
+        expect(first).toMatchObject({ scanned: 2, rewrapped: 2, truncated: true });
+
+        // The next run resumes after the keys already read
+        const second = await rewrapStaleDEKs(env, ROTATED_RING, 2);
+        expect(second).toMatchObject({ scanned: 1, rewrapped: 1, truncated: false, upToDate: false });
+    });
+
+    it("rewrapStaleDEKs reads nothing when the ring holds only the current version", async () => {
+        const env = memoryEnv();
+        await env.AGENT_KEYS.put("install:a", JSON.stringify({ ...await wrapDEKWithRing(await generateDEK(), LEGACY_RING), keys: [] }));
+
+        expect(await rewrapStaleDEKs(env, LEGACY_RING)).toMatchObject({ scanned: 0, upToDate: true });
+        expect(await env.AGENT_KEYS.get(REWRAP_STATE_KEY)).toBeNull();
+    });
 });
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { decrypt, encrypt, generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleDeleteEvent, handleDeleteSleepDay, handleDeleteSleepRange } from "../src/routes/deletion";
+import type { SyncDay } from "../src/schema/agent";
+import type { AuditEntry } from "../src/services/audit-log";
+import { storeSyncDays } from "../src/services/day-store";
+import { readEvents } from "../src/services/event-store";
+import { readRollups } from "../src/services/rollups";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function night(date: string, totalSleepHours: number): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours, awakeningCount: 1 },
+    stageDurations: [{ stage: "deep", hours: 1 }],
+    segments: [],
+    events: [
+      { name: "Coffee", timestampISO: `${date}T08:00:00.000Z` },
+      { name: "Late dinner", timestampISO: `${date}T21:00:00.000Z` }
+    ],
+    series: { hr: [{ timestampISO: `${date}T01:00:00.000Z`, value: 55 }] }
+  };
+}
+
+async function setup(options: { agentAccess: boolean } = { agentAccess: true }) {
+  const config = testConfig();
+  const { db, days, events, series } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  if (options.agentAccess) {
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+    await storeSyncDays(env, dek, INSTALL_ID, ["2026-03-10", "2026-03-11", "2026-03-12"].map((date, index) => night(date, 6 + index)), "t0");
+  }
+
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+  const deleteRequest = (path: string) =>
+    new Request(`https://worker.test${path}`, { method: "DELETE", headers: { Authorization: `Bearer ${token}` } });
+
+  const auditEntries = () =>
+    Promise.all(
+      db.statements
+        .filter((statement) => statement.sql.startsWith("INSERT INTO agent_audit_log"))
+        .map(async ({ params }) => JSON.parse(await decrypt({ ciphertext: params[3] as string, iv: params[4] as string, tag: params[5] as string }, dek)) as AuditEntry)
+    );
+
+  return { config, env, dek, days, events, series, deleteRequest, auditEntries };
+}
+
+describe("selective deletion", () => {
+  it("deletes one night with its events and series, takes it out of the rollups and logs it", async () => {
+    const { config, env, dek, days, events, series, deleteRequest, auditEntries } = await setup();
+
+    const response = await handleDeleteSleepDay(deleteRequest("/v1/data/sleep/2026-03-11"), env, config, "2026-03-11");
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      deleted: true,
+      from: "2026-03-11",
+      to: "2026-03-11",
+      dates: ["2026-03-11"],
+      removed: { days: 1, events: 2, seriesChunks: 1 }
+    });
+
+    expect([...days.values()].map((row) => row.day_date).sort()).toEqual(["2026-03-10", "2026-03-12"]);
+    expect([...events.values()].some((row) => row.day_date === "2026-03-11")).toBe(false);
+    expect([...series.values()].map((row) => row.day_date).sort()).toEqual(["2026-03-10", "2026-03-12"]);
+
+    const [month] = await readRollups(env, dek, INSTALL_ID, "month", "2026-03-01", "2026-03-01");
+    expect(month.days).toBe(2);
+    expect(month.metrics.totalSleepHours).toEqual({ count: 2, sum: 14, sumSquares: 36 + 64 });
+
+    expect(await auditEntries()).toEqual([
+      expect.objectContaining({
+        keyId: null,
+        route: "DELETE /v1/data/sleep/:date",
+        status: 200,
+        from: "2026-03-11",
+        to: "2026-03-11",
+        days: 1,
+        removed: { days: 1, events: 2, seriesChunks: 1 }
+      })
+    ]);
+
+    const again = await handleDeleteSleepDay(deleteRequest("/v1/data/sleep/2026-03-11"), env, config, "2026-03-11");
+    expect(again.status).toBe(404);
+  });
+
+  it("deletes a range and drops the rollups it empties", async () => {
+    const { config, env, dek, days, deleteRequest } = await setup();
+
+    const response = await handleDeleteSleepRange(deleteRequest("/v1/data/sleep/range?from=2026-03-01&to=2026-03-31"), env, config);
+    expect(await response.json()).toMatchObject({
+      deleted: true,
+      dates: ["2026-03-10", "2026-03-11", "2026-03-12"],
+      removed: { days: 3, events: 6, seriesChunks: 3 }
+    });
+    expect(days.size).toBe(0);
+    expect(await readRollups(env, dek, INSTALL_ID, "month", "2026-03-01", "2026-03-01")).toEqual([]);
+
+    const empty = await handleDeleteSleepRange(deleteRequest("/v1/data/sleep/range?from=2026-04-01&to=2026-04-30"), env, config);
+    expect(empty.status).toBe(200);
+    expect(await empty.json()).toMatchObject({ deleted: false, dates: [], removed: { days: 0, events: 0, seriesChunks: 0 } });
+
+    expect((await handleDeleteSleepRange(deleteRequest("/v1/data/sleep/range?from=2026-03-31&to=2026-03-01"), env, config)).status).toBe(400);
+    expect((await handleDeleteSleepRange(deleteRequest("/v1/data/sleep/range?from=2026-03-01"), env, config)).status).toBe(400);
+  });
+
+  it("deletes a single event and keeps the night", async () => {
+    const { config, env, dek, days, deleteRequest, auditEntries } = await setup();
+
+    const response = await handleDeleteEvent(deleteRequest("/v1/data/events/2026-03-10/0"), env, config, "2026-03-10", 0);
+    expect(await response.json()).toEqual({
+      deleted: true,
+      date: "2026-03-10",
+      index: 0,
+      event: { name: "Coffee", timestampISO: "2026-03-10T08:00:00.000Z" },
+      removed: { days: 0, events: 1, seriesChunks: 0 }
+    });
+
+    expect(await readEvents(env, dek, INSTALL_ID, { from: "2026-03-10", to: "2026-03-10" })).toEqual([
+      { date: "2026-03-10", events: [{ name: "Late dinner", timestampISO: "2026-03-10T21:00:00.000Z" }] }
+    ]);
+    expect(days.has(`${INSTALL_ID}:2026-03-10`)).toBe(true);
+    expect(await auditEntries()).toEqual([expect.objectContaining({ route: "DELETE /v1/data/events/:date/:index", status: 200 })]);
+
+    const missing = await handleDeleteEvent(deleteRequest("/v1/data/events/2026-03-10/1"), env, config, "2026-03-10", 1);
+    expect(missing.status).toBe(404);
+  });
+
+  it("splits a legacy whole-day event blob into rows when deleting from it", async () => {
+    const { config, env, dek, events, deleteRequest } = await setup();
+    const blob = await encrypt(JSON.stringify([
+      { name: "Nap", timestampISO: "2026-03-01T14:00:00.000Z" },
+      { name: "Alcohol", timestampISO: "2026-03-01T20:00:00.000Z" }
+    ]), dek);
+    events.set(`${INSTALL_ID}:2026-03-01:events`, {
+      id: `${INSTALL_ID}:2026-03-01:events`,
+      install_id: INSTALL_ID,
+      day_date: "2026-03-01",
+      data_enc: blob.ciphertext,
+      iv: blob.iv,
+      tag: blob.tag,
+      synced_at: "t0",
+      name_index: null,
+      event_index: 0
+    });
+
+    const response = await handleDeleteEvent(deleteRequest("/v1/data/events/2026-03-01/1"), env, config, "2026-03-01", 1);
+    expect(await response.json()).toMatchObject({ event: { name: "Alcohol" } });
+
+    const remaining = [...events.values()].filter((row) => row.day_date === "2026-03-01");
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].name_index).not.toBeNull();
+    expect(await readEvents(env, dek, INSTALL_ID, { from: "2026-03-01", to: "2026-03-01" })).toEqual([
+      { date: "2026-03-01", events: [{ name: "Nap", timestampISO: "2026-03-01T14:00:00.000Z" }] }
+    ]);
+  });
+
+  it("refuses installs without agent access", async () => {
+    const { config, env, deleteRequest } = await setup({ agentAccess: false });
+
+    expect((await handleDeleteSleepDay(deleteRequest("/v1/data/sleep/2026-03-11"), env, config, "2026-03-11")).status).toBe(403);
+  });
+});
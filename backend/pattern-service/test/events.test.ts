@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { blindIndex, deriveBlindIndexKey, encrypt, generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetEvents } from "../src/routes/agent-data";
+import type { SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import { eventNameIndex, normalizeEventName, readEvents } from "../src/services/event-store";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function day(date: string, events: SyncDay["events"]): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours: 7, awakeningCount: 1 },
+    stageDurations: [],
+    segments: [],
+    events
+  };
+}
+
+function event(name: string, date: string) {
+  return { name, timestampISO: `${date}T08:00:00.000Z` };
+}
+
+async function setup() {
+  const config = testConfig();
+  const { db, events } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  return { config, env, events, wrapped, dek };
+}
+
+describe("event blind index", () => {
+  it("ignores case, spacing and Unicode form", async () => {
+    expect(normalizeEventName("  Late   Dinner ")).toBe("late dinner");
+    expect(normalizeEventName("ＣＡＦＦＥＩＮＥ")).toBe("caffeine");
+
+    const { dek } = await setup();
+    const indexKey = await deriveBlindIndexKey(dek);
+    expect(await eventNameIndex(indexKey, "Caffeine ")).toBe(await eventNameIndex(indexKey, "caffeine"));
+    expect(await eventNameIndex(indexKey, "caffeine")).not.toBe(await eventNameIndex(indexKey, "alcohol"));
+  });
+
+  it("differs between installs", async () => {
+    const first = await setup();
+    const second = await setup();
+    const indexFor = async (dek: CryptoKey) => blindIndex(await deriveBlindIndexKey(dek), "caffeine");
+
+    expect(await indexFor(first.dek)).toBe(await indexFor(first.dek));
+    expect(await indexFor(first.dek)).not.toBe(await indexFor(second.dek));
+  });
+});
+
+describe("per-event storage", () => {
+  it("stores one encrypted row per event and filters by name without touching other events", async () => {
+    const { env, events, dek } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [
+      day("2026-03-18", [event("Caffeine", "2026-03-18"), event("Dinner", "2026-03-18")]),
+      day("2026-03-19", [event("caffeine", "2026-03-19")])
+    ], "t1");
+
+    expect(events.size).toBe(3);
+    expect([...events.values()].every((row) => !row.data_enc.includes("affeine") && row.name_index !== null)).toBe(true);
+
+    const caffeine = await readEvents(env, dek, INSTALL_ID, { from: "2026-03-01", to: "2026-03-31", name: "CAFFEINE" });
+    expect(caffeine.map((entry) => [entry.date, entry.events.map((e) => e.name)])).toEqual([
+      ["2026-03-19", ["caffeine"]],
+      ["2026-03-18", ["Caffeine"]]
+    ]);
+
+    const all = await readEvents(env, dek, INSTALL_ID, { from: "2026-03-18", to: "2026-03-18" });
+    expect(all[0].events.map((e) => e.name)).toEqual(["Caffeine", "Dinner"]);
+  });
+
+  it("filters legacy whole-day rows by decrypting them", async () => {
+    const { env, events, dek } = await setup();
+    const blob = await encrypt(JSON.stringify([event("Caffeine", "2026-03-10"), event("Nap", "2026-03-10")]), dek);
+    events.set(`${INSTALL_ID}:2026-03-10:events`, {
+      id: `${INSTALL_ID}:2026-03-10:events`,
+      install_id: INSTALL_ID,
+      day_date: "2026-03-10",
+      data_enc: blob.ciphertext,
+      iv: blob.iv,
+      tag: blob.tag,
+      synced_at: "t0",
+      name_index: null,
+      event_index: 0
+    });
+
+    const naps = await readEvents(env, dek, INSTALL_ID, { from: "2026-03-10", to: "2026-03-10", name: "nap" });
+    expect(naps).toEqual([{ date: "2026-03-10", events: [event("Nap", "2026-03-10")] }]);
+    expect(await readEvents(env, dek, INSTALL_ID, { from: "2026-03-10", to: "2026-03-10", name: "alcohol" })).toEqual([]);
+  });
+
+  it("answers /v1/data/events?name= for agents", async () => {
+    const { config, env, wrapped, dek } = await setup();
+    const apiKey = generateApiKey();
+    await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes: ["events:read"] }, config.agentKeyHashSecret, env);
+
+    const today = new Date().toISOString().substring(0, 10);
+    await storeSyncDays(env, dek, INSTALL_ID, [day(today, [event("Caffeine", today), event("Alcohol", today)])], "t1");
+
+    const request = (query: string) =>
+      new Request(`https://worker.test/v1/data/events${query}`, { headers: { Authorization: `Bearer ${apiKey}` } });
+
+    const response = await handleGetEvents(request("?days=30&name=caffeine"), env, config);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      name: "caffeine",
+      days: [{ date: today, events: [event("Caffeine", today)] }],
+      count: 1
+    });
+
+    expect((await handleGetEvents(request("?name=%20"), env, config)).status).toBe(400);
+  });
+});
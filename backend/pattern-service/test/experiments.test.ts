@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import {
+  handleCreateExperiment,
+  handleDeleteExperiment,
+  handleGetExperimentResults,
+  handleListExperiments,
+  handleUpdateExperiment
+} from "../src/routes/experiments";
+import type { SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import type { Experiment, ExperimentComparison } from "../src/services/experiments";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function night(date: string, deepHours: number, events: SyncDay["events"] = []): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours: 7, awakeningCount: 1 },
+    stageDurations: [{ stage: "deep", hours: deepHours }, { stage: "core", hours: 7 - deepHours }],
+    segments: [],
+    events
+  };
+}
+
+async function setup(options: { agentAccess: boolean } = { agentAccess: true }) {
+  const config = testConfig();
+  const { db, experiments } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  if (options.agentAccess) {
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+  }
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+
+  const request = (method: string, path: string, body?: unknown) =>
+    new Request(`https://worker.test${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  return { config, env, dek, experiments, request };
+}
+
+describe("experiments", () => {
+  it("creates, lists, updates and deletes experiments stored encrypted", async () => {
+    const { config, env, experiments, request } = await setup();
+
+    const created = await handleCreateExperiment(request("POST", "/v1/experiments", {
+      hypothesis: "No caffeine after 14:00 deepens my sleep",
+      metric: "deepHours",
+      design: { type: "ranges", baseline: { from: "2026-03-01", to: "2026-03-07" }, intervention: { from: "2026-03-08", to: "2026-03-14" } }
+    }), env, config);
+    expect(created.status).toBe(201);
+    const experiment = await created.json() as Experiment;
+    expect(experiment).toMatchObject({ metric: "deepHours", status: "running" });
+    expect(experiments.get(experiment.id)!.data_enc).not.toContain("caffeine");
+
+    const updated = await handleUpdateExperiment(request("PATCH", `/v1/experiments/${experiment.id}`, { status: "completed" }), env, config, experiment.id);
+    expect(await updated.json()).toMatchObject({ id: experiment.id, status: "completed", hypothesis: experiment.hypothesis });
+
+    const listed = await (await handleListExperiments(request("GET", "/v1/experiments"), env, config)).json() as { count: number };
+    expect(listed.count).toBe(1);
+
+    expect((await handleDeleteExperiment(request("DELETE", `/v1/experiments/${experiment.id}`), env, config, experiment.id)).status).toBe(200);
+    expect((await handleDeleteExperiment(request("DELETE", `/v1/experiments/${experiment.id}`), env, config, experiment.id)).status).toBe(404);
+    expect((await handleGetExperimentResults(request("GET", `/v1/experiments/${experiment.id}/results`), env, config, experiment.id)).status).toBe(404);
+  });
+
+  it("compares baseline and intervention ranges deterministically", async () => {
+    const { config, env, dek, request } = await setup();
+    const baseline = [1.0, 1.1, 0.9, 1.2, 1.0, 0.8, 1.0];
+    const intervention = [1.5, 1.6, 1.4, 1.7, 1.5, 1.6, 1.5];
+    await storeSyncDays(env, dek, INSTALL_ID, [
+      ...baseline.map((hours, index) => night(`2026-03-0${index + 1}`, hours)),
+      ...intervention.map((hours, index) => night(`2026-03-${String(index + 8).padStart(2, "0")}`, hours))
+    ], "t1");
+
+    const created = await handleCreateExperiment(request("POST", "/v1/experiments", {
+      hypothesis: "No caffeine after 14:00 deepens my sleep",
+      metric: "deepHours",
+      design: { type: "ranges", baseline: { from: "2026-03-01", to: "2026-03-07" }, intervention: { from: "2026-03-08", to: "2026-03-14" } }
+    }), env, config);
+    const { id } = await created.json() as Experiment;
+
+    const results = async () =>
+      await (await handleGetExperimentResults(request("GET", `/v1/experiments/${id}/results`), env, config, id)).json() as ExperimentComparison;
+    const first = await results();
+
+    expect(first.baseline).toMatchObject({ nights: 7, mean: 1 });
+    expect(first.intervention).toMatchObject({ nights: 7, mean: 1.543 });
+    expect(first.sufficientData).toBe(true);
+    expect(first.meanDifference).toBe(0.543);
+    expect(first.effectSize).toBeGreaterThan(3);
+    expect(first.confidenceInterval!.lower).toBeGreaterThan(0);
+    expect(first.confidenceInterval!.upper).toBeGreaterThan(first.meanDifference!);
+    expect(first.pValue).toBeLessThan(0.01);
+    expect(await results()).toEqual(first);
+  });
+
+  it("splits nights by a tagging event and reports too few nights without statistics", async () => {
+    const { config, env, dek, request } = await setup();
+    const coffee = (date: string) => [{ name: "Coffee", timestampISO: `${date}T16:00:00.000Z` }];
+    await storeSyncDays(env, dek, INSTALL_ID, [
+      night("2026-03-01", 1.2),
+      night("2026-03-02", 0.7, coffee("2026-03-02")),
+      night("2026-03-03", 1.1),
+      night("2026-03-04", 0.8, coffee("2026-03-04"))
+    ], "t1");
+
+    const created = await handleCreateExperiment(request("POST", "/v1/experiments", {
+      hypothesis: "Afternoon coffee costs me deep sleep",
+      metric: "deepHours",
+      design: { type: "event", event: "coffee", from: "2026-03-01", to: "2026-03-31" }
+    }), env, config);
+    const { id } = await created.json() as Experiment;
+
+    const comparison = await (await handleGetExperimentResults(request("GET", `/v1/experiments/${id}/results`), env, config, id)).json() as ExperimentComparison;
+    expect(comparison.baseline).toMatchObject({ nights: 2, dates: ["2026-03-01", "2026-03-03"] });
+    expect(comparison.intervention).toMatchObject({ nights: 2, dates: ["2026-03-02", "2026-03-04"], mean: 0.75 });
+    expect(comparison).toMatchObject({ sufficientData: false, meanDifference: null, pValue: null, confidenceInterval: null });
+  });
+
+  it("rejects invalid experiments and installs without agent access", async () => {
+    const { config, env, request } = await setup();
+    const create = (body: unknown) => handleCreateExperiment(request("POST", "/v1/experiments", body), env, config);
+
+    expect((await create({ hypothesis: "x", metric: "mood", design: { type: "event", event: "Coffee", from: "2026-03-01", to: "2026-03-31" } })).status).toBe(400);
+    expect((await create({
+      hypothesis: "x",
+      metric: "deepHours",
+      design: { type: "ranges", baseline: { from: "2026-03-01", to: "2026-03-10" }, intervention: { from: "2026-03-05", to: "2026-03-14" } }
+    })).status).toBe(400);
+    expect((await create({ hypothesis: "x", metric: "deepHours", design: { type: "event", event: "Coffee", from: "2026-03-31", to: "2026-03-01" } })).status).toBe(400);
+
+    const withoutAccess = await setup({ agentAccess: false });
+    expect((await handleListExperiments(withoutAccess.request("GET", "/v1/experiments"), withoutAccess.env, withoutAccess.config)).status).toBe(403);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleExport } from "../src/routes/export";
+import type { SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import { shiftDays } from "../src/services/rollups";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function night(date: string): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours: 7.25, awakeningCount: 2, averageHRV: 48 },
+    stageDurations: [{ stage: "deep", hours: 1.25 }, { stage: "rem", hours: 1.5 }],
+    segments: [
+      { stage: "core", startISO: `${date}T00:30:00.000Z`, endISO: `${date}T01:00:00.000Z`, durationMinutes: 30 },
+      { stage: "deep", startISO: `${date}T01:00:00.000Z`, endISO: `${date}T02:15:00.000Z`, durationMinutes: 75 }
+    ],
+    events: [{ name: "Coffee, black", timestampISO: `${date}T08:00:00.000Z`, note: "=HYPERLINK(\"x\")" }]
+  };
+}
+
+async function setup(options: { agentAccess: boolean; nights: number }) {
+  const config = testConfig();
+  const { db } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  if (options.agentAccess) {
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+  }
+
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  const dates = Array.from({ length: options.nights }, (_, index) => shiftDays("2026-01-01", index));
+  for (let start = 0; start < dates.length; start += 30) {
+    await storeSyncDays(env, dek, INSTALL_ID, dates.slice(start, start + 30).map(night), "2026-03-01T00:00:00.000Z");
+  }
+
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+  const exportRequest = (query: string) =>
+    handleExport(new Request(`https://worker.test/v1/data/export${query}`, { headers: { Authorization: `Bearer ${token}` } }), env, config);
+
+  return { db, exportRequest };
+}
+
+describe("data export", () => {
+  it("streams every night as JSON across D1 pages", async () => {
+    const { exportRequest } = await setup({ agentAccess: true, nights: 40 });
+
+    const response = await exportRequest("?format=json");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe('attachment; filename="sleeplab-0000-01-01-to-9999-12-31.json"');
+
+    const body = (await response.json()) as { days: Array<Record<string, unknown>> };
+    expect(body.days).toHaveLength(40);
+    expect(body.days[0]).toMatchObject({
+      date: "2026-01-01",
+      sleep: { totalSleepHours: 7.25 },
+      segments: [{ stage: "core" }, { stage: "deep" }],
+      events: [{ name: "Coffee, black" }]
+    });
+    expect(body.days.at(-1)?.date).toBe("2026-02-09");
+  });
+
+  it("only reads the next page once the client has consumed the previous one", async () => {
+    const { db, exportRequest } = await setup({ agentAccess: true, nights: 40 });
+    const pageReads = () => db.statements.filter((statement) => statement.sql.startsWith("SELECT day_date, data_enc")).length;
+
+    const response = await exportRequest("?format=ndjson&from=2026-01-01&to=2026-12-31");
+    const reader = response.body!.getReader();
+    for (let line = 0; line < 5; line += 1) {
+      await reader.read();
+    }
+    expect(pageReads()).toBe(1);
+    await reader.cancel();
+
+    const full = await (await exportRequest("?format=ndjson&from=2026-01-10&to=2026-01-12")).text();
+    expect(full.trim().split("\n").map((line) => JSON.parse(line).date)).toEqual(["2026-01-10", "2026-01-11", "2026-01-12"]);
+  });
+
+  it("flattens nights, segments and events to CSV", async () => {
+    const { exportRequest } = await setup({ agentAccess: true, nights: 2 });
+
+    const nights = (await (await exportRequest("?format=csv")).text()).split("\r\n");
+    expect(nights[0]).toBe(
+      "date,dayLabel,dayStartISO,timeZone,syncedAt,totalSleepHours,awakeningCount,mainSleepStartISO,mainSleepEndISO,averageHeartRate,averageHRV,averageRespiratoryRate,workoutMinutes,averageSpO2,restingHeartRate,inBedHours,awakeHours,coreHours,remHours,deepHours,eventCount"
+    );
+    expect(nights[1]).toBe("2026-01-01,2026-01-01,2026-01-01T00:00:00.000Z,,2026-03-01T00:00:00.000Z,7.25,2,,,,48,,,,,,,,1.5,1.25,1");
+    expect(nights).toHaveLength(4);
+
+    const segments = (await (await exportRequest("?format=csv&file=segments")).text()).trim().split("\r\n");
+    expect(segments).toHaveLength(5);
+    expect(segments[2]).toBe("2026-01-01,deep,2026-01-01T01:00:00.000Z,2026-01-01T02:15:00.000Z,75");
+
+    const eventsResponse = await exportRequest("?format=csv&file=events");
+    expect(eventsResponse.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    const events = (await eventsResponse.text()).trim().split("\r\n");
+    expect(events[1]).toBe('2026-01-01,"Coffee, black",2026-01-01T08:00:00.000Z,,"\'=HYPERLINK(""x"")"');
+  });
+
+  it("rejects bad queries and installs without agent access", async () => {
+    const withAccess = await setup({ agentAccess: true, nights: 0 });
+    expect((await withAccess.exportRequest("?format=xml")).status).toBe(400);
+    expect((await withAccess.exportRequest("?from=2026-02-01&to=2026-01-01")).status).toBe(400);
+
+    const withoutAccess = await setup({ agentAccess: false, nights: 0 });
+    expect((await withoutAccess.exportRequest("")).status).toBe(403);
+  });
+});
@@ -0,0 +1,446 @@
+import type { NonceStore } from "../src/auth/nonce-store";
+import { readConfig, type Env, type ServiceConfig } from "../src/config";
+import { takeToken, type BucketState, type RateLimitDecision, type RateLimitPolicy, type RateLimitStore } from "../src/services/rate-limit";
+
+/** Minimal in-memory stand-in for the KV methods the service uses. */
+export class MemoryKV {
+    readonly store = new Map<string, string>();
+
+    async get(key: string): Promise<string | null> {
+        return this.store.get(key) ?? null;
+    }
+
+    async put(key: string, value: string, _options?: { expirationTtl?: number }): Promise<void> {
+        this.store.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.store.delete(key);
+    }
+
+    /** Pages like KV: `cursor` is opaque to callers (here, the offset of the next key). */
+    async list(options: { prefix?: string; cursor?: string; limit?: number } = {}): Promise<{ keys: Array<{ name: string }>; list_complete: boolean; cursor: string }> {
+        const prefix = options.prefix ?? "";
+        const names = [...this.store.keys()].filter((name) => name.startsWith(prefix)).sort();
+        const start = Number(options.cursor ?? 0);
+        const end = start + (options.limit ?? 1000);
+        const complete = end >= names.length;
+        return { keys: names.slice(start, end).map((name) => ({ name })), list_complete: complete, cursor: complete ? "" : String(end) };
+    }
+}
+
+/** Build an Env whose KV namespaces are in-memory fakes. Other bindings are left unset. */
+export function memoryEnv(): Env & { AGENT_KEYS: MemoryKV & KVNamespace; INSTALL_KEYS: MemoryKV & KVNamespace } {
+    return {
+        INSTALL_KEYS: new MemoryKV(),
+        AGENT_KEYS: new MemoryKV()
+    } as unknown as Env & { AGENT_KEYS: MemoryKV & KVNamespace; INSTALL_KEYS: MemoryKV & KVNamespace };
+}
+
+/** In-memory NonceStore with the same first-caller-wins contract as the D1 store. */
+export function memoryNonceStore(): NonceStore {
+    const consumed = new Map<string, number>();
+    return {
+        async consume(nonce: string, expiresAtEpoch: number): Promise<boolean> {
+            if (consumed.has(nonce)) {
+                return false;
+            }
+            consumed.set(nonce, expiresAtEpoch);
+            return true;
+        }
+    };
+}
+
+/** In-memory RateLimitStore using the same bucket math as the D1 store. */
+export function memoryRateLimitStore(): RateLimitStore & { buckets: Map<string, BucketState> } {
+    const buckets = new Map<string, BucketState>();
+    return {
+        buckets,
+        async take(bucket: string, policy: RateLimitPolicy, nowMs: number): Promise<RateLimitDecision> {
+            const { state, decision } = takeToken(buckets.get(bucket) ?? null, policy, nowMs);
+            buckets.set(bucket, state);
+            return decision;
+        }
+    };
+}
+
+type D1Responder = (params: unknown[], sql: string) => unknown[];
+
+/**
+ * Stand-in for D1 that records every statement and answers from responders
+ * registered per SQL pattern. Statements with no matching responder return no rows.
+ */
+export class ScriptedD1 {
+    readonly statements: Array<{ sql: string; params: unknown[] }> = [];
+    private readonly responders: Array<{ pattern: RegExp; respond: D1Responder }> = [];
+
+    on(pattern: RegExp, respond: D1Responder): this {
+        this.responders.push({ pattern, respond });
+        return this;
+    }
+
+    prepare(sql: string) {
+        const db = this;
+        let params: unknown[] = [];
+        const execute = () => {
+            db.statements.push({ sql, params });
+            return db.responders.find((responder) => responder.pattern.test(sql))?.respond(params, sql) ?? [];
+        };
+
+        const statement = {
+            bind(...values: unknown[]) {
+                params = values;
+                return statement;
+            },
+            async first<T>(): Promise<T | null> {
+                return (execute()[0] as T | undefined) ?? null;
+            },
+            async all<T>(): Promise<{ results: T[] }> {
+                return { results: execute() as T[] };
+            },
+            async run(): Promise<{ meta: { changes: number } }> {
+                return { meta: { changes: execute().length } };
+            }
+        };
+        return statement;
+    }
+
+    async batch(statements: Array<{ run(): Promise<{ meta: { changes: number } }> }>) {
+        const results = [];
+        for (const statement of statements) {
+            results.push(await statement.run());
+        }
+        return results;
+    }
+}
+
+/** Env with in-memory KV and a ScriptedD1 for SLEEP_DATA. */
+export function memoryEnvWithD1(db = new ScriptedD1()): ReturnType<typeof memoryEnv> & { SLEEP_DATA: ScriptedD1 & D1Database } {
+    return { ...memoryEnv(), SLEEP_DATA: db } as unknown as ReturnType<typeof memoryEnv> & { SLEEP_DATA: ScriptedD1 & D1Database };
+}
+
+export const TEST_KEK = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+
+/** Fixed test secrets, for building a ServiceConfig or a full Env for the worker. */
+export const TEST_VARS = {
+    GEMINI_API_KEY: "test-gemini-key",
+    JWT_SIGNING_SECRET: "test-jwt-secret",
+    CHALLENGE_SIGNING_SECRET: "test-challenge-secret",
+    ENCRYPTION_KEK: TEST_KEK,
+    AGENT_KEY_HASH_SECRET: "test-hash-secret"
+};
+
+/** A full ServiceConfig from fixed test secrets. */
+export function testConfig(overrides: Partial<Env> = {}): ServiceConfig {
+    return readConfig({ ...TEST_VARS, ...overrides } as Env);
+}
+
+/**
+ * Answer the D1 rate limit store's statements from an in-memory bucket map,
+ * with the same bucket math, so requests can go through the worker's router.
+ */
+export function rateLimitBuckets(db: ScriptedD1): Map<string, BucketState> {
+    const buckets = new Map<string, BucketState>();
+    db.on(/^INSERT INTO rate_limit_buckets/, ([bucket, capacity, nowMs, perMs]) => {
+        const policy = { capacity: capacity as number, refillPerMinute: (perMs as number) * 60_000 };
+        const { state, decision } = takeToken(buckets.get(bucket as string) ?? null, policy, nowMs as number);
+        if (!decision.allowed) {
+            return [];
+        }
+        buckets.set(bucket as string, state);
+        return [{ tokens: state.tokens }];
+    });
+    db.on(/^SELECT tokens, updated_at FROM rate_limit_buckets/, ([bucket]) => {
+        const state = buckets.get(bucket as string);
+        return state ? [{ tokens: state.tokens, updated_at: state.updatedAtMs }] : [];
+    });
+    return buckets;
+}
+
+export interface FakeSleepDayRow {
+    id: string;
+    install_id: string;
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    synced_at: string;
+    content_hash: string | null;
+    revision: number | null;
+    tz: string | null;
+    rolled_up: number;
+    schema_version: number;
+    upgrade_failed_version?: number | null;
+}
+
+export interface FakeEventRow {
+    id: string;
+    install_id: string;
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    synced_at: string;
+    name_index: string | null;
+    event_index: number;
+}
+
+export interface FakeSeriesRow {
+    id: string;
+    install_id: string;
+    day_date: string;
+    metric: string;
+    chunk_index: number;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+export interface FakeRollupRow {
+    id: string;
+    install_id: string;
+    granularity: string;
+    period_start: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+}
+
+export interface FakeProfileRow {
+    install_id: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    updated_at: string;
+}
+
+export interface FakeBaselineRow {
+    id: string;
+    install_id: string;
+    day_date: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    computed_at: string;
+}
+
+export interface FakeExperimentRow {
+    id: string;
+    install_id: string;
+    data_enc: string;
+    iv: string;
+    tag: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * ScriptedD1 that keeps sleep_days, behavior_events, sleep_series,
+ * sleep_rollups, sleep_baselines, install_profiles and experiments rows in memory for the
+ * statements the day store, rollups, profile and experiment stores and
+ * retention purge issue.
+ */
+export function sleepDataD1() {
+    const days = new Map<string, FakeSleepDayRow>();
+    const events = new Map<string, FakeEventRow>();
+    const rollups = new Map<string, FakeRollupRow>();
+    const series = new Map<string, FakeSeriesRow>();
+    const profiles = new Map<string, FakeProfileRow>();
+    const experiments = new Map<string, FakeExperimentRow>();
+    const baselines = new Map<string, FakeBaselineRow>();
+    const ofInstall = (installId: unknown) => [...days.values()].filter((row) => row.install_id === installId);
+    /** Below `version` and not already marked as failing to reach it. */
+    const isStale = (row: FakeSleepDayRow, version: number) =>
+        row.schema_version < version && (row.upgrade_failed_version ?? 0) < version;
+
+    const db = new ScriptedD1()
+        .on(/^SELECT day_date, content_hash, revision, synced_at, tz, data_enc, iv, tag, rolled_up FROM sleep_days WHERE install_id = \? AND day_date IN/, ([installId, ...dates]) =>
+            ofInstall(installId).filter((row) => dates.includes(row.day_date))
+        )
+        .on(/^INSERT OR REPLACE INTO sleep_days/, ([id, install_id, day_date, data_enc, iv, tag, synced_at, content_hash, revision, tz, schema_version]) => {
+            days.set(id as string, { id, install_id, day_date, data_enc, iv, tag, synced_at, content_hash, revision, tz, rolled_up: 1, schema_version } as FakeSleepDayRow);
+            return [{}];
+        })
+        .on(/^SELECT day_date, content_hash, revision, synced_at, tz FROM sleep_days WHERE install_id = \? AND day_date >= \? AND day_date <= \?/, ([installId, from, to]) =>
+            ofInstall(installId)
+                .filter((row) => row.day_date >= (from as string) && row.day_date <= (to as string))
+                .sort((a, b) => b.day_date.localeCompare(a.day_date))
+        )
+        .on(/^DELETE FROM sleep_days WHERE id = \?/, ([id]) => (days.delete(id as string) ? [{}] : []))
+        .on(/^SELECT day_date, data_enc, iv, tag, rolled_up FROM sleep_days WHERE install_id = \? AND day_date >= \? AND day_date <= \?/, ([installId, from, to]) =>
+            ofInstall(installId)
+                .filter((row) => row.day_date >= (from as string) && row.day_date <= (to as string))
+                .sort((a, b) => a.day_date.localeCompare(b.day_date))
+        )
+        .on(/^DELETE FROM (sleep_days|behavior_events|sleep_series) WHERE install_id = \? AND day_date >= \? AND day_date <= \?/, ([installId, from, to], sql) => {
+            const table = sql.includes("sleep_days") ? days : sql.includes("behavior_events") ? events : series;
+            const removed = [...table.values()].filter((row) => row.install_id === installId && row.day_date >= (from as string) && row.day_date <= (to as string));
+            removed.forEach((row) => table.delete(row.id));
+            return removed;
+        })
+        .on(/^SELECT day_date, data_enc, iv, tag, synced_at FROM sleep_days WHERE install_id = \? AND day_date (>=|>) \? AND day_date <= \?/, ([installId, from, to, limit], sql) =>
+            ofInstall(installId)
+                .filter((row) => (sql.includes("day_date >= ?") ? row.day_date >= (from as string) : row.day_date > (from as string)) && row.day_date <= (to as string))
+                .sort((a, b) => a.day_date.localeCompare(b.day_date))
+                .slice(0, limit as number)
+        )
+        .on(/^SELECT day_date, data_enc, iv, tag FROM sleep_days WHERE install_id = \? AND day_date >= \? AND day_date <= \? ORDER BY day_date ASC/, ([installId, from, to]) =>
+            ofInstall(installId)
+                .filter((row) => row.day_date >= (from as string) && row.day_date <= (to as string))
+                .sort((a, b) => a.day_date.localeCompare(b.day_date))
+        )
+        .on(/^SELECT \* FROM sleep_days WHERE install_id = \? AND day_date >= \? AND day_date <= \? ORDER BY day_date ASC/, ([installId, from, to]) =>
+            ofInstall(installId)
+                .filter((row) => row.day_date >= (from as string) && row.day_date <= (to as string))
+                .sort((a, b) => a.day_date.localeCompare(b.day_date))
+        )
+        .on(/^SELECT \* FROM sleep_days WHERE install_id = \? AND day_date >= \? ORDER BY day_date DESC/, ([installId, from]) =>
+            ofInstall(installId)
+                .filter((row) => row.day_date >= (from as string))
+                .sort((a, b) => b.day_date.localeCompare(a.day_date))
+        )
+        .on(/^SELECT \* FROM sleep_days WHERE install_id = \? AND day_date = \?$/, ([installId, date]) =>
+            ofInstall(installId).filter((row) => row.day_date === date)
+        )
+        .on(/^UPDATE sleep_days SET revision/, ([revision, id]) => {
+            days.get(id as string)!.revision = revision as number;
+            return [{}];
+        })
+        .on(/^UPDATE sleep_days SET rolled_up = 1 WHERE id IN/, (ids) => {
+            ids.forEach((id) => (days.get(id as string)!.rolled_up = 1));
+            return ids;
+        })
+        .on(/^SELECT DISTINCT install_id FROM sleep_days WHERE schema_version < \?/, ([version, , limit]) =>
+            [...new Set([...days.values()].filter((row) => isStale(row, version as number)).map((row) => row.install_id))]
+                .slice(0, limit as number)
+                .map((install_id) => ({ install_id }))
+        )
+        .on(/^SELECT id, data_enc, iv, tag, schema_version FROM sleep_days WHERE install_id = \? AND schema_version < \?/, ([installId, version, , limit]) =>
+            ofInstall(installId).filter((row) => isStale(row, version as number)).slice(0, limit as number)
+        )
+        .on(/^UPDATE sleep_days SET upgrade_failed_version = \? WHERE id = \? AND schema_version = \?/, ([version, id, previous]) => {
+            const row = days.get(id as string);
+            if (!row || row.schema_version !== previous) {
+                return [];
+            }
+            row.upgrade_failed_version = version as number;
+            return [{}];
+        })
+        .on(/^UPDATE sleep_days SET upgrade_failed_version = \? WHERE install_id = \? AND schema_version < \?/, ([version, installId]) => {
+            const marked = ofInstall(installId).filter((row) => row.schema_version < (version as number));
+            marked.forEach((row) => (row.upgrade_failed_version = version as number));
+            return marked;
+        })
+        .on(/^UPDATE sleep_days SET data_enc = \?, iv = \?, tag = \?, schema_version = \? WHERE id = \? AND schema_version = \?/, ([data_enc, iv, tag, version, id, previous]) => {
+            const row = days.get(id as string);
+            if (!row || row.schema_version !== previous) {
+                return [];
+            }
+            Object.assign(row, { data_enc, iv, tag, schema_version: version });
+            return [{}];
+        })
+        .on(/^SELECT id, day_date, data_enc, iv, tag FROM sleep_days WHERE install_id = \? AND rolled_up = 0/, ([installId, before, limit]) =>
+            ofInstall(installId).filter((row) => !row.rolled_up && row.day_date < (before as string)).slice(0, limit as number)
+        )
+        .on(/^DELETE FROM sleep_days WHERE install_id = \? AND day_date < \? AND rolled_up = 1/, ([installId, cutoff]) => {
+            const removed = ofInstall(installId).filter((row) => row.day_date < (cutoff as string) && row.rolled_up);
+            removed.forEach((row) => days.delete(row.id));
+            return removed;
+        })
+        .on(/^INSERT OR REPLACE INTO behavior_events/, ([id, install_id, day_date, data_enc, iv, tag, synced_at, name_index, event_index]) => {
+            events.set(id as string, { id, install_id, day_date, data_enc, iv, tag, synced_at, name_index, event_index } as FakeEventRow);
+            return [{}];
+        })
+        .on(/^DELETE FROM behavior_events WHERE install_id = \? AND day_date = \?/, ([installId, date]) => {
+            const removed = [...events.values()].filter((row) => row.install_id === installId && row.day_date === date);
+            removed.forEach((row) => events.delete(row.id));
+            return removed;
+        })
+        .on(/^SELECT id, day_date, data_enc, iv, tag, name_index, event_index FROM behavior_events/, ([installId, from, to, nameIndex], sql) =>
+            [...events.values()]
+                .filter((row) => row.install_id === installId && row.day_date >= (from as string) && row.day_date <= (to as string))
+                .filter((row) => !sql.includes("name_index = ?") || row.name_index === nameIndex || row.name_index === null)
+                .sort((a, b) => b.day_date.localeCompare(a.day_date) || a.event_index - b.event_index)
+        )
+        .on(/^DELETE FROM behavior_events WHERE install_id = \? AND day_date < \?/, ([installId, cutoff]) => {
+            const removed = [...events.values()].filter((row) => row.install_id === installId && row.day_date < (cutoff as string));
+            removed.forEach((row) => events.delete(row.id));
+            return removed;
+        })
+        .on(/^INSERT OR REPLACE INTO sleep_series/, ([id, install_id, day_date, metric, chunk_index, , , , data_enc, iv, tag]) => {
+            series.set(id as string, { id, install_id, day_date, metric, chunk_index, data_enc, iv, tag } as FakeSeriesRow);
+            return [{}];
+        })
+        .on(/^DELETE FROM sleep_series WHERE install_id = \? AND day_date (=|<) \?/, ([installId, date], sql) => {
+            const removed = [...series.values()].filter((row) =>
+                row.install_id === installId && (sql.includes("day_date = ?") ? row.day_date === date : row.day_date < (date as string))
+            );
+            removed.forEach((row) => series.delete(row.id));
+            return removed;
+        })
+        .on(/^SELECT chunk_index, data_enc, iv, tag FROM sleep_series/, ([installId, date, metric]) =>
+            [...series.values()]
+                .filter((row) => row.install_id === installId && row.day_date === date && row.metric === metric)
+                .sort((a, b) => a.chunk_index - b.chunk_index)
+        )
+        .on(/^SELECT id, data_enc, iv, tag FROM sleep_rollups WHERE id IN/, (ids) =>
+            ids.flatMap((id) => (rollups.has(id as string) ? [rollups.get(id as string)!] : []))
+        )
+        .on(/^INSERT OR REPLACE INTO sleep_rollups/, ([id, install_id, granularity, period_start, data_enc, iv, tag]) => {
+            rollups.set(id as string, { id, install_id, granularity, period_start, data_enc, iv, tag } as FakeRollupRow);
+            return [{}];
+        })
+        .on(/^DELETE FROM sleep_rollups WHERE id = \?/, ([id]) => (rollups.delete(id as string) ? [{}] : []))
+        .on(/^SELECT id, data_enc, iv, tag FROM sleep_rollups WHERE install_id = \? AND granularity = \?/, ([installId, granularity, from, to]) =>
+            [...rollups.values()]
+                .filter((row) => row.install_id === installId && row.granularity === granularity && row.period_start >= (from as string) && row.period_start <= (to as string))
+                .sort((a, b) => a.period_start.localeCompare(b.period_start))
+        )
+        .on(/^SELECT day_date FROM sleep_days WHERE install_id = \? AND day_date >= \? AND day_date <= \? ORDER BY day_date ASC/, ([installId, from, to]) =>
+            ofInstall(installId)
+                .filter((row) => row.day_date >= (from as string) && row.day_date <= (to as string))
+                .sort((a, b) => a.day_date.localeCompare(b.day_date))
+        )
+        .on(/^SELECT day_date, data_enc, iv, tag FROM sleep_baselines WHERE install_id = \? AND day_date >= \? AND day_date <= \?/, ([installId, from, to]) =>
+            [...baselines.values()].filter((row) => row.install_id === installId && row.day_date >= (from as string) && row.day_date <= (to as string))
+        )
+        .on(/^INSERT OR REPLACE INTO sleep_baselines/, ([id, install_id, day_date, data_enc, iv, tag, computed_at]) => {
+            baselines.set(id as string, { id, install_id, day_date, data_enc, iv, tag, computed_at } as FakeBaselineRow);
+            return [{}];
+        })
+        .on(/^DELETE FROM sleep_baselines WHERE install_id = \?/, ([installId, date], sql) => {
+            const removed = [...baselines.values()].filter((row) =>
+                row.install_id === installId
+                && (sql.includes("day_date >= ?") ? row.day_date >= (date as string) : sql.includes("day_date < ?") ? row.day_date < (date as string) : true)
+            );
+            removed.forEach((row) => baselines.delete(row.id));
+            return removed;
+        })
+        .on(/^SELECT data_enc, iv, tag FROM install_profiles WHERE install_id = \?/, ([installId]) =>
+            profiles.has(installId as string) ? [profiles.get(installId as string)!] : []
+        )
+        .on(/^INSERT OR REPLACE INTO install_profiles/, ([install_id, data_enc, iv, tag, updated_at]) => {
+            profiles.set(install_id as string, { install_id, data_enc, iv, tag, updated_at } as FakeProfileRow);
+            return [{}];
+        })
+        .on(/^DELETE FROM install_profiles WHERE install_id = \?/, ([installId]) => (profiles.delete(installId as string) ? [{}] : []))
+        .on(/^SELECT COUNT\(\*\) AS count FROM experiments WHERE install_id = \?/, ([installId]) =>
+            [{ count: [...experiments.values()].filter((row) => row.install_id === installId).length }]
+        )
+        .on(/^SELECT id, data_enc, iv, tag FROM experiments WHERE install_id = \?/, ([installId, id], sql) =>
+            [...experiments.values()]
+                .filter((row) => row.install_id === installId && (!sql.includes("AND id = ?") || row.id === id))
+                .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        )
+        .on(/^INSERT OR REPLACE INTO experiments/, ([id, install_id, data_enc, iv, tag, created_at, updated_at]) => {
+            experiments.set(id as string, { id, install_id, data_enc, iv, tag, created_at, updated_at } as FakeExperimentRow);
+            return [{}];
+        })
+        .on(/^DELETE FROM experiments WHERE install_id = \?/, ([installId, id], sql) => {
+            const removed = [...experiments.values()].filter((row) => row.install_id === installId && (!sql.includes("AND id = ?") || row.id === id));
+            removed.forEach((row) => experiments.delete(row.id));
+            return removed;
+        });
+
+    return { db, days, events, rollups, series, baselines, profiles, experiments };
+}
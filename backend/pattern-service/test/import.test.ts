@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey, setRetentionDays } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { decrypt, generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleImport } from "../src/routes/import";
+import { buildImportedDays, normalizeStageName, parseAppleHealthXML, parseImportTimestamp, parseSleepCSV } from "../src/services/import";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+const APPLE_HEALTH_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_DE">
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2026-03-18 23:20:00 +0100" endDate="2026-03-18 23:20:00 +0100" value="58"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Ann&apos;s Watch" startDate="2026-03-18 23:10:00 +0100" endDate="2026-03-19 00:40:00 +0100" value="HKCategoryValueSleepAnalysisAsleepCore"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Ann&apos;s Watch" startDate="2026-03-19 00:40:00 +0100" endDate="2026-03-19 01:40:00 +0100" value="HKCategoryValueSleepAnalysisAsleepDeep"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Ann&apos;s Watch" startDate="2026-03-19 01:40:00 +0100" endDate="2026-03-19 01:50:00 +0100" value="HKCategoryValueSleepAnalysisAwake"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Ann&apos;s Watch" startDate="2026-03-19 01:50:00 +0100" endDate="2026-03-19 03:20:00 +0100" value="HKCategoryValueSleepAnalysisAsleepREM">
+  <MetadataEntry key="HKTimeZone" value="Europe/Berlin"/>
+ </Record>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Ann&apos;s Watch" startDate="2026-03-19 01:50:00 +0100" endDate="2026-03-19 03:20:00 +0100" value="HKCategoryValueSleepAnalysisAsleepREM"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Phone" startDate="2026-03-19 05:00:00 +0100" endDate="2026-03-19 06:00:00 +0100" value="HKCategoryValueSleepAnalysisAsleepUnspecified"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Phone" startDate="2026-03-19 06:00:00 +0100" endDate="2026-03-19 06:30:00 +0100" value="HKCategoryValueSleepAnalysisNap"/>
+</HealthData>
+`;
+
+describe("import parsing", () => {
+  it("normalizes Apple Health, SleepLab and common stage names", () => {
+    expect(normalizeStageName("HKCategoryValueSleepAnalysisInBed")).toBe("inBed");
+    expect(normalizeStageName("HKCategoryValueSleepAnalysisAsleepUnspecified")).toBe("core");
+    expect(normalizeStageName("HKCategoryValueSleepAnalysisAsleepREM")).toBe("rem");
+    expect(normalizeStageName("In Bed")).toBe("inBed");
+    expect(normalizeStageName(" Deep ")).toBe("deep");
+    expect(normalizeStageName("light")).toBe("core");
+    expect(normalizeStageName("nap")).toBeNull();
+  });
+
+  it("parses timestamps only with a UTC offset", () => {
+    expect(parseImportTimestamp("2026-03-18 23:10:00 +0100")).toEqual({ ms: Date.parse("2026-03-18T22:10:00Z"), offset: "+01:00" });
+    expect(parseImportTimestamp("2026-03-18T22:10:00.5Z")).toEqual({ ms: Date.parse("2026-03-18T22:10:00.500Z"), offset: "+00:00" });
+    expect(parseImportTimestamp("2026-03-18T18:10-04:00")?.offset).toBe("-04:00");
+    expect(parseImportTimestamp("2026-03-18T22:10:00")).toBeNull();
+    expect(parseImportTimestamp("2026-02-30T22:10:00Z")).toBeNull();
+  });
+
+  it("reads sleep-analysis records from export.xml and reports the rest with their line", () => {
+    const parsed = parseAppleHealthXML(APPLE_HEALTH_XML);
+
+    expect(parsed.segments.map((segment) => segment.stage)).toEqual(["core", "deep", "awake", "rem", "core"]);
+    expect(parsed.segments[0]).toMatchObject({ line: 4, offset: "+01:00", startMs: Date.parse("2026-03-18T22:10:00Z") });
+    expect(parsed.skipped).toEqual([
+      { line: 3, reason: "Not a sleep-analysis record (HKQuantityTypeIdentifierHeartRate)" },
+      { line: 10, reason: "Duplicate of line 7" }
+    ]);
+    expect(parsed.invalid).toEqual([{ line: 12, reason: "Unknown sleep stage: HKCategoryValueSleepAnalysisNap" }]);
+    expect(parsed).toMatchObject({ skippedCount: 2, invalidCount: 1 });
+  });
+
+  it("reads CSV columns by header name, with quoted fields and a byte order mark", () => {
+    const parsed = parseSleepCSV([
+      "\uFEFFsource,endISO,Stage,startISO",
+      "\"Watch, left wrist\",2026-03-19T01:00:00+05:30,In Bed,2026-03-18T23:00:00+05:30",
+      "",
+      "Watch,2026-03-19T02:00:00+05:30,Deep,not a time",
+      "Watch,2026-03-19T02:00:00+05:30,deep,2026-03-19T03:00:00+05:30"
+    ].join("\r\n"));
+
+    expect(parsed.segments).toEqual([
+      { line: 2, stage: "inBed", startMs: Date.parse("2026-03-18T17:30:00Z"), endMs: Date.parse("2026-03-18T19:30:00Z"), offset: "+05:30" }
+    ]);
+    expect(parsed.invalid).toEqual([
+      { line: 4, reason: "Start and end must be timestamps with a UTC offset" },
+      { line: 5, reason: "End is not after start" }
+    ]);
+  });
+
+  it("rejects a CSV whose header lacks the required columns", () => {
+    expect(parseSleepCSV("stage,start,end\ncore,2026-03-18T23:00:00Z,2026-03-19T01:00:00Z").invalid).toEqual([
+      { line: 1, reason: "Header must name the stage, startISO and endISO columns" }
+    ]);
+  });
+
+  it("splits nights at local midnight and summarizes each day like the app", () => {
+    const days = buildImportedDays(parseAppleHealthXML(APPLE_HEALTH_XML).segments);
+
+    expect(days.map((day) => [day.dayLabel, day.dayStartISO, day.timeZone])).toEqual([
+      ["Mar 18", "2026-03-17T23:00:00.000Z", "+01:00"],
+      ["Mar 19", "2026-03-18T23:00:00.000Z", "+01:00"]
+    ]);
+
+    const [before, after] = days;
+    expect(before.sleep.totalSleepHours).toBeCloseTo(50 / 60);
+    expect(after.sleep).toMatchObject({
+      awakeningCount: 1,
+      // The 01:40 gap to the phone's 05:00 record is longer than 45 minutes
+      mainSleepStartISO: "2026-03-18T23:00:00.000Z",
+      mainSleepEndISO: "2026-03-19T02:20:00.000Z"
+    });
+    expect(after.sleep.totalSleepHours).toBeCloseTo(40 / 60 + 1 + 1.5 + 1);
+    expect(after.stageDurations.find((stage) => stage.stage === "awake")?.hours).toBeCloseTo(10 / 60);
+    expect(after.segments[0]).toEqual({ stage: "core", startISO: "2026-03-18T23:00:00.000Z", endISO: "2026-03-18T23:40:00.000Z", durationMinutes: 40 });
+    expect(after.events).toEqual([]);
+  });
+});
+
+async function setup(options: { agentAccess: boolean; retentionDays?: number }) {
+  const config = testConfig();
+  const { db, days } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  if (options.agentAccess) {
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+    await setRetentionDays(INSTALL_ID, options.retentionDays ?? 3650, config.agentKeyHashSecret, env);
+  }
+
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+  const importRequest = (query: string, body: string) =>
+    handleImport(
+      new Request(`https://worker.test/v1/data/import${query}`, { method: "POST", body, headers: { Authorization: `Bearer ${token}` } }),
+      env,
+      config
+    );
+
+  return { days, importRequest, dek: () => unwrapVersionedDEK(wrapped, config.encryptionKeks) };
+}
+
+describe("data import", () => {
+  it("stores imported nights encrypted and skips them on a second import", async () => {
+    const { days, importRequest, dek } = await setup({ agentAccess: true });
+
+    const response = await importRequest("?format=apple-health", APPLE_HEALTH_XML);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      format: "apple-health",
+      records: 5,
+      nights: 2,
+      imported: 2,
+      summary: { inserted: 2, updated: 0, unchanged: 0, conflict: 0 },
+      skippedCount: 2,
+      invalidCount: 1
+    });
+
+    const row = days.get(`${INSTALL_ID}:2026-03-19`)!;
+    expect(row.tz).toBe("+01:00");
+    const payload = JSON.parse(await decrypt({ ciphertext: row.data_enc, iv: row.iv, tag: row.tag }, await dek()));
+    expect(payload).toMatchObject({ dayLabel: "Mar 19", timeZone: "+01:00", sleep: { awakeningCount: 1 } });
+
+    const again = (await (await importRequest("?format=apple-health", APPLE_HEALTH_XML)).json()) as Record<string, unknown>;
+    expect(again).toMatchObject({ imported: 0, skippedCount: 4 });
+    expect(again.skipped).toContainEqual({ date: "2026-03-19", reason: "Night already stored" });
+  });
+
+  it("skips nights older than the retention window", async () => {
+    const { days, importRequest } = await setup({ agentAccess: true, retentionDays: 30 });
+
+    const body = (await (await importRequest("?format=apple-health", APPLE_HEALTH_XML)).json()) as Record<string, unknown>;
+    expect(body).toMatchObject({ imported: 0, skippedCount: 4, summary: { inserted: 0 } });
+    expect(body.skipped).toContainEqual({ date: "2026-03-18", reason: "Older than the retention window" });
+    expect(days.size).toBe(0);
+  });
+
+  it("rejects an unknown format and installs without agent access", async () => {
+    const { importRequest } = await setup({ agentAccess: false });
+
+    expect((await importRequest("?format=fitbit", "")).status).toBe(400);
+    expect((await importRequest("?format=csv", "stage,startISO,endISO\n")).status).toBe(403);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { ALL_AGENT_SCOPES, generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import type { Env } from "../src/config";
+import type { AgentScope } from "../src/schema/agent";
+import { generateDEK, wrapDEKWithRing } from "../src/crypto";
+import worker from "../src/index";
+import { memoryEnvWithD1, rateLimitBuckets, sleepDataD1, TEST_VARS, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+/** The worker's Env over fake bindings, with `agent-read` limited to a burst of two. */
+async function setup() {
+  const vars = { ...TEST_VARS, RATE_LIMITS: JSON.stringify({ "agent-read": { capacity: 2, refillPerMinute: 0.001 } }) };
+  const config = testConfig(vars);
+  const { db } = sleepDataD1();
+  const buckets = rateLimitBuckets(db);
+  const env = { ...memoryEnvWithD1(db), ...vars } as unknown as Env;
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+
+  const register = async (scopes: AgentScope[] = ["sleep:read"]) => {
+    const apiKey = generateApiKey();
+    await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes }, config.agentKeyHashSecret, env);
+    return apiKey;
+  };
+  const get = (apiKey: string, path = "/v1/agent/instructions") =>
+    worker.fetch(new Request(`https://worker.test${path}`, { headers: { Authorization: `Bearer ${apiKey}` } }), env);
+
+  return { buckets, register, get };
+}
+
+describe("agent rate limits", () => {
+  it("does not let a forged token with a real key's lookup prefix spend that key's tokens", async () => {
+    const { buckets, register, get } = await setup();
+    const apiKey = await register();
+    const forged = `${apiKey.slice(0, 16)}${"0".repeat(apiKey.length - 16)}`;
+
+    for (let index = 0; index < 3; index += 1) {
+      expect((await get(forged)).status).toBe(401);
+    }
+    expect(buckets.size).toBe(0);
+
+    const response = await get(apiKey);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-RateLimit-Remaining")).toBe("1");
+  });
+
+  it("shares one quota between the keys of an install", async () => {
+    const { register, get } = await setup();
+    const first = await register();
+    const second = await register();
+
+    expect((await get(first)).status).toBe(200);
+    expect((await get(second)).status).toBe(200);
+
+    const denied = await get(second);
+    expect(denied.status).toBe(429);
+    expect(await denied.json()).toMatchObject({ error: "Rate limit exceeded" });
+  });
+});
+
+describe("agent route scopes", () => {
+  /** Call `path` through the router with a key holding every scope but `scope`. */
+  async function withoutScope(scope: AgentScope, path: string) {
+    const { register, get } = await setup();
+    return get(await register(ALL_AGENT_SCOPES.filter((granted) => granted !== scope)), path);
+  }
+
+  it("refuses sleep routes to a key without sleep:read", async () => {
+    const response = await withoutScope("sleep:read", "/v1/data/sleep?days=7");
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: "API key lacks required scope", details: { requiredScope: "sleep:read" } });
+  });
+
+  it("refuses event routes to a key without events:read", async () => {
+    const response = await withoutScope("events:read", "/v1/data/events?days=7");
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: "API key lacks required scope", details: { requiredScope: "events:read" } });
+  });
+
+  it("refuses stats routes to a key without stats:read", async () => {
+    const response = await withoutScope("stats:read", "/v1/data/sleep/stats?days=7");
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: "API key lacks required scope", details: { requiredScope: "stats:read" } });
+  });
+});
+
+describe("agent days parameter", () => {
+  it("rejects a window longer than the install's retention", async () => {
+    const { register, get } = await setup();
+    const response = await get(await register(), "/v1/data/sleep?days=31");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Invalid 'days'", details: { min: 1, max: 30 } });
+  });
+
+  it("rejects a non-numeric window", async () => {
+    const { register, get } = await setup();
+    expect((await get(await register(), "/v1/data/sleep?days=week")).status).toBe(400);
+  });
+});
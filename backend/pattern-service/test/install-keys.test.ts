@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { keyRotationMessage, readInstallKeyHistory } from "../src/auth/install-keys";
+import { bufferToBase64 } from "../src/crypto";
+import { handleChallenge, handleExchange, handleRefresh, handleRotateKey } from "../src/routes/auth";
+import { memoryEnv, memoryNonceStore } from "./fakes";
+
+const CHALLENGE_SECRET = "challenge-secret";
+const JWT_SECRET = "jwt-secret";
+
+interface TestKeyPair {
+  publicKey: string;
+  sign(message: string): Promise<string>;
+}
+
+async function generateKeyPair(): Promise<TestKeyPair> {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])) as CryptoKeyPair;
+  const raw = (await crypto.subtle.exportKey("raw", pair.publicKey)) as ArrayBuffer;
+
+  return {
+    publicKey: bufferToBase64(raw),
+    async sign(message: string) {
+      const signature = await crypto.subtle.sign("Ed25519", pair.privateKey, new TextEncoder().encode(message));
+      return bufferToBase64(signature);
+    }
+  };
+}
+
+function post(path: string, body: unknown): Request {
+  return new Request(`https://worker.test${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+async function requestChallenge(env: ReturnType<typeof memoryEnv>, publicKey: string, installId?: string) {
+  const response = await handleChallenge(post("/v1/auth/challenge", { installId, publicKey }), env, CHALLENGE_SECRET);
+  return { status: response.status, body: (await response.json()) as { installId: string; challengeToken: string } };
+}
+
+describe("install key binding", () => {
+  it("refuses to replace the key of an existing install", async () => {
+    const env = memoryEnv();
+    const owner = await generateKeyPair();
+    const attacker = await generateKeyPair();
+
+    const registered = await requestChallenge(env, owner.publicKey);
+    expect(registered.status).toBe(200);
+
+    const takeover = await requestChallenge(env, attacker.publicKey, registered.body.installId);
+    expect(takeover.status).toBe(409);
+    expect(await env.INSTALL_KEYS.get(registered.body.installId)).toBe(owner.publicKey);
+
+    const again = await requestChallenge(env, owner.publicKey, registered.body.installId);
+    expect(again.status).toBe(200);
+  });
+
+  it("rotates to a new key when signed by both keys", async () => {
+    const env = memoryEnv();
+    const current = await generateKeyPair();
+    const next = await generateKeyPair();
+
+    const { body: challenge } = await requestChallenge(env, current.publicKey);
+    const message = keyRotationMessage(challenge.challengeToken, next.publicKey);
+
+    const response = await handleRotateKey(post("/v1/auth/rotate-key", {
+      installId: challenge.installId,
+      currentPublicKey: current.publicKey,
+      newPublicKey: next.publicKey,
+      challengeToken: challenge.challengeToken,
+      signature: await current.sign(message),
+      newKeySignature: await next.sign(message)
+    }), env, CHALLENGE_SECRET, memoryNonceStore());
+
+    expect(response.status).toBe(200);
+    expect(await env.INSTALL_KEYS.get(challenge.installId)).toBe(next.publicKey);
+
+    const history = await readInstallKeyHistory(challenge.installId, env);
+    expect(history.map((entry) => entry.publicKey)).toEqual([current.publicKey]);
+
+    // The new key can now complete the normal challenge/exchange flow
+    const { body: nextChallenge } = await requestChallenge(env, next.publicKey, challenge.installId);
+    const exchange = await handleExchange(post("/v1/auth/exchange", {
+      installId: challenge.installId,
+      publicKey: next.publicKey,
+      challengeToken: nextChallenge.challengeToken,
+      signature: await next.sign(nextChallenge.challengeToken)
+    }), env, CHALLENGE_SECRET, JWT_SECRET, memoryNonceStore());
+    expect(exchange.status).toBe(200);
+  });
+
+  it("revokes the sessions opened with the old key", async () => {
+    const env = memoryEnv();
+    const current = await generateKeyPair();
+    const next = await generateKeyPair();
+
+    const { body: login } = await requestChallenge(env, current.publicKey);
+    const exchange = await handleExchange(post("/v1/auth/exchange", {
+      installId: login.installId,
+      publicKey: current.publicKey,
+      challengeToken: login.challengeToken,
+      signature: await current.sign(login.challengeToken)
+    }), env, CHALLENGE_SECRET, JWT_SECRET, memoryNonceStore());
+    const { refreshToken } = (await exchange.json()) as { refreshToken: string };
+
+    const { body: challenge } = await requestChallenge(env, current.publicKey, login.installId);
+    const message = keyRotationMessage(challenge.challengeToken, next.publicKey);
+    const rotation = await handleRotateKey(post("/v1/auth/rotate-key", {
+      installId: challenge.installId,
+      currentPublicKey: current.publicKey,
+      newPublicKey: next.publicKey,
+      challengeToken: challenge.challengeToken,
+      signature: await current.sign(message),
+      newKeySignature: await next.sign(message)
+    }), env, CHALLENGE_SECRET, memoryNonceStore());
+    expect(rotation.status).toBe(200);
+
+    const refresh = await handleRefresh(post("/v1/auth/refresh", { refreshToken }), env, JWT_SECRET);
+    expect(refresh.status).toBe(401);
+  });
+
+  it("rejects a rotation not signed by the current key", async () => {
+    const env = memoryEnv();
+    const current = await generateKeyPair();
+    const attacker = await generateKeyPair();
+
+    const { body: challenge } = await requestChallenge(env, current.publicKey);
+    const message = keyRotationMessage(challenge.challengeToken, attacker.publicKey);
+
+    const response = await handleRotateKey(post("/v1/auth/rotate-key", {
+      installId: challenge.installId,
+      currentPublicKey: current.publicKey,
+      newPublicKey: attacker.publicKey,
+      challengeToken: challenge.challengeToken,
+      signature: await attacker.sign(message),
+      newKeySignature: await attacker.sign(message)
+    }), env, CHALLENGE_SECRET, memoryNonceStore());
+
+    expect(response.status).toBe(401);
+    expect(await env.INSTALL_KEYS.get(challenge.installId)).toBe(current.publicKey);
+    expect(await readInstallKeyHistory(challenge.installId, env)).toEqual([]);
+  });
+});
+
+describe("challenge nonces", () => {
+  it("rejects a replayed exchange", async () => {
+    const env = memoryEnv();
+    const nonces = memoryNonceStore();
+    const keys = await generateKeyPair();
+
+    const { body: challenge } = await requestChallenge(env, keys.publicKey);
+    const exchangeBody = {
+      installId: challenge.installId,
+      publicKey: keys.publicKey,
+      challengeToken: challenge.challengeToken,
+      signature: await keys.sign(challenge.challengeToken)
+    };
+
+    const first = await handleExchange(post("/v1/auth/exchange", exchangeBody), env, CHALLENGE_SECRET, JWT_SECRET, nonces);
+    expect(first.status).toBe(200);
+
+    const replay = await handleExchange(post("/v1/auth/exchange", exchangeBody), env, CHALLENGE_SECRET, JWT_SECRET, nonces);
+    expect(replay.status).toBe(401);
+    expect(((await replay.json()) as { error: string }).error).toBe("Challenge already used");
+  });
+
+  it("lets only one of two concurrent exchanges win", async () => {
+    const env = memoryEnv();
+    const nonces = memoryNonceStore();
+    const keys = await generateKeyPair();
+
+    const { body: challenge } = await requestChallenge(env, keys.publicKey);
+    const exchangeBody = {
+      installId: challenge.installId,
+      publicKey: keys.publicKey,
+      challengeToken: challenge.challengeToken,
+      signature: await keys.sign(challenge.challengeToken)
+    };
+
+    const responses = await Promise.all([
+      handleExchange(post("/v1/auth/exchange", exchangeBody), env, CHALLENGE_SECRET, JWT_SECRET, nonces),
+      handleExchange(post("/v1/auth/exchange", exchangeBody), env, CHALLENGE_SECRET, JWT_SECRET, nonces)
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 401]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RATE_LIMITS, takeToken, withRateLimit } from "../src/services/rate-limit";
+import { memoryRateLimitStore, testConfig } from "./fakes";
+
+const POLICY = { capacity: 3, refillPerMinute: 6 };
+
+function ok(): Promise<Response> {
+  return Promise.resolve(new Response("ok", { status: 200 }));
+}
+
+describe("token bucket", () => {
+  it("allows a burst up to capacity, then refuses until a token refills", () => {
+    const start = 1_000_000;
+    let state = null;
+    const allowed: boolean[] = [];
+
+    for (let index = 0; index < 4; index += 1) {
+      const result = takeToken(state, POLICY, start);
+      state = result.state;
+      allowed.push(result.decision.allowed);
+    }
+    expect(allowed).toEqual([true, true, true, false]);
+
+    const denied = takeToken(state, POLICY, start);
+    expect(denied.decision.retryAfterSeconds).toBe(10);
+
+    const refilled = takeToken(state, POLICY, start + 10_000);
+    expect(refilled.decision.allowed).toBe(true);
+    expect(refilled.decision.remaining).toBe(0);
+  });
+
+  it("never refills past capacity", () => {
+    const { state } = takeToken(null, POLICY, 0);
+    const later = takeToken(state, POLICY, 60 * 60 * 1000);
+    expect(later.decision.remaining).toBe(POLICY.capacity - 1);
+  });
+});
+
+describe("withRateLimit", () => {
+  it("adds X-RateLimit headers to allowed responses", async () => {
+    const store = memoryRateLimitStore();
+    const response = await withRateLimit(store, "sync:install:a", POLICY, ok);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("ok");
+    expect(response.headers.get("X-RateLimit-Limit")).toBe("3");
+    expect(response.headers.get("X-RateLimit-Remaining")).toBe("2");
+  });
+
+  it("answers 429 with Retry-After once the bucket is empty, without running the handler", async () => {
+    const store = memoryRateLimitStore();
+    for (let index = 0; index < POLICY.capacity; index += 1) {
+      await withRateLimit(store, "agent-range:key:abc", POLICY, ok);
+    }
+
+    let handlerCalled = false;
+    const response = await withRateLimit(store, "agent-range:key:abc", POLICY, () => {
+      handlerCalled = true;
+      return ok();
+    });
+
+    expect(handlerCalled).toBe(false);
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(response.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(await response.json()).toMatchObject({ error: "Rate limit exceeded" });
+  });
+
+  it("keeps buckets separate per subject", async () => {
+    const store = memoryRateLimitStore();
+    const tight = { capacity: 1, refillPerMinute: 1 };
+
+    expect((await withRateLimit(store, "analyze:install:a", tight, ok)).status).toBe(200);
+    expect((await withRateLimit(store, "analyze:install:a", tight, ok)).status).toBe(429);
+    expect((await withRateLimit(store, "analyze:install:b", tight, ok)).status).toBe(200);
+  });
+});
+
+describe("withRateLimit over several buckets", () => {
+  it("needs a token in every bucket and reports the one with the fewest left", async () => {
+    const store = memoryRateLimitStore();
+    await withRateLimit(store, "agent-read:install:a", POLICY, ok);
+
+    const allowed = await withRateLimit(store, ["agent-read:key:k2", "agent-read:install:a"], POLICY, ok);
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get("X-RateLimit-Remaining")).toBe("1");
+
+    await withRateLimit(store, "agent-read:install:a", POLICY, ok);
+    expect((await withRateLimit(store, ["agent-read:key:k3", "agent-read:install:a"], POLICY, ok)).status).toBe(429);
+  });
+});
+
+describe("rate limit config", () => {
+  it("merges RATE_LIMITS overrides over the defaults", () => {
+    const config = testConfig({ RATE_LIMITS: JSON.stringify({ analyze: { capacity: 2, refillPerMinute: 0.5 } }) });
+    expect(config.rateLimits.analyze).toEqual({ capacity: 2, refillPerMinute: 0.5 });
+    expect(config.rateLimits.sync).toEqual(DEFAULT_RATE_LIMITS.sync);
+  });
+
+  it("rejects unknown route classes", () => {
+    expect(() => testConfig({ RATE_LIMITS: JSON.stringify({ uploads: { capacity: 1, refillPerMinute: 1 } }) })).toThrow(
+      /RATE_LIMITS is malformed/
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { ALL_AGENT_SCOPES, generateApiKey, readInstallRecord, registerApiKey, retentionDaysOf } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { generateDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetRetention, handlePutRetention } from "../src/routes/retention";
+import { retentionCutoff } from "../src/services/retention";
+import { memoryEnvWithD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+async function setup(options: { agentAccess: boolean }) {
+  const config = testConfig({ MAX_RETENTION_DAYS: "365" });
+  const env = memoryEnvWithD1();
+  const dek = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  if (options.agentAccess) {
+    await registerApiKey(generateApiKey(), INSTALL_ID, dek, { label: "Agent", scopes: ALL_AGENT_SCOPES }, config.agentKeyHashSecret, env);
+  }
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+  return { config, env, jwt: token, dek };
+}
+
+function put(jwt: string, body: unknown): Request {
+  return new Request("https://worker.test/v1/data/retention", {
+    method: "PUT",
+    headers: { Authorization: `Bearer ${jwt}`, "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+describe("per-install retention", () => {
+  it("defaults to 30 days", async () => {
+    const { config, env, jwt } = await setup({ agentAccess: true });
+    const response = await handleGetRetention(new Request("https://worker.test/v1/data/retention", { headers: { Authorization: `Bearer ${jwt}` } }), env, config);
+
+    expect(await response.json()).toEqual({ retentionDays: 30, maxRetentionDays: 365 });
+  });
+
+  it("stores the setting and purges days outside the new window", async () => {
+    const { config, env, jwt } = await setup({ agentAccess: true });
+
+    const response = await handlePutRetention(put(jwt, { retentionDays: 14 }), env, config);
+    expect(response.status).toBe(200);
+
+    const record = await readInstallRecord(INSTALL_ID, config.agentKeyHashSecret, env);
+    expect(retentionDaysOf(record)).toBe(14);
+
+    const deletes = env.SLEEP_DATA.statements.filter((statement) => statement.sql.startsWith("DELETE"));
+    expect(deletes.map((statement) => statement.params)).toEqual([
+      [INSTALL_ID, retentionCutoff(14)],
+      [INSTALL_ID, retentionCutoff(14)],
+      [INSTALL_ID, retentionCutoff(14)],
+      [INSTALL_ID, retentionCutoff(14)]
+    ]);
+    expect(deletes[3].sql).toContain("sleep_baselines");
+  });
+
+  it("rejects values above the server maximum", async () => {
+    const { config, env, jwt } = await setup({ agentAccess: true });
+
+    const response = await handlePutRetention(put(jwt, { retentionDays: 400 }), env, config);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ details: { maxRetentionDays: 365 } });
+  });
+
+  it("refuses installs without agent access", async () => {
+    const { config, env, jwt } = await setup({ agentAccess: false });
+    expect((await handlePutRetention(put(jwt, { retentionDays: 90 }), env, config)).status).toBe(403);
+  });
+
+  it("keeps the setting when another key is registered", async () => {
+    const { config, env, jwt, dek } = await setup({ agentAccess: true });
+    await handlePutRetention(put(jwt, { retentionDays: 180 }), env, config);
+
+    await registerApiKey(generateApiKey(), INSTALL_ID, dek, { label: "Second", scopes: ["stats:read"] }, config.agentKeyHashSecret, env);
+
+    const record = await readInstallRecord(INSTALL_ID, config.agentKeyHashSecret, env);
+    expect(record?.retentionDays).toBe(180);
+    expect(record?.keys).toHaveLength(2);
+  });
+});
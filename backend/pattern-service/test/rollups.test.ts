@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { encrypt, generateDEK, unwrapDEK, wrapDEK } from "../src/crypto";
+import type { SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import {
+  applyContribution,
+  contributionOf,
+  emptyRollup,
+  foldPendingDays,
+  periodEndOf,
+  periodStartOf,
+  readRollups,
+  summarizeRollup
+} from "../src/services/rollups";
+import { memoryEnvWithD1, sleepDataD1, TEST_KEK } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function day(date: string, totalSleepHours: number, deepHours = 1.5): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours, awakeningCount: 1, averageHeartRate: 55 },
+    stageDurations: [{ stage: "deep", hours: deepHours }],
+    segments: [],
+    events: []
+  };
+}
+
+async function setup() {
+  const { db, days, rollups } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const dek = await unwrapDEK(await wrapDEK(await generateDEK(), TEST_KEK), TEST_KEK);
+  return { env, days, rollups, dek };
+}
+
+describe("rollup periods", () => {
+  it("starts weeks on Monday and months on the 1st", () => {
+    expect(periodStartOf("2026-03-19", "week")).toBe("2026-03-16");
+    expect(periodStartOf("2026-03-16", "week")).toBe("2026-03-16");
+    expect(periodStartOf("2026-03-22", "week")).toBe("2026-03-16");
+    expect(periodStartOf("2026-03-19", "month")).toBe("2026-03-01");
+  });
+
+  it("ends months on their last day, including leap years", () => {
+    expect(periodEndOf("2026-03-16", "week")).toBe("2026-03-22");
+    expect(periodEndOf("2028-02-01", "month")).toBe("2028-02-29");
+    expect(periodEndOf("2026-12-01", "month")).toBe("2026-12-31");
+  });
+});
+
+describe("rollup accumulators", () => {
+  it("removes exactly what was added", () => {
+    const rollup = emptyRollup("month", "2026-03-01");
+    const first = contributionOf("2026-03-02", { sleep: { totalSleepHours: 6 }, stageDurations: [{ stage: "rem", hours: 1 }] });
+    const second = contributionOf("2026-03-03", { sleep: { totalSleepHours: 8 }, stageDurations: [{ stage: "rem", hours: 2 }] });
+
+    applyContribution(rollup, first, 1);
+    applyContribution(rollup, second, 1);
+    applyContribution(rollup, first, -1);
+
+    expect(rollup.days).toBe(1);
+    expect(rollup.metrics.totalSleepHours).toEqual({ count: 1, sum: 8, sumSquares: 64 });
+    expect(rollup.stageHours.rem).toBe(2);
+    expect(rollup.sleepHoursHistogram).toEqual([0, 0, 0, 0, 1, 0]);
+  });
+
+  it("summarizes means, spread and the sleep-hours distribution", () => {
+    const rollup = emptyRollup("week", "2026-03-16");
+    applyContribution(rollup, contributionOf("2026-03-16", { sleep: { totalSleepHours: 6 }, stageDurations: [{ stage: "deep", hours: 1 }] }), 1);
+    applyContribution(rollup, contributionOf("2026-03-17", { sleep: { totalSleepHours: 8 }, stageDurations: [{ stage: "deep", hours: 2 }] }), 1);
+
+    const summary = summarizeRollup(rollup);
+    expect(summary.days).toBe(2);
+    expect(summary.averages.totalSleepHours).toBe(7);
+    expect(summary.standardDeviations.totalSleepHours).toBe(1);
+    expect(summary.averages.averageHRV).toBeNull();
+    expect(summary.averageStageHours).toEqual({ deep: 1.5 });
+    expect(summary.sleepHoursDistribution[2]).toEqual({ minHours: 6, maxHours: 7, days: 1 });
+    expect(summary.sleepHoursDistribution[5]).toEqual({ minHours: 9, maxHours: null, days: 0 });
+  });
+});
+
+describe("rollups kept by sync", () => {
+  it("replaces a re-synced day's contribution instead of adding it twice", async () => {
+    const { env, dek } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [day("2026-03-16", 6), day("2026-03-17", 8)], "t1");
+    await storeSyncDays(env, dek, INSTALL_ID, [day("2026-03-17", 7)], "t2");
+
+    const [month] = await readRollups(env, dek, INSTALL_ID, "month", "2026-03-01", "2026-03-01");
+    expect(month.days).toBe(2);
+    expect(month.metrics.totalSleepHours).toEqual({ count: 2, sum: 13, sumSquares: 85 });
+
+    const [week] = await readRollups(env, dek, INSTALL_ID, "week", "2026-03-16", "2026-03-16");
+    expect(summarizeRollup(week).averages.totalSleepHours).toBe(6.5);
+  });
+
+  it("folds days stored before rollups existed exactly once", async () => {
+    const { env, days, dek } = await setup();
+    const blob = await encrypt(JSON.stringify(day("2026-02-10", 7.5)), dek);
+    days.set(`${INSTALL_ID}:2026-02-10`, {
+      id: `${INSTALL_ID}:2026-02-10`,
+      install_id: INSTALL_ID,
+      day_date: "2026-02-10",
+      data_enc: blob.ciphertext,
+      iv: blob.iv,
+      tag: blob.tag,
+      synced_at: "t0",
+      content_hash: null,
+      revision: null,
+      tz: null,
+      rolled_up: 0,
+      schema_version: 1
+    });
+
+    expect(await foldPendingDays(env, dek, INSTALL_ID)).toBe(1);
+    expect(await foldPendingDays(env, dek, INSTALL_ID)).toBe(0);
+
+    // Re-syncing the legacy day now takes its folded contribution back out first
+    await storeSyncDays(env, dek, INSTALL_ID, [day("2026-02-10", 5.5)], "t1");
+    const [month] = await readRollups(env, dek, INSTALL_ID, "month", "2026-02-01", "2026-02-01");
+    expect(month.days).toBe(1);
+    expect(month.metrics.totalSleepHours.sum).toBe(5.5);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetSleepSeries } from "../src/routes/agent-data";
+import type { SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import { downsample, readSeries, resolutionSeconds, SERIES_CHUNK_SAMPLES } from "../src/services/series";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+const NIGHT_START = Date.parse("2026-03-18T23:00:00.000Z");
+
+function heartRate(count: number, everySeconds = 5) {
+  return Array.from({ length: count }, (_, index) => ({
+    timestampISO: new Date(NIGHT_START + index * everySeconds * 1000).toISOString(),
+    value: 50 + (index % 10)
+  }));
+}
+
+function day(series: SyncDay["series"]): SyncDay {
+  return {
+    dayLabel: "Mar 19",
+    dayStartISO: "2026-03-19T00:00:00.000Z",
+    sleep: { totalSleepHours: 7, awakeningCount: 1 },
+    stageDurations: [],
+    segments: [],
+    events: [],
+    series
+  };
+}
+
+async function setup() {
+  const config = testConfig();
+  const { db, series } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  return { config, env, series, wrapped, dek };
+}
+
+describe("sample series storage", () => {
+  it("chunks, compresses and encrypts samples and reads them back in order", async () => {
+    const { env, series, dek } = await setup();
+    const samples = heartRate(SERIES_CHUNK_SAMPLES + 10).reverse();
+
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ hr: samples, spo2: [{ timestampISO: "2026-03-19T01:00:00.000Z", value: 97 }] })], "t1");
+
+    const hrChunks = [...series.values()].filter((row) => row.metric === "hr");
+    expect(hrChunks.map((row) => row.chunk_index).sort()).toEqual([0, 1]);
+    // 2048 samples as JSON would be far larger; gzip of the delta encoding is not
+    expect(hrChunks.every((row) => row.data_enc.length < 8_000)).toBe(true);
+
+    const stored = await readSeries(env, dek, INSTALL_ID, "2026-03-19", "hr");
+    expect(stored).toHaveLength(SERIES_CHUNK_SAMPLES + 10);
+    expect(stored[0]).toEqual({ t: NIGHT_START, v: 50 });
+    expect(stored.every((sample, index) => index === 0 || sample.t > stored[index - 1].t)).toBe(true);
+  });
+
+  it("keeps stored series when a re-sync leaves them out, and replaces them when sent", async () => {
+    const { env, dek } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ hr: heartRate(10) })], "t1");
+
+    await storeSyncDays(env, dek, INSTALL_ID, [{ ...day(undefined), sleep: { totalSleepHours: 8, awakeningCount: 0 } }], "t2");
+    expect(await readSeries(env, dek, INSTALL_ID, "2026-03-19", "hr")).toHaveLength(10);
+
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ hrv: [{ timestampISO: "2026-03-19T02:00:00.000Z", value: 40 }] })], "t3");
+    expect(await readSeries(env, dek, INSTALL_ID, "2026-03-19", "hr")).toHaveLength(0);
+    expect(await readSeries(env, dek, INSTALL_ID, "2026-03-19", "hrv")).toHaveLength(1);
+  });
+});
+
+describe("downsampling", () => {
+  it("averages samples into epoch-aligned buckets with min and max", () => {
+    const start = Date.parse("2026-03-19T01:00:00.000Z");
+    const points = downsample([
+      { t: start, v: 50 },
+      { t: start + 20_000, v: 60 },
+      { t: start + 59_000, v: 55 },
+      { t: start + 180_000, v: 70 }
+    ], 60);
+
+    expect(points).toEqual([
+      { timestampISO: "2026-03-19T01:00:00.000Z", mean: 55, min: 50, max: 60, count: 3 },
+      { timestampISO: "2026-03-19T01:03:00.000Z", mean: 70, min: 70, max: 70, count: 1 }
+    ]);
+  });
+
+  it("parses resolutions between one second and one hour", () => {
+    expect(resolutionSeconds("raw")).toBeNull();
+    expect(resolutionSeconds("30s")).toBe(30);
+    expect(resolutionSeconds("5m")).toBe(300);
+    expect(() => resolutionSeconds("0s")).toThrow();
+    expect(() => resolutionSeconds("61m")).toThrow();
+  });
+});
+
+describe("GET /v1/data/sleep/:date/series", () => {
+  it("downsamples on the server", async () => {
+    const { config, env, wrapped, dek } = await setup();
+    const apiKey = generateApiKey();
+    await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ hr: heartRate(120) })], "t1");
+
+    const get = (query: string) =>
+      handleGetSleepSeries(
+        new Request(`https://worker.test/v1/data/sleep/2026-03-19/series${query}`, { headers: { Authorization: `Bearer ${apiKey}` } }),
+        env,
+        config,
+        "2026-03-19"
+      );
+
+    const response = await get("?metric=hr&resolution=1m");
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { unit: string; sampleCount: number; count: number; points: Array<{ count: number }> };
+    expect(body).toMatchObject({ unit: "bpm", sampleCount: 120, count: 10 });
+    expect(body.points.every((point) => point.count === 12)).toBe(true);
+
+    expect((await get("?metric=rr")).status).toBe(404);
+    expect((await get("?metric=temperature")).status).toBe(400);
+    expect((await get("?metric=hr&resolution=90m")).status).toBe(400);
+  });
+});
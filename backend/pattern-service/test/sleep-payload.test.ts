@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { decrypt, encrypt, generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import type { SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import { upgradeStaleSleepPayloads } from "../src/services/payload-upgrade";
+import { decodeSleepPayload, openSleepPayload, sealSleepPayload, SLEEP_PAYLOAD_VERSION } from "../src/services/sleep-payload";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+/** A night as the app synced it before `averageSpO2`, `restingHeartRate` and `timeZone` existed. */
+const LEGACY_NIGHT = {
+  dayLabel: "Mar 10",
+  dayStartISO: "2026-03-10T00:00:00.000Z",
+  sleep: { totalSleepHours: 7.2, awakeningCount: 2, averageHeartRate: 54 },
+  stageDurations: [{ stage: "deep", hours: 1.1 }],
+  segments: []
+};
+
+function night(date: string): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    timeZone: "Europe/Berlin",
+    sleep: { totalSleepHours: 7, awakeningCount: 1, averageSpO2: 96 },
+    stageDurations: [],
+    segments: [],
+    events: []
+  };
+}
+
+describe("sleep payload envelope", () => {
+  it("upgrades unversioned payloads with every metric key present", () => {
+    const payload = decodeSleepPayload(JSON.stringify(LEGACY_NIGHT));
+
+    expect(payload.timeZone).toBeNull();
+    expect(payload.sleep).toEqual({
+      totalSleepHours: 7.2,
+      awakeningCount: 2,
+      mainSleepStartISO: null,
+      mainSleepEndISO: null,
+      averageHeartRate: 54,
+      averageHRV: null,
+      averageRespiratoryRate: null,
+      workoutMinutes: null,
+      averageSpO2: null,
+      restingHeartRate: null
+    });
+    expect(payload).not.toHaveProperty("schemaVersion");
+  });
+
+  it("seals the current version and opens it unchanged", async () => {
+    const config = testConfig();
+    const dek = await unwrapVersionedDEK(await wrapDEKWithRing(await generateDEK(), config.encryptionKeks), config.encryptionKeks);
+    const sealed = await sealSleepPayload(night("2026-03-11"), dek);
+
+    expect(JSON.parse(await decrypt(sealed, dek))).toMatchObject({ schemaVersion: SLEEP_PAYLOAD_VERSION, timeZone: "Europe/Berlin" });
+    expect(await openSleepPayload(sealed, dek)).toMatchObject({
+      dayLabel: "2026-03-11",
+      sleep: { totalSleepHours: 7, averageSpO2: 96, restingHeartRate: null }
+    });
+  });
+
+  it("rejects versions this Worker does not know and payloads that do not validate", () => {
+    expect(() => decodeSleepPayload(JSON.stringify({ ...LEGACY_NIGHT, schemaVersion: SLEEP_PAYLOAD_VERSION + 1 }))).toThrow(/Unsupported sleep payload version/);
+    expect(() => decodeSleepPayload(JSON.stringify({ ...LEGACY_NIGHT, sleep: { awakeningCount: 2 } }))).toThrow(/invalid/);
+  });
+});
+
+describe("background payload upgrade", () => {
+  it("re-encrypts stale rows of installs with a DEK and leaves current ones alone", async () => {
+    const config = testConfig();
+    const { db, days } = sleepDataD1();
+    const env = memoryEnvWithD1(db);
+    const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+    const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+
+    await storeSyncDays(env, dek, INSTALL_ID, [night("2026-03-11")], "t1");
+    const current = { ...days.get(`${INSTALL_ID}:2026-03-11`)! };
+    expect(current.schema_version).toBe(SLEEP_PAYLOAD_VERSION);
+
+    for (const date of ["2026-03-08", "2026-03-09", "2026-03-10"]) {
+      const blob = await encrypt(JSON.stringify({ ...LEGACY_NIGHT, dayLabel: date }), dek);
+      days.set(`${INSTALL_ID}:${date}`, {
+        id: `${INSTALL_ID}:${date}`,
+        install_id: INSTALL_ID,
+        day_date: date,
+        data_enc: blob.ciphertext,
+        iv: blob.iv,
+        tag: blob.tag,
+        synced_at: "t0",
+        content_hash: null,
+        revision: null,
+        tz: null,
+        rolled_up: 1,
+        schema_version: 1
+      });
+    }
+    days.get(`${INSTALL_ID}:2026-03-10`)!.data_enc = "corrupt";
+
+    expect(await upgradeStaleSleepPayloads(env, config, 10)).toEqual({ installs: 1, upgraded: 2, failed: 1, truncated: false });
+
+    const upgraded = days.get(`${INSTALL_ID}:2026-03-08`)!;
+    expect(upgraded.schema_version).toBe(SLEEP_PAYLOAD_VERSION);
+    expect(JSON.parse(await decrypt({ ciphertext: upgraded.data_enc, iv: upgraded.iv, tag: upgraded.tag }, dek))).toMatchObject({
+      schemaVersion: SLEEP_PAYLOAD_VERSION,
+      dayLabel: "2026-03-08",
+      sleep: { averageSpO2: null }
+    });
+    expect(days.get(`${INSTALL_ID}:2026-03-10`)!).toMatchObject({ schema_version: 1, upgrade_failed_version: SLEEP_PAYLOAD_VERSION });
+    expect(days.get(`${INSTALL_ID}:2026-03-11`)).toEqual(current);
+
+    // The failed row is not picked up again, so it cannot crowd out other work
+    expect(await upgradeStaleSleepPayloads(env, config, 10)).toEqual({ installs: 0, upgraded: 0, failed: 0, truncated: false });
+  });
+
+  it("marks the stale rows of an install without a DEK once and moves on", async () => {
+    const config = testConfig();
+    const { db, days } = sleepDataD1();
+    const env = memoryEnvWithD1(db);
+    const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+    const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+
+    await storeSyncDays(env, dek, "orphan", ["2026-03-08", "2026-03-09"].map(night), "t1");
+    await storeSyncDays(env, dek, INSTALL_ID, [night("2026-03-10")], "t1");
+    for (const row of days.values()) {
+      const blob = await encrypt(JSON.stringify({ ...LEGACY_NIGHT, dayLabel: row.day_date }), dek);
+      Object.assign(row, { data_enc: blob.ciphertext, iv: blob.iv, tag: blob.tag, schema_version: 1 });
+    }
+
+    expect(await upgradeStaleSleepPayloads(env, config, 10)).toEqual({ installs: 1, upgraded: 1, failed: 2, truncated: false });
+    expect(days.get("orphan:2026-03-08")!.upgrade_failed_version).toBe(SLEEP_PAYLOAD_VERSION);
+    expect(await upgradeStaleSleepPayloads(env, config, 10)).toEqual({ installs: 0, upgraded: 0, failed: 0, truncated: false });
+  });
+
+  it("stops at its limit and reports the run as truncated", async () => {
+    const config = testConfig();
+    const { db, days } = sleepDataD1();
+    const env = memoryEnvWithD1(db);
+    const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+    const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+    await registerApiKey(generateApiKey(), INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+
+    await storeSyncDays(env, dek, INSTALL_ID, ["2026-03-08", "2026-03-09", "2026-03-10"].map(night), "t1");
+    for (const row of days.values()) {
+      const blob = await encrypt(JSON.stringify({ ...LEGACY_NIGHT, dayLabel: row.day_date }), dek);
+      Object.assign(row, { data_enc: blob.ciphertext, iv: blob.iv, tag: blob.tag, schema_version: 1 });
+    }
+
+    expect(await upgradeStaleSleepPayloads(env, config, 2)).toMatchObject({ upgraded: 2, truncated: true });
+    expect(await upgradeStaleSleepPayloads(env, config, 2)).toMatchObject({ upgraded: 1, truncated: false });
+    expect([...days.values()].every((row) => row.schema_version === SLEEP_PAYLOAD_VERSION)).toBe(true);
+  });
+});
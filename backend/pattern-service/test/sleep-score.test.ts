@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { issueSignedToken } from "../src/auth/jwt";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetSleepScore } from "../src/routes/agent-data";
+import { handleGetScoreWeights, handlePutScoreWeights } from "../src/routes/profile";
+import type { StoredSleepPayload, SyncDay } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import { componentValues, DEFAULT_SCORE_PROFILE, mergeScoreProfile, scoreNight, targetScore } from "../src/services/sleep-score";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function payload(overrides: Partial<StoredSleepPayload["sleep"]> = {}, stageDurations = [
+  { stage: "deep", hours: 1.2 },
+  { stage: "rem", hours: 1.8 },
+  { stage: "core", hours: 5 },
+  { stage: "awake", hours: 0.5 }
+]): StoredSleepPayload {
+  return {
+    dayLabel: "Mar 10",
+    dayStartISO: "2026-03-10T00:00:00.000Z",
+    timeZone: null,
+    sleep: {
+      totalSleepHours: 8,
+      awakeningCount: 1,
+      mainSleepStartISO: null,
+      mainSleepEndISO: null,
+      averageHeartRate: null,
+      averageHRV: null,
+      averageRespiratoryRate: null,
+      workoutMinutes: null,
+      averageSpO2: null,
+      restingHeartRate: null,
+      ...overrides
+    },
+    stageDurations,
+    segments: []
+  };
+}
+
+function night(date: string, totalSleepHours: number): SyncDay {
+  return {
+    dayLabel: date,
+    dayStartISO: `${date}T00:00:00.000Z`,
+    sleep: { totalSleepHours, awakeningCount: 1 },
+    stageDurations: [{ stage: "deep", hours: 1.2 }, { stage: "rem", hours: 1.8 }, { stage: "awake", hours: 0.5 }],
+    segments: [],
+    events: []
+  };
+}
+
+async function setup() {
+  const config = testConfig();
+  const { db, profiles } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+  const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+  const apiKey = generateApiKey();
+  await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes: ["sleep:read"] }, config.agentKeyHashSecret, env);
+  const { token } = await issueSignedToken(config.jwtKeys, { subject: INSTALL_ID, type: "access", ttlSeconds: 60 });
+
+  const put = (body: unknown) =>
+    handlePutScoreWeights(new Request("https://worker.test/v1/profile/score-weights", {
+      method: "PUT",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    }), env, config);
+  const get = () =>
+    handleGetScoreWeights(new Request("https://worker.test/v1/profile/score-weights", { headers: { Authorization: `Bearer ${token}` } }), env, config);
+  const score = (query: string) =>
+    handleGetSleepScore(new Request(`https://worker.test/v1/data/sleep/score?${query}`, { headers: { Authorization: `Bearer ${apiKey}` } }), env, config);
+
+  return { env, dek, profiles, put, get, score };
+}
+
+describe("sleep score", () => {
+  it("gives full marks inside the target and falls off linearly outside it", () => {
+    const target = { min: 7, max: 9, tolerance: 2 };
+    expect(targetScore(8, target)).toBe(100);
+    expect(targetScore(6, target)).toBe(50);
+    expect(targetScore(10.5, target)).toBe(25);
+    expect(targetScore(4, target)).toBe(0);
+  });
+
+  it("derives stage shares and efficiency from the night", () => {
+    expect(componentValues(payload())).toEqual({
+      duration: 8,
+      deepSleep: 15,
+      remSleep: 22.5,
+      efficiency: (8 / 8.5) * 100,
+      awakenings: 1
+    });
+
+    const withSegments = {
+      ...payload(),
+      segments: [
+        { stage: "core", startISO: "2026-03-10T23:00:00.000Z", endISO: "2026-03-11T03:00:00.000Z", durationMinutes: 240 },
+        { stage: "awake", startISO: "2026-03-11T03:00:00.000Z", endISO: "2026-03-11T04:00:00.000Z", durationMinutes: 60 },
+        { stage: "deep", startISO: "2026-03-11T04:00:00.000Z", endISO: "2026-03-11T07:00:00.000Z", durationMinutes: 180 }
+      ]
+    };
+    expect(componentValues(withSegments).efficiency).toBe(87.5);
+  });
+
+  it("weights component scores and leaves out components without a value", () => {
+    const scored = scoreNight(payload({ totalSleepHours: 5.5 }, []), DEFAULT_SCORE_PROFILE);
+
+    expect(scored.components.duration).toEqual({ value: 5.5, score: 50, weight: 35 });
+    expect(scored.components.deepSleep).toEqual({ value: null, score: null, weight: 20 });
+    expect(scored.components.efficiency.score).toBeNull();
+    // Only duration (50) and awakenings (100) count: (50 * 35 + 100 * 10) / 45
+    expect(scored.score).toBe(61);
+  });
+
+  it("refuses a profile that weighs every component at zero", () => {
+    expect(() => mergeScoreProfile(DEFAULT_SCORE_PROFILE, {
+      weights: { duration: 0, deepSleep: 0, remSleep: 0, efficiency: 0, awakenings: 0 }
+    })).toThrow(/weight above 0/);
+  });
+});
+
+describe("score profile and score endpoint", () => {
+  it("stores an encrypted profile edited by the app and scores nights with it", async () => {
+    const { env, dek, profiles, put, get, score } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [night("2026-03-10", 8), night("2026-03-11", 5)], "t1");
+
+    expect(await (await get()).json()).toMatchObject({ isDefault: true, weights: DEFAULT_SCORE_PROFILE.weights });
+
+    const before = await (await score("from=2026-03-01&to=2026-03-31")).json() as { days: Array<{ date: string; score: number }> };
+    expect(before.days.map((day) => day.date)).toEqual(["2026-03-10", "2026-03-11"]);
+
+    const updated = await put({ weights: { deepSleep: 0, remSleep: 0, efficiency: 0, awakenings: 0 }, targets: { duration: { min: 7, max: 9, tolerance: 4 } } });
+    expect(updated.status).toBe(200);
+    expect(await updated.json()).toMatchObject({ isDefault: false, weights: { duration: 35, deepSleep: 0 }, targets: { remSleep: DEFAULT_SCORE_PROFILE.targets.remSleep } });
+    expect(profiles.get(INSTALL_ID)!.data_enc).not.toContain("duration");
+
+    const after = await (await score("from=2026-03-01&to=2026-03-31")).json() as {
+      averageScore: number;
+      days: Array<{ score: number; components: Record<string, { weight: number }> }>;
+    };
+    expect(after.days.map((day) => day.score)).toEqual([100, 50]);
+    expect(after.days[0].components.deepSleep.weight).toBe(0);
+    expect(after.averageScore).toBe(75);
+  });
+
+  it("rejects invalid profiles and ranges", async () => {
+    const { put, score } = await setup();
+
+    expect((await put({ weights: { caffeine: 10 } })).status).toBe(400);
+    expect((await put({ targets: { duration: { min: 9, max: 7, tolerance: 1 } } })).status).toBe(400);
+    expect((await put({ weights: { duration: 0, deepSleep: 0, remSleep: 0, efficiency: 0, awakenings: 0 } })).status).toBe(400);
+    expect((await score("from=2026-03-31&to=2026-03-01")).status).toBe(400);
+    expect((await score("from=2026-03-01")).status).toBe(400);
+  });
+});
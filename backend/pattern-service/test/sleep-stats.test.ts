@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, registerApiKey } from "../src/auth/agent-auth";
+import { generateDEK, unwrapVersionedDEK, wrapDEKWithRing } from "../src/crypto";
+import { handleGetSleepStats } from "../src/routes/agent-data";
+import type { StoredSleepPayload, SyncDay } from "../src/schema/agent";
+import type { StoredNight } from "../src/services/day-store";
+import { storeSyncDays } from "../src/services/day-store";
+import { shiftDays } from "../src/services/rollups";
+import { describeDistribution, sleepStats, type SleepStats } from "../src/services/sleep-stats";
+import { memoryEnvWithD1, sleepDataD1, testConfig } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function storedNight(date: string, sleep: Partial<StoredSleepPayload["sleep"]>): StoredNight {
+  return {
+    date,
+    payload: {
+      dayLabel: date,
+      dayStartISO: `${date}T00:00:00.000Z`,
+      timeZone: null,
+      sleep: {
+        totalSleepHours: 7,
+        awakeningCount: 1,
+        mainSleepStartISO: null,
+        mainSleepEndISO: null,
+        averageHeartRate: null,
+        averageHRV: null,
+        averageRespiratoryRate: null,
+        workoutMinutes: null,
+        averageSpO2: null,
+        restingHeartRate: null,
+        ...sleep
+      },
+      stageDurations: [],
+      segments: []
+    }
+  };
+}
+
+describe("sleep stats", () => {
+  it("describes a distribution", () => {
+    expect(describeDistribution([4, 1, 3, 2, 5, 6, 8, 7, 10, 9])).toEqual({
+      nights: 10,
+      mean: 5.5,
+      median: 5.5,
+      standardDeviation: 3.028,
+      min: 1,
+      max: 10,
+      p10: 1.9,
+      p90: 9.1
+    });
+    expect(describeDistribution([])).toMatchObject({ nights: 0, mean: null, min: null, p90: null });
+  });
+
+  it("breaks metrics down by weekday, weekend and trend", () => {
+    // 2026-03-02 is a Monday; the two weeks hold four weekend nights
+    const nights = Array.from({ length: 14 }, (_, index) => {
+      const date = shiftDays("2026-03-02", index);
+      const weekend = index % 7 >= 5;
+      return storedNight(date, { totalSleepHours: weekend ? 8.5 : 7, averageHRV: 50 + index });
+    });
+
+    const stats = sleepStats(nights, ["totalSleepHours", "averageHRV", "averageSpO2"]);
+
+    expect(stats.units).toEqual({ totalSleepHours: "h", averageHRV: "ms", averageSpO2: "%" });
+    expect(stats.byWeekday.saturday).toMatchObject({ nights: 2, metrics: { totalSleepHours: { nights: 2, mean: 8.5 } } });
+    expect(stats.byWeekday.monday.metrics.averageHRV).toEqual({ nights: 2, mean: 53.5, median: 53.5 });
+    expect(stats.weekdayVsWeekend.weekday.nights).toBe(10);
+    expect(stats.weekdayVsWeekend.weekend.nights).toBe(4);
+    expect(stats.weekdayVsWeekend.difference.totalSleepHours).toBe(1.5);
+    expect(stats.trends.averageHRV).toEqual({ nights: 14, slopePerDay: 1 });
+    expect(stats.trends.averageSpO2).toEqual({ nights: 0, slopePerDay: null });
+    expect(stats.distributions.averageSpO2!.nights).toBe(0);
+  });
+});
+
+describe("GET /v1/data/sleep/stats", () => {
+  async function setup() {
+    const config = testConfig();
+    const { db } = sleepDataD1();
+    const env = memoryEnvWithD1(db);
+    const wrapped = await wrapDEKWithRing(await generateDEK(), config.encryptionKeks);
+    const dek = await unwrapVersionedDEK(wrapped, config.encryptionKeks);
+    const apiKey = generateApiKey();
+    await registerApiKey(apiKey, INSTALL_ID, wrapped, { label: "Coach", scopes: ["stats:read"] }, config.agentKeyHashSecret, env);
+
+    const today = new Date().toISOString().substring(0, 10);
+    const days: SyncDay[] = Array.from({ length: 5 }, (_, index) => {
+      const date = shiftDays(today, -index);
+      return {
+        dayLabel: date,
+        dayStartISO: `${date}T00:00:00.000Z`,
+        sleep: { totalSleepHours: 7, awakeningCount: 1, averageSpO2: 95 + index, restingHeartRate: 50 + index },
+        stageDurations: [{ stage: "deep", hours: 1 }],
+        segments: [],
+        events: []
+      };
+    });
+    await storeSyncDays(env, dek, INSTALL_ID, days, "t1");
+
+    const get = (query: string) =>
+      handleGetSleepStats(new Request(`https://worker.test/v1/data/sleep/stats${query}`, { headers: { Authorization: `Bearer ${apiKey}` } }), env, config);
+    return { get };
+  }
+
+  it("returns distributions for every metric, or only the selected ones", async () => {
+    const { get } = await setup();
+
+    const all = await (await get("?days=14")).json() as SleepStats & { metrics: string[]; averageStageDurations: Record<string, number> };
+    expect(all.averages).toMatchObject({ totalSleepHours: 7, averageSpO2: 97, restingHeartRate: 52, averageHRV: null });
+    expect(all.averageStageDurations).toEqual({ deep: 1 });
+    expect(all.metrics).toContain("averageSpO2");
+    expect(all.metrics).toContain("restingHeartRate");
+    expect(all.distributions.averageSpO2).toMatchObject({ nights: 5, mean: 97, median: 97, min: 95, max: 99 });
+    expect(all.distributions.sleepScore!.nights).toBe(5);
+
+    const selected = await (await get("?days=14&metrics=restingHeartRate,averageSpO2,restingHeartRate")).json() as SleepStats & { metrics: string[] };
+    expect(selected.metrics).toEqual(["restingHeartRate", "averageSpO2"]);
+    expect(Object.keys(selected.distributions)).toEqual(["restingHeartRate", "averageSpO2"]);
+    expect(selected.trends.restingHeartRate!.slopePerDay).toBe(-1);
+  });
+
+  it("hides the averages and stage durations of unselected metrics", async () => {
+    const { get } = await setup();
+
+    const selected = await (await get("?metrics=averageSpO2")).json() as SleepStats & { averageStageDurations: Record<string, number> };
+    expect(selected.averages).toEqual({ averageSpO2: 97 });
+    expect(selected.averageStageDurations).toEqual({});
+    expect(Object.keys(selected.units)).toEqual(["averageSpO2"]);
+
+    const deep = await (await get("?metrics=deepHours")).json() as SleepStats & { averageStageDurations: Record<string, number> };
+    expect(deep.averages).toEqual({ deepHours: 1 });
+    expect(deep.averageStageDurations).toEqual({ deep: 1 });
+  });
+
+  it("rejects unknown or empty metric selections", async () => {
+    const { get } = await setup();
+    expect((await get("?metrics=mood")).status).toBe(400);
+    expect((await get("?metrics=,")).status).toBe(400);
+  });
+});
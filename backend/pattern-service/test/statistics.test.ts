@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  bootstrapMeanDifference,
+  cohensD,
+  mean,
+  median,
+  permutationTest,
+  quantile,
+  seededRandom,
+  standardDeviation,
+  variance
+} from "../src/services/statistics";
+
+describe("descriptive statistics", () => {
+  it("computes means, sample variance and interpolated quantiles", () => {
+    const values = [4, 8, 6, 2];
+    expect(mean(values)).toBe(5);
+    expect(variance(values)).toBeCloseTo(20 / 3);
+    expect(standardDeviation([5])).toBeNaN();
+    expect(median(values)).toBe(5);
+    expect(quantile(values, 0.1)).toBeCloseTo(2.6);
+    expect(quantile(values, 0.9)).toBeCloseTo(7.4);
+    expect(quantile([], 0.5)).toBeNaN();
+  });
+
+  it("computes Cohen's d from the pooled standard deviation", () => {
+    expect(cohensD([1, 2, 3], [3, 4, 5])).toBe(2);
+    expect(cohensD([3, 3, 3], [3, 3, 3])).toBeNull();
+    expect(cohensD([1], [2, 3])).toBeNull();
+  });
+});
+
+describe("resampling", () => {
+  const control = [6.1, 6.4, 5.9, 6.3, 6.0, 6.2];
+  const treatment = [7.0, 7.3, 6.9, 7.4, 7.1, 7.2];
+
+  it("is deterministic for a given seed", () => {
+    const first = seededRandom(42);
+    const second = seededRandom(42);
+    expect(Array.from({ length: 5 }, first)).toEqual(Array.from({ length: 5 }, second));
+
+    const options = { resamples: 500, level: 0.95, seed: 7 };
+    expect(bootstrapMeanDifference(control, treatment, options)).toEqual(bootstrapMeanDifference(control, treatment, options));
+    expect(permutationTest(control, treatment, { permutations: 500, seed: 7 })).toBe(permutationTest(control, treatment, { permutations: 500, seed: 7 }));
+  });
+
+  it("brackets the observed difference and separates clearly different groups", () => {
+    const interval = bootstrapMeanDifference(control, treatment, { resamples: 2000, level: 0.95 });
+    const observed = mean(treatment) - mean(control);
+    expect(interval.lower).toBeLessThan(observed);
+    expect(interval.upper).toBeGreaterThan(observed);
+    expect(interval.lower).toBeGreaterThan(0);
+
+    expect(permutationTest(control, treatment, { permutations: 2000 })).toBeLessThan(0.01);
+    expect(permutationTest(control, [...control].reverse(), { permutations: 2000 })).toBeGreaterThan(0.9);
+  });
+});
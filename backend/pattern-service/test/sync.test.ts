@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { generateDEK, unwrapDEK, wrapDEK } from "../src/crypto";
+import type { SyncDay } from "../src/schema/agent";
+import { dataSyncRequestSchema } from "../src/schema/agent";
+import { storeSyncDays } from "../src/services/day-store";
+import { readRollups } from "../src/services/rollups";
+import { memoryEnvWithD1, sleepDataD1, TEST_KEK } from "./fakes";
+
+const INSTALL_ID = "install-1";
+
+function day(overrides: Partial<SyncDay> = {}): SyncDay {
+  return {
+    dayLabel: "Mar 19",
+    dayStartISO: "2026-03-19T00:00:00.000Z",
+    sleep: { totalSleepHours: 7.5, awakeningCount: 1 },
+    stageDurations: [{ stage: "deep", hours: 1.5 }],
+    segments: [],
+    events: [{ name: "Coffee", timestampISO: "2026-03-18T08:00:00.000Z" }],
+    ...overrides
+  };
+}
+
+async function setup() {
+  const { db, days, events } = sleepDataD1();
+  const env = memoryEnvWithD1(db);
+  const dek = await unwrapDEK(await wrapDEK(await generateDEK(), TEST_KEK), TEST_KEK);
+  return { env, db, days, events, dek };
+}
+
+describe("incremental sync", () => {
+  it("inserts new days, then skips them when the content is unchanged", async () => {
+    const { env, db, days, dek } = await setup();
+
+    const first = await storeSyncDays(env, dek, INSTALL_ID, [day()], "2026-03-19T10:00:00.000Z");
+    expect(first[0]).toMatchObject({ date: "2026-03-19", status: "inserted" });
+    expect(first[0].contentHash).toMatch(/^[0-9a-f]{64}$/);
+
+    const ciphertext = days.get(`${INSTALL_ID}:2026-03-19`)!.data_enc;
+    const writesBefore = db.statements.filter((statement) => statement.sql.startsWith("INSERT")).length;
+
+    // Key order must not change the server-computed hash
+    const reordered = day({ sleep: { awakeningCount: 1, totalSleepHours: 7.5 } });
+    const second = await storeSyncDays(env, dek, INSTALL_ID, [reordered], "2026-03-19T11:00:00.000Z");
+
+    expect(second[0].status).toBe("unchanged");
+    expect(days.get(`${INSTALL_ID}:2026-03-19`)!.data_enc).toBe(ciphertext);
+    expect(db.statements.filter((statement) => statement.sql.startsWith("INSERT")).length).toBe(writesBefore);
+  });
+
+  it("updates changed days with a newer revision and flags stale revisions as conflicts", async () => {
+    const { env, days, dek } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ contentHash: "h5", revision: 5 })], "t1");
+
+    const newer = await storeSyncDays(env, dek, INSTALL_ID, [day({ contentHash: "h6", revision: 6 })], "t2");
+    expect(newer[0].status).toBe("updated");
+
+    const stale = await storeSyncDays(env, dek, INSTALL_ID, [day({ contentHash: "h4", revision: 4 })], "t3");
+    expect(stale[0]).toMatchObject({ status: "conflict", serverRevision: 6, serverContentHash: "h6" });
+    expect(days.get(`${INSTALL_ID}:2026-03-19`)).toMatchObject({ content_hash: "h6", revision: 6, synced_at: "t2" });
+  });
+
+  it("remembers a newer revision of unchanged content so older snapshots cannot win", async () => {
+    const { env, days, dek } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ contentHash: "a", revision: 1 })], "t1");
+
+    const bumped = await storeSyncDays(env, dek, INSTALL_ID, [day({ contentHash: "a", revision: 3 })], "t2");
+    expect(bumped[0].status).toBe("unchanged");
+    expect(days.get(`${INSTALL_ID}:2026-03-19`)!.revision).toBe(3);
+
+    const older = await storeSyncDays(env, dek, INSTALL_ID, [day({ contentHash: "b", revision: 2 })], "t3");
+    expect(older[0].status).toBe("conflict");
+  });
+
+  it("lets days without a revision overwrite (last write wins) and clears removed events", async () => {
+    const { env, events, dek } = await setup();
+    await storeSyncDays(env, dek, INSTALL_ID, [day({ revision: 9 })], "t1");
+    expect(events.size).toBe(1);
+
+    const result = await storeSyncDays(env, dek, INSTALL_ID, [day({ events: [] })], "t2");
+    expect(result[0].status).toBe("updated");
+    expect(events.size).toBe(0);
+  });
+});
+
+describe("time-zone day keys", () => {
+  // 00:00 in Kolkata (+05:30) is 18:30 UTC the previous day
+  const kolkataNight = (date: string, overrides: Partial<SyncDay> = {}) =>
+    day({ dayLabel: date, dayStartISO: `${date}T18:30:00.000Z`, events: [], ...overrides });
+
+  it("keys a day by its local date", async () => {
+    const { env, dek } = await setup();
+
+    const named = await storeSyncDays(env, dek, INSTALL_ID, [kolkataNight("2026-03-18", { timeZone: "Asia/Kolkata" })], "t1");
+    const offset = await storeSyncDays(env, dek, INSTALL_ID, [kolkataNight("2026-03-19", { timeZone: "+05:30" })], "t1");
+    const legacy = await storeSyncDays(env, dek, INSTALL_ID, [kolkataNight("2026-03-25")], "t1");
+
+    expect(named[0].date).toBe("2026-03-19");
+    expect(offset[0].date).toBe("2026-03-20");
+    expect(legacy[0].date).toBe("2026-03-25");
+  });
+
+  it("moves nights filed under their UTC date once they sync with a zone", async () => {
+    const { env, days, events, dek } = await setup();
+    const nights = ["2026-03-18", "2026-03-19"];
+    await storeSyncDays(env, dek, INSTALL_ID, nights.map((date) => kolkataNight(date, { events: [{ name: "Tea", timestampISO: `${date}T12:00:00.000Z` }] })), "t1");
+    expect([...days.keys()]).toEqual([`${INSTALL_ID}:2026-03-18`, `${INSTALL_ID}:2026-03-19`]);
+
+    // Newest night first, so the second one's UTC-keyed row has already been replaced
+    const results = await storeSyncDays(
+      env,
+      dek,
+      INSTALL_ID,
+      nights.reverse().map((date) => kolkataNight(date, { timeZone: "Asia/Kolkata", events: [{ name: "Tea", timestampISO: `${date}T12:00:00.000Z` }] })),
+      "t2"
+    );
+
+    expect(results.map((result) => [result.date, result.status])).toEqual([["2026-03-20", "inserted"], ["2026-03-19", "inserted"]]);
+    expect([...days.values()].map((row) => [row.day_date, row.tz]).sort()).toEqual([["2026-03-19", "Asia/Kolkata"], ["2026-03-20", "Asia/Kolkata"]]);
+    expect([...events.values()].map((row) => row.day_date).sort()).toEqual(["2026-03-19", "2026-03-20"]);
+
+    const [month] = await readRollups(env, dek, INSTALL_ID, "month", "2026-03-01", "2026-03-01");
+    expect(month.days).toBe(2);
+  });
+
+  it("rejects unknown zones", () => {
+    const parse = (timeZone: string) => dataSyncRequestSchema.safeParse({ days: [{ ...day(), timeZone }] }).success;
+
+    expect(parse("Europe/Berlin")).toBe(true);
+    expect(parse("-08:00")).toBe(true);
+    expect(parse("Mars/Olympus")).toBe(false);
+    expect(parse("+25:00")).toBe(false);
+  });
+});
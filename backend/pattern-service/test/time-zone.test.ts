@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { retentionCutoff } from "../src/services/retention";
+import { isValidTimeZone, localDateKey } from "../src/util/time-zone";
+
+describe("local day keys", () => {
+  const instant = "2026-03-18T20:00:00.000Z";
+
+  it("uses the UTC date without a zone", () => {
+    expect(localDateKey(instant)).toBe("2026-03-18");
+    expect(localDateKey(instant, null)).toBe("2026-03-18");
+  });
+
+  it("shifts by IANA zones, including across DST", () => {
+    expect(localDateKey(instant, "Asia/Tokyo")).toBe("2026-03-19");
+    expect(localDateKey(instant, "America/Los_Angeles")).toBe("2026-03-18");
+    // 23:30 in New York on the day DST ends (UTC-5 after the change)
+    expect(localDateKey("2026-11-02T04:30:00.000Z", "America/New_York")).toBe("2026-11-01");
+  });
+
+  it("shifts by UTC offsets", () => {
+    expect(localDateKey(instant, "+04:00")).toBe("2026-03-19");
+    expect(localDateKey("2026-03-18T02:00:00.000Z", "-03:30")).toBe("2026-03-17");
+  });
+
+  it("validates zones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("+14:00")).toBe(true);
+    expect(isValidTimeZone("+15:00")).toBe(false);
+    expect(isValidTimeZone("Nowhere/Special")).toBe(false);
+  });
+
+  it("counts retention windows in the caller's zone", () => {
+    const now = Date.parse(instant);
+    expect(retentionCutoff(7, now)).toBe("2026-03-11");
+    expect(retentionCutoff(7, now, "Asia/Tokyo")).toBe("2026-03-12");
+  });
+});